@@ -0,0 +1,319 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, cleanup, act } from '@testing-library/react';
+import { SceneLogic } from './types';
+import { QuotaError } from './services/errors';
+import { listAdventures, duplicateAdventure } from './services/storage';
+import { downloadFile } from './utils/download';
+import App from './App';
+
+const { story, image, audio } = vi.hoisted(() => ({
+  story: { id: 'gemini' as const, generateSceneLogic: vi.fn() },
+  image: { id: 'gemini' as const, generateSceneImage: vi.fn() },
+  audio: {
+    init: vi.fn(), resume: vi.fn(), stop: vi.fn(), setMix: vi.fn(), duck: vi.fn(),
+    playClick: vi.fn(), playTransition: vi.fn(), setAmbience: vi.fn(), setMusic: vi.fn(),
+  },
+}));
+
+vi.mock('./services/providers', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./services/providers')>()),
+  getProviders: () => ({ id: 'gemini', story, image }),
+}));
+
+vi.mock('./utils/audio', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./utils/audio')>()),
+  audio,
+}));
+
+// Saved cassettes are handed back to the test instead of the browser
+vi.mock('./utils/download', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./utils/download')>()),
+  downloadFile: vi.fn(),
+}));
+
+vi.mock('./services/storage', () => ({
+  listAdventures: vi.fn(async () => []),
+  loadAdventure: vi.fn(async () => null),
+  saveAdventure: vi.fn(async () => {}),
+  renameAdventure: vi.fn(async () => {}),
+  deleteAdventure: vi.fn(async () => {}),
+  duplicateAdventure: vi.fn(async () => {}),
+}));
+
+const makeLogic = (name: string): SceneLogic => ({
+  narrative: `${name} opens before you.`,
+  visualPrompt: `${name}, cinematic`,
+  altText: `Picture of ${name}`,
+  ambience: 'calm',
+  options: [
+    { label: `Explore ${name}`, actionPrompt: `Explore ${name}` },
+    { label: `Leave ${name}`, actionPrompt: `Leave ${name}` },
+  ],
+  ending: null,
+});
+
+// A response the test resolves by hand, to look at the loading state in between
+const deferred = <T,>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(res => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+const startAdventure = (prompt: string) => {
+  fireEvent.change(screen.getByPlaceholderText('Ex: Waking up in a falling airplane...'), { target: { value: prompt } });
+  fireEvent.click(screen.getByRole('button', { name: 'Initialize Simulation' }));
+};
+
+const findNarrative = async (text: string) => (await screen.findAllByText(text))[0];
+
+beforeEach(() => {
+  // Instant text and transitions, and no speculative turns to keep the call counts exact
+  localStorage.setItem('dreamstream:settings', JSON.stringify({ prefetch: false, instantText: true, transitionMs: 0, language: 'en' }));
+  image.generateSceneImage.mockImplementation(async (prompt: string) => `data:image/png;base64,${prompt.length}`);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  story.generateSceneLogic.mockReset();
+  image.generateSceneImage.mockReset();
+  vi.clearAllMocks();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('App', () => {
+  it('shows the loader while the opening scene is written, then the scene', async () => {
+    const logic = deferred<SceneLogic>();
+    story.generateSceneLogic.mockReturnValueOnce(logic.promise);
+    render(<App />);
+
+    startAdventure('A lighthouse in a storm');
+    expect(await screen.findByText('Weaving the Narrative...')).toBeTruthy();
+    expect(story.generateSceneLogic).toHaveBeenCalledWith(
+      'A lighthouse in a storm',
+      expect.stringContaining('Start of a new adventure'),
+      expect.any(AbortSignal),
+      expect.any(String),
+    );
+
+    await act(async () => logic.resolve(makeLogic('The lighthouse')));
+    expect(await findNarrative('The lighthouse opens before you.')).toBeTruthy();
+    expect(screen.queryByText('Weaving the Narrative...')).toBeNull();
+    expect(await screen.findByAltText('Picture of The lighthouse')).toBeTruthy();
+    expect(image.generateSceneImage).toHaveBeenCalledTimes(1);
+    // A single scene has nothing to rewind to
+    expect(screen.queryByRole('button', { name: 'Rewind' })).toBeNull();
+  });
+
+  it('grows the history with every choice', async () => {
+    story.generateSceneLogic
+      .mockResolvedValueOnce(makeLogic('The lighthouse'))
+      .mockResolvedValueOnce(makeLogic('The lamp room'));
+    render(<App />);
+
+    startAdventure('A lighthouse in a storm');
+    fireEvent.click(await screen.findByRole('button', { name: /Explore The lighthouse/ }));
+
+    expect(await findNarrative('The lamp room opens before you.')).toBeTruthy();
+    const [action, context] = story.generateSceneLogic.mock.calls[1];
+    expect(action).toBe('Explore The lighthouse');
+    expect(context).toContain('The lighthouse opens before you.');
+    expect(screen.getByRole('button', { name: 'Rewind' })).toBeTruthy();
+  });
+
+  it('follows an explored branch again without asking the model', async () => {
+    story.generateSceneLogic
+      .mockResolvedValueOnce(makeLogic('The lighthouse'))
+      .mockResolvedValueOnce(makeLogic('The lamp room'));
+    render(<App />);
+
+    startAdventure('A lighthouse in a storm');
+    fireEvent.click(await screen.findByRole('button', { name: /Explore The lighthouse/ }));
+    await findNarrative('The lamp room opens before you.');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Rewind' }));
+    fireEvent.click(await screen.findByRole('button', { name: 'The lighthouse opens before you.' }));
+    fireEvent.click(await screen.findByRole('button', { name: /Explore The lighthouse/ }));
+
+    expect(await findNarrative('The lamp room opens before you.')).toBeTruthy();
+    expect(story.generateSceneLogic).toHaveBeenCalledTimes(2);
+  });
+
+  it('shows the error and retries the same action', async () => {
+    story.generateSceneLogic
+      .mockRejectedValueOnce(new QuotaError())
+      .mockResolvedValueOnce(makeLogic('The lighthouse'));
+    render(<App />);
+
+    startAdventure('A lighthouse in a storm');
+    expect(await screen.findByText('RATE LIMITED')).toBeTruthy();
+    expect(screen.queryByText('Weaving the Narrative...')).toBeNull();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Retry Same Action' }));
+    expect(await findNarrative('The lighthouse opens before you.')).toBeTruthy();
+    expect(screen.queryByText('RATE LIMITED')).toBeNull();
+    expect(story.generateSceneLogic.mock.calls.map(call => call[0])).toEqual(['A lighthouse in a storm', 'A lighthouse in a storm']);
+  });
+
+  it('keeps the current scene when a choice fails', async () => {
+    story.generateSceneLogic
+      .mockResolvedValueOnce(makeLogic('The lighthouse'))
+      .mockRejectedValueOnce(new QuotaError());
+    render(<App />);
+
+    startAdventure('A lighthouse in a storm');
+    fireEvent.click(await screen.findByRole('button', { name: /Explore The lighthouse/ }));
+
+    expect(await screen.findByText('RATE LIMITED')).toBeTruthy();
+    fireEvent.click(screen.getByRole('button', { name: 'Reboot System' }));
+    expect(screen.getAllByText('The lighthouse opens before you.').length).toBeGreaterThan(0);
+    expect(screen.queryByRole('button', { name: 'Rewind' })).toBeNull();
+  });
+
+  it('starts a world template in its art style', async () => {
+    story.generateSceneLogic.mockResolvedValueOnce(makeLogic('The lighthouse'));
+    render(<App />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Mars Colony Escape' }));
+    expect(screen.getByRole('button', { name: 'Mars Colony Escape' }).getAttribute('aria-pressed')).toBe('true');
+    fireEvent.click(screen.getByRole('button', { name: 'Initialize Simulation' }));
+
+    await findNarrative('The lighthouse opens before you.');
+    expect(story.generateSceneLogic.mock.calls[0][0]).toContain('Mars colony');
+    await vi.waitFor(() => expect(image.generateSceneImage).toHaveBeenCalled());
+    expect(image.generateSceneImage.mock.calls[0][0]).toMatch(/^Retro-futurist science fiction matte painting/);
+  });
+
+  it('shows the settings panel in the interface language', () => {
+    localStorage.setItem('dreamstream:settings', JSON.stringify({ language: 'fr' }));
+    render(<App />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Réglages' }));
+    const dialog = screen.getByRole('dialog', { name: 'Réglages' });
+    expect(dialog.textContent).toContain("Moteur d'histoire");
+    fireEvent.click(screen.getByRole('button', { name: 'Fermer' }));
+    expect(screen.queryByRole('dialog')).toBeNull();
+  });
+
+  it('keeps typed actions behind the parental lock with the rating', () => {
+    localStorage.setItem('dreamstream:settings', JSON.stringify({ language: 'en', parentalPin: 'a'.repeat(64) }));
+    render(<App />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Settings' }));
+    // Inputs are disabled through their fieldset, which only :disabled reflects
+    expect(screen.getByRole('checkbox', { name: 'Let players type their own actions' }).matches(':disabled')).toBe(true);
+    expect(screen.getByRole('radio', { name: /Kids/ }).matches(':disabled')).toBe(true);
+  });
+
+  it('reports that the parental lock is unavailable without crypto.subtle', () => {
+    // Non-secure origins have crypto.getRandomValues and randomUUID, but no subtle
+    const { randomUUID, getRandomValues } = crypto;
+    vi.stubGlobal('crypto', { randomUUID: randomUUID.bind(crypto), getRandomValues: getRandomValues.bind(crypto) });
+    render(<App />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Settings' }));
+    expect(screen.getByText('The parental lock needs a secure (HTTPS) connection and cannot be used here.')).toBeTruthy();
+    expect((screen.getByLabelText('New parental PIN') as HTMLInputElement).disabled).toBe(true);
+  });
+
+  it('reports problems in a shared worlds file in the interface language', async () => {
+    localStorage.setItem('dreamstream:settings', JSON.stringify({ language: 'fr' }));
+    render(<App />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Modifier les mondes' }));
+    const json = JSON.stringify([{ name: 'Atlantis', tone: 'epic', ambience: 'underwater' }]);
+    // jsdom's File has no text()
+    const file = Object.assign(new File([json], 'worlds.json', { type: 'application/json' }), { text: async () => json });
+    fireEvent.change(screen.getByLabelText('Importer un JSON'), { target: { files: [file] } });
+
+    expect((await screen.findByRole('alert')).textContent).toBe("Impossible d'importer worlds.json :\nLe monde 1 a un ton inconnu « epic ».");
+  });
+
+  it('reports a failed change to the saved adventures and reloads the list', async () => {
+    vi.mocked(listAdventures).mockResolvedValueOnce([{ id: 'a1', title: 'The lighthouse', sceneCount: 3, createdAt: 1, updatedAt: 2 }]);
+    vi.mocked(duplicateAdventure).mockRejectedValueOnce(new DOMException('Quota exceeded', 'QuotaExceededError'));
+    render(<App />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Copy' }));
+    expect(await screen.findByText('Could not update your saved adventures. Browser storage may be full or blocked.')).toBeTruthy();
+    expect(duplicateAdventure).toHaveBeenCalledWith('a1');
+    await vi.waitFor(() => expect(screen.queryByRole('button', { name: 'Copy' })).toBeNull());
+  });
+
+  it('replays a recorded cassette one choice at a time without the live providers', async () => {
+    localStorage.setItem('dreamstream:settings', JSON.stringify({ prefetch: false, instantText: true, transitionMs: 0, language: 'en', developerMode: true }));
+    story.generateSceneLogic
+      .mockResolvedValueOnce(makeLogic('The lighthouse'))
+      .mockResolvedValueOnce(makeLogic('The lamp room'));
+    render(<App />);
+
+    startAdventure('A lighthouse in a storm');
+    fireEvent.click(await screen.findByRole('button', { name: /Explore The lighthouse/ }));
+    await findNarrative('The lamp room opens before you.');
+    await vi.waitFor(() => expect(image.generateSceneImage).toHaveBeenCalledTimes(2));
+    fireEvent.click(screen.getByRole('button', { name: 'Save Cassette' }));
+    const json = vi.mocked(downloadFile).mock.calls[0][1];
+    fireEvent.click(screen.getByRole('button', { name: 'Abort Sim' }));
+
+    story.generateSceneLogic.mockClear();
+    image.generateSceneImage.mockClear();
+    const file = Object.assign(new File([json], 'session.json', { type: 'application/json' }), { text: async () => json });
+    fireEvent.change(screen.getByLabelText('Replay Cassette'), { target: { files: [file] } });
+
+    expect(await findNarrative('The lighthouse opens before you.')).toBeTruthy();
+    expect(await screen.findByAltText('Picture of The lighthouse')).toBeTruthy();
+    fireEvent.click(await screen.findByRole('button', { name: 'Next Choice 1/1' }));
+    expect(await findNarrative('The lamp room opens before you.')).toBeTruthy();
+    expect(await screen.findByAltText('Picture of The lamp room')).toBeTruthy();
+    expect((screen.getByRole('button', { name: 'Next Choice 1/1' }) as HTMLButtonElement).disabled).toBe(true);
+    expect(story.generateSceneLogic).not.toHaveBeenCalled();
+    expect(image.generateSceneImage).not.toHaveBeenCalled();
+  });
+
+  it('drops a late response after the adventure is aborted', async () => {
+    const logic = deferred<SceneLogic>();
+    story.generateSceneLogic.mockReturnValueOnce(logic.promise);
+    render(<App />);
+
+    startAdventure('A lighthouse in a storm');
+    fireEvent.click(await screen.findByRole('button', { name: 'Abort Sim' }));
+    expect(story.generateSceneLogic.mock.calls[0][2].aborted).toBe(true);
+
+    await act(async () => logic.resolve(makeLogic('The lighthouse')));
+    expect(screen.getByRole('button', { name: 'Initialize Simulation' })).toBeTruthy();
+    expect(screen.queryByText('The lighthouse opens before you.')).toBeNull();
+    expect(audio.stop).toHaveBeenCalled();
+  });
+
+  it('drops a prefetched scene that lands after the adventure is aborted', async () => {
+    localStorage.setItem('dreamstream:settings', JSON.stringify({ prefetch: true, instantText: true, transitionMs: 0, language: 'en' }));
+    const prefetched = deferred<SceneLogic>();
+    story.generateSceneLogic.mockResolvedValue(makeLogic('Somewhere'));
+    story.generateSceneLogic
+      .mockResolvedValueOnce(makeLogic('The lighthouse'))
+      .mockReturnValueOnce(prefetched.promise);
+    render(<App />);
+
+    startAdventure('A lighthouse in a storm');
+    fireEvent.click(await screen.findByRole('button', { name: /Explore The lighthouse/ }));
+    // The choice picks up the prefetch that is still running
+    expect(story.generateSceneLogic.mock.calls[1][0]).toBe('Explore The lighthouse');
+    fireEvent.click(await screen.findByRole('button', { name: 'Abort Sim' }));
+    expect(story.generateSceneLogic.mock.calls[1][2].aborted).toBe(true);
+
+    story.generateSceneLogic.mockResolvedValueOnce(makeLogic('The cave'));
+    startAdventure('A cave by the sea');
+    await findNarrative('The cave opens before you.');
+
+    await act(async () => prefetched.resolve(makeLogic('The lamp room')));
+    expect(screen.queryByText('The lamp room opens before you.')).toBeNull();
+    expect(screen.getAllByText('The cave opens before you.').length).toBeGreaterThan(0);
+  });
+});
@@ -1,23 +1,227 @@
-import React, { useState, useCallback, useMemo } from 'react';
-import { GameState, SceneData, ActionOption } from './types';
-import { generateSceneLogic, generateSceneImage } from './services/gemini';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { GameState, SceneData, ActionOption, AdventureSummary, AuthoredStory, VisualBible, PendingAction, WorldTemplate } from './types';
+import { getProviders, getEnvProvider, hasApiKey } from './services/providers';
+import { createAuthoredStoryProvider } from './services/authored';
+import { generateScene, generateSceneText, generateSceneVisual, SceneStage } from './services/scenePipeline';
+import { PrefetchScheduler } from './services/prefetch';
+import { configureRequests } from './services/request';
+import { configureStory } from './services/gemini';
+import { configureContentFilter, parseBlocklist } from './services/contentSafety';
+import { Cassette, CassetteRecorder, CassetteFormatError, Providers, createReplayProviders, parseCassette } from './services/cassette';
+import { classifyError, isAbortError, toGameError } from './services/errors';
+import { listAdventures, loadAdventure, saveAdventure, renameAdventure, deleteAdventure, duplicateAdventure } from './services/storage';
 import GameCanvas from './components/GameCanvas';
 import Loader from './components/Loader';
+import SavedAdventures from './components/SavedAdventures';
+import SettingsPanel from './components/SettingsPanel';
+import ExportMenu, { ExportFormat } from './components/ExportMenu';
+import ErrorOverlay from './components/ErrorOverlay';
+import TemplateEditor from './components/TemplateEditor';
 import { audio } from './utils/audio';
+import { getScene, findChildForOption, normalizeHistory } from './utils/storyTree';
+import { createBible, mergeEntities } from './utils/visualBible';
+import { INITIAL_PLAYER_STATE, canChoose } from './utils/playerState';
+import { Settings, loadSettings, saveSettings } from './utils/settings';
+import { buildAdventureHtml } from './utils/exportHtml';
+import { downloadFile, toFileName } from './utils/download';
+import { exportTwee } from './utils/twee';
+import { exportInk } from './utils/ink';
+import { importStory, StoryImportError } from './utils/storyImport';
+import { LANGUAGES, getTranslator } from './utils/i18n';
+import { getPresetTemplates, isPresetTemplate, loadTemplates, saveTemplates } from './utils/worldTemplates';
+
+const initialGameState: GameState = {
+  isPlaying: false,
+  adventureId: null,
+  title: '',
+  authoredStory: null,
+  currentScene: null,
+  player: INITIAL_PLAYER_STATE,
+  bible: createBible(),
+  history: [],
+  language: 'en',
+  template: null,
+  loading: false,
+  loadingMessage: '',
+  error: null,
+};
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+const prefetchKey = (sceneId: string, option: ActionOption) => `${sceneId}::${option.label}::${option.actionPrompt}`;
 
 const App: React.FC = () => {
   const [input, setInput] = useState('');
-  const [gameState, setGameState] = useState<GameState>({
-    isPlaying: false,
-    currentScene: null,
-    history: [],
-    loading: false,
-    loadingMessage: '',
-    error: null,
-  });
-
-  // Track if we need to check API key
-  const hasApiKey = !!process.env.API_KEY;
+  const [gameState, setGameState] = useState<GameState>(initialGameState);
+  const [savedAdventures, setSavedAdventures] = useState<AdventureSummary[]>([]);
+  const [settings, setSettings] = useState<Settings>(loadSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [templates, setTemplates] = useState<WorldTemplate[]>(loadTemplates); // The player's own worlds
+  const [selectedTemplate, setSelectedTemplate] = useState<WorldTemplate | null>(null);
+  const [showTemplates, setShowTemplates] = useState(false);
+
+  // Developer mode records the live providers; a loaded cassette replaces them entirely
+  const recorder = useRef(new CassetteRecorder());
+  const [replay, setReplay] = useState<{ cassette: Cassette; providers: Providers } | null>(null);
+  const [replayStep, setReplayStep] = useState(0); // Next action of the cassette to play
+
+  const providers = useMemo(() => {
+    if (replay) return replay.providers;
+    const live = getProviders(settings);
+    return settings.developerMode ? recorder.current.wrap(live) : live;
+  }, [settings, replay]);
+  const t = useMemo(() => getTranslator(settings.language), [settings.language]);
+  const presetTemplates = useMemo(() => getPresetTemplates(t), [t]);
+
+  useEffect(() => {
+    document.documentElement.lang = settings.language;
+    document.documentElement.dir = LANGUAGES[settings.language].dir;
+  }, [settings.language]);
+
+  // The operating system's reduced-motion preference turns the setting on as well
+  const [systemReducedMotion, setSystemReducedMotion] = useState(() => window.matchMedia?.(REDUCED_MOTION_QUERY).matches ?? false);
+  useEffect(() => {
+    const query = window.matchMedia?.(REDUCED_MOTION_QUERY);
+    if (!query) return;
+    const onChange = (e: MediaQueryListEvent) => setSystemReducedMotion(e.matches);
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }, []);
+  const reducedMotion = settings.reducedMotion || systemReducedMotion;
+
+  // Imported stories replace the model for narrative; images still come from the active provider
+  const storyProvider = useMemo(
+    () => gameState.authoredStory ? createAuthoredStoryProvider(gameState.authoredStory) : providers.story,
+    [gameState.authoredStory, providers]
+  );
+
+  const prefetcher = useRef(new PrefetchScheduler({
+    concurrency: settings.prefetchConcurrency,
+    costCap: settings.prefetchCostCap,
+  }));
+
+  useEffect(() => {
+    prefetcher.current.configure({ concurrency: settings.prefetchConcurrency, costCap: settings.prefetchCostCap });
+  }, [settings.prefetchConcurrency, settings.prefetchCostCap]);
+
+  useEffect(() => {
+    configureRequests({ retries: settings.requestRetries, timeoutMs: settings.requestTimeoutSeconds * 1000 });
+  }, [settings.requestRetries, settings.requestTimeoutSeconds]);
+
+  useEffect(() => {
+    configureStory({ readingLevel: settings.readingLevel, narrativeLength: settings.narrativeLength, tone: settings.tone });
+  }, [settings.readingLevel, settings.narrativeLength, settings.tone]);
+
+  useEffect(() => {
+    configureStory({ rating: settings.contentRating });
+    configureContentFilter({ rating: settings.contentRating, blocklist: parseBlocklist(settings.blocklist) });
+  }, [settings.contentRating, settings.blocklist]);
+
+  useEffect(() => {
+    audio.setMix({
+      master: settings.masterVolume,
+      ambience: settings.ambienceVolume,
+      music: settings.musicVolume,
+      sfx: settings.sfxVolume,
+      muted: settings.muted,
+    });
+  }, [settings.masterVolume, settings.ambienceVolume, settings.musicVolume, settings.sfxVolume, settings.muted]);
+
+  // Every request of the adventure being played listens to this; aborting the adventure cancels them all
+  const session = useRef(new AbortController());
+
+  const restartSession = () => {
+    session.current.abort();
+    session.current = new AbortController();
+    return session.current.signal;
+  };
+
+  const updateSettings = useCallback((next: Settings) => {
+    setSettings(next);
+    saveSettings(next);
+  }, []);
+
+  const updateTemplates = useCallback((next: WorldTemplate[]) => {
+    setTemplates(next);
+    saveTemplates(next);
+    // Keep the start screen's selection in step with edits to it
+    setSelectedTemplate(selected => (selected && !isPresetTemplate(selected) ? next.find(template => template.id === selected.id) ?? null : selected));
+  }, []);
+
+  const refreshSavedAdventures = useCallback(async () => {
+    try {
+      setSavedAdventures(await listAdventures());
+    } catch (error) {
+      console.error("Failed to list saved adventures", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshSavedAdventures();
+  }, [refreshSavedAdventures]);
+
+  // Autosave whenever a new scene lands
+  useEffect(() => {
+    const { adventureId, title, currentScene, history, authoredStory, bible, language, template } = gameState;
+    if (!adventureId || !currentScene) return;
+
+    saveAdventure({ id: adventureId, title, currentSceneId: currentScene.id, history, authoredStory: authoredStory ?? undefined, bible, language, template: template ?? undefined })
+      .catch(error => console.error("Autosave failed", error));
+  }, [gameState.history, gameState.currentScene, gameState.bible]);
+
+  // Apply a change to one scene wherever it appears in state
+  const patchScene = useCallback((id: string, patch: Partial<SceneData>) => {
+    setGameState(prev => ({
+      ...prev,
+      history: prev.history.map(s => (s.id === id ? { ...s, ...patch } : s)),
+      currentScene: prev.currentScene?.id === id ? { ...prev.currentScene, ...patch } : prev.currentScene,
+    }));
+  }, []);
+
+  // Second half of a turn: render the image for a scene whose narrative is already showing
+  const loadSceneImage = useCallback(async (scene: SceneData, parent: SceneData | null, bible: VisualBible) => {
+    const signal = session.current.signal;
+    try {
+      const imageUrl = await generateSceneVisual({ image: providers.image, scene, parent, bible, signal });
+      patchScene(scene.id, { imageUrl, imageStatus: 'ready', imageError: undefined });
+    } catch (error) {
+      if (signal.aborted) return;
+      console.error("Image generation failed", error);
+      patchScene(scene.id, { imageStatus: 'failed', imageError: classifyError(error).kind });
+    }
+  }, [providers, patchScene]);
+
+  // Once a scene is on screen, speculatively generate what each of its options leads to
+  useEffect(() => {
+    const { currentScene, history, bible, loading } = gameState;
+    const scheduler = prefetcher.current;
+    if (!currentScene || loading || currentScene.ending || !settings.prefetch) {
+      scheduler.cancelAll();
+      return;
+    }
+
+    const candidates = currentScene.options.filter(option =>
+      canChoose(option, currentScene.playerState ?? INITIAL_PLAYER_STATE)
+      && !findChildForOption(history, currentScene.id, option)
+    );
+    // Anything prefetched for a scene the player has left is stale
+    scheduler.cancelAll(candidates.map(option => prefetchKey(currentScene.id, option)));
+    // Jobs the player has already picked up are no longer the scheduler's to cancel; end them with the session
+    const sessionSignal = session.current.signal;
+
+    for (const option of candidates) {
+      scheduler.prefetch(prefetchKey(currentScene.id, option), signal => generateScene({
+        story: storyProvider,
+        image: providers.image,
+        action: option.actionPrompt,
+        option,
+        parent: currentScene,
+        history,
+        bible,
+        signal,
+      }), sessionSignal);
+    }
+  }, [gameState.currentScene, gameState.loading, storyProvider, providers, settings.prefetch]);
 
   // Generate random particles for landing page
   const particles = useMemo(() => {
@@ -30,123 +234,330 @@ const App: React.FC = () => {
     }));
   }, []);
 
-  const handleStartGame = useCallback(async (initialPrompt: string) => {
+  const handleStartGame = useCallback(async (initialPrompt: string, authoredStory: AuthoredStory | null = null, template: WorldTemplate | null = null) => {
     if (!initialPrompt.trim()) return;
+    const story = authoredStory ? createAuthoredStoryProvider(authoredStory) : providers.story;
 
     // Initialize Audio Engine on user interaction
     audio.init();
     audio.resume();
     audio.playClick();
 
+    // The adventure keeps the language it was started in; procedural dreams only speak English
+    const language = replay?.cassette.language ?? (providers.id === 'offline' && !authoredStory ? 'en' : settings.language);
+    // A world template sets the genre, tone and art style for the whole adventure
+    configureStory({ language, tone: template?.tone ?? settings.tone, world: template && { genre: template.genre, ambience: template.ambience } });
+    const bible = createBible(template?.artStyle.trim() || undefined);
+    const action: PendingAction = { type: 'start', prompt: initialPrompt, authoredStory: authoredStory ?? undefined, template: template ?? undefined };
+    if (settings.developerMode && !replay) {
+      recorder.current.start(providers.id, language);
+      recorder.current.recordAction(action);
+    }
+
     setGameState(prev => ({
       ...prev,
       isPlaying: true,
+      adventureId: crypto.randomUUID(),
+      title: authoredStory?.title ?? initialPrompt.trim(),
+      authoredStory,
+      bible,
+      language,
+      template,
       loading: true,
-      loadingMessage: 'Initializing Neural Dream Engine...',
+      loadingMessage: t('loading.init'),
       error: null
     }));
 
+    prefetcher.current.cancelAll();
+    prefetcher.current.resetBudget();
+    const signal = restartSession();
+
     try {
-      // 1. Generate Logic
-      setGameState(prev => ({ ...prev, loadingMessage: 'Weaving the Narrative...' }));
-      const logicData = await generateSceneLogic(initialPrompt, "Start of a new adventure. The player has just entered.");
-      
-      // 2. Generate Visuals
-      setGameState(prev => ({ ...prev, loadingMessage: 'Materializing World...' }));
-      const base64Image = await generateSceneImage(logicData.visualPrompt);
-
-      const newScene: SceneData = {
-        id: crypto.randomUUID(),
-        ...logicData,
-        imageUrl: base64Image
-      };
+      setGameState(prev => ({ ...prev, loadingMessage: t('loading.narrative') }));
+      const newScene = await generateSceneText({
+        story,
+        image: providers.image,
+        action: initialPrompt,
+        parent: null,
+        history: [],
+        bible,
+        signal,
+      });
 
+      // Show the narrative right away; the image fades in when it is ready
       setGameState(prev => ({
         ...prev,
         currentScene: newScene,
+        player: newScene.playerState ?? INITIAL_PLAYER_STATE,
+        bible: mergeEntities(prev.bible, newScene.entities),
         history: [newScene],
         loading: false
       }));
+      loadSceneImage(newScene, null, bible);
 
-    } catch (error: any) {
+    } catch (error) {
+      if (signal.aborted) return;
       console.error(error);
       setGameState(prev => ({
         ...prev,
         loading: false,
-        error: "Simulation failed. Connection interrupted. Try again."
+        error: toGameError(error, action)
       }));
     }
-  }, []);
+  }, [providers, loadSceneImage, settings.language, settings.tone, settings.developerMode, replay, t]);
 
   const handleOptionSelect = useCallback(async (option: ActionOption) => {
-    if (!gameState.currentScene) return;
+    const parentScene = gameState.currentScene;
+    if (!parentScene || parentScene.ending) return;
 
-    setGameState(prev => ({
-      ...prev,
-      loading: true,
-      loadingMessage: `Choosing path: ${option.label}...`,
-      error: null
-    }));
+    const parentState = parentScene.playerState ?? INITIAL_PLAYER_STATE;
+    if (!canChoose(option, parentState)) return;
+    // Authored stories can only follow their own links
+    if (option.custom && (!settings.allowFreeText || gameState.authoredStory)) return;
+    recorder.current.recordAction({ type: 'option', option });
+
+    // Re-picking an option that was already explored just follows the existing branch
+    const existingBranch = findChildForOption(gameState.history, parentScene.id, option);
+    if (existingBranch) {
+      setGameState(prev => ({ ...prev, currentScene: existingBranch, player: existingBranch.playerState ?? INITIAL_PLAYER_STATE }));
+      return;
+    }
+
+    const key = prefetchKey(parentScene.id, option);
+    // A finished prefetch swaps in instantly; skip the loader so it doesn't flash
+    if (!prefetcher.current.isReady(key)) {
+      setGameState(prev => ({
+        ...prev,
+        loading: true,
+        loadingMessage: t('loading.choosing', { label: option.label }),
+        error: null
+      }));
+    }
+
+    const signal = session.current.signal;
+    const generateOnDemand = () => generateSceneText({
+      story: storyProvider,
+      image: providers.image,
+      action: option.actionPrompt,
+      option,
+      parent: parentScene,
+      history: gameState.history,
+      bible: gameState.bible,
+      signal,
+      onStage: (stage: SceneStage) => setGameState(prev => ({
+        ...prev,
+        loadingMessage: stage === 'logic' ? t('loading.logic') : t('loading.image'),
+      })),
+    });
 
     try {
-      // Summarize history for context (last 3 scenes)
-      const recentHistory = gameState.history.slice(-3).map(h => h.narrative).join(" -> ");
-      
-      // 1. Generate Next Scene Logic
-      setGameState(prev => ({ ...prev, loadingMessage: 'Unfolding Destiny...' }));
-      const logicData = await generateSceneLogic(option.actionPrompt, recentHistory);
-
-      // 2. Generate Next Scene Visual
-      setGameState(prev => ({ ...prev, loadingMessage: 'Rendering Reality...' }));
-      const base64Image = await generateSceneImage(logicData.visualPrompt);
-
-      const newScene: SceneData = {
-        id: crypto.randomUUID(),
-        ...logicData,
-        imageUrl: base64Image
-      };
+      // Use the speculative result when there is one; fall back to generating now
+      const prefetched = prefetcher.current.take(key);
+      const newScene = prefetched
+        ? await prefetched.catch(error => {
+            signal.throwIfAborted();
+            console.warn("Prefetch failed, generating on demand", error);
+            return generateOnDemand();
+          })
+        : await generateOnDemand();
+      // A prefetch that finished before the abort still resolves; drop it too
+      signal.throwIfAborted();
 
       setGameState(prev => ({
         ...prev,
         currentScene: newScene,
+        player: newScene.playerState ?? INITIAL_PLAYER_STATE,
+        bible: mergeEntities(prev.bible, newScene.entities),
         history: [...prev.history, newScene],
         loading: false
       }));
+      if (newScene.imageStatus === 'pending') {
+        loadSceneImage(newScene, parentScene, gameState.bible);
+      }
 
-    } catch (error: any) {
+    } catch (error) {
+      if (signal.aborted || isAbortError(error)) return;
+      console.error(error);
       setGameState(prev => ({
         ...prev,
         loading: false,
-        error: "Lost connection to the dream stream. Please retry."
+        error: toGameError(error, { type: 'option', option })
       }));
     }
-  }, [gameState.history, gameState.currentScene]);
+  }, [gameState.history, gameState.currentScene, gameState.bible, gameState.authoredStory, settings.allowFreeText, storyProvider, providers, loadSceneImage, t]);
+
+  const handleRetryImage = useCallback((sceneId: string) => {
+    const scene = getScene(gameState.history, sceneId);
+    if (!scene) return;
+    patchScene(sceneId, { imageStatus: 'pending', imageError: undefined });
+    loadSceneImage(scene, getScene(gameState.history, scene.parentId) ?? null, gameState.bible);
+  }, [gameState.history, gameState.bible, patchScene, loadSceneImage]);
+
+  const handleBibleChange = useCallback((bible: VisualBible) => {
+    setGameState(prev => ({ ...prev, bible }));
+  }, []);
+
+  // Jump back (or across) to any scene in the story tree
+  const handleRewind = useCallback((sceneId: string) => {
+    const sceneIndex = gameState.history.findIndex(s => s.id === sceneId);
+    if (sceneIndex >= 0) recorder.current.recordAction({ type: 'rewind', sceneIndex });
+    setGameState(prev => {
+      const target = getScene(prev.history, sceneId);
+      return target ? { ...prev, currentScene: target, player: target.playerState ?? INITIAL_PLAYER_STATE } : prev;
+    });
+  }, [gameState.history]);
+
+  const handleResume = useCallback(async (id: string) => {
+    // A cassette has to start from the opening scene
+    recorder.current.stop();
+    audio.init();
+    audio.resume();
+    audio.playClick();
+
+    try {
+      const saved = await loadAdventure(id);
+      if (!saved || saved.history.length === 0) return;
+
+      prefetcher.current.cancelAll();
+      prefetcher.current.resetBudget();
+      restartSession();
+      // Images still rendering when the save was written will never arrive; offer a retry instead
+      const history = normalizeHistory(saved.history).map(s =>
+        s.imageStatus === 'pending' ? { ...s, imageStatus: 'failed' as const } : s
+      );
+      const currentScene = getScene(history, saved.currentSceneId) ?? history[history.length - 1];
+      const language = saved.language ?? 'en';
+      const template = saved.template ?? null;
+      configureStory({ language, tone: template?.tone ?? settings.tone, world: template && { genre: template.genre, ambience: template.ambience } });
+
+      audio.setAmbience(currentScene.ambience, currentScene.soundscape);
+      audio.setMusic(currentScene.ambience, currentScene.soundscape?.tension);
+      setGameState({
+        ...initialGameState,
+        isPlaying: true,
+        adventureId: saved.id,
+        title: saved.title,
+        authoredStory: saved.authoredStory ?? null,
+        currentScene,
+        player: currentScene.playerState ?? INITIAL_PLAYER_STATE,
+        bible: saved.bible ?? createBible(),
+        history,
+        language,
+        template,
+      });
+    } catch (error) {
+      console.error(error);
+      setGameState(prev => ({ ...prev, error: { kind: 'unknown', message: t('app.resumeFailed') } }));
+    }
+  }, [settings.tone, t]);
+
+  // Changes to the Continue list; the list is reloaded either way so it never shows stale entries
+  const updateSavedAdventures = useCallback(async (change: () => Promise<unknown>) => {
+    try {
+      await change();
+    } catch (error) {
+      console.error("Failed to update saved adventures", error);
+      setGameState(prev => ({ ...prev, error: { kind: 'unknown', message: t('saved.failed') } }));
+    } finally {
+      refreshSavedAdventures();
+    }
+  }, [refreshSavedAdventures, t]);
+
+  const handleRename = useCallback((id: string, title: string) => updateSavedAdventures(() => renameAdventure(id, title)), [updateSavedAdventures]);
+
+  const handleDelete = useCallback((id: string) => updateSavedAdventures(() => deleteAdventure(id)), [updateSavedAdventures]);
+
+  const handleDuplicate = useCallback((id: string) => updateSavedAdventures(() => duplicateAdventure(id)), [updateSavedAdventures]);
+
+  const handleImportStory = useCallback(async (file: File) => {
+    try {
+      const story = importStory(file.name, await file.text());
+      handleStartGame(story.start, story);
+    } catch (error) {
+      console.error(error);
+      const details = error instanceof StoryImportError ? error.message : t('app.importUnreadable');
+      setGameState(prev => ({ ...prev, error: { kind: 'unknown', message: t('app.importFailed', { file: file.name, details }) } }));
+    }
+  }, [handleStartGame, t]);
+
+  const handleLoadCassette = useCallback(async (file: File) => {
+    try {
+      const cassette = parseCassette(await file.text());
+      recorder.current.stop();
+      setReplayStep(1);
+      setReplay({ cassette, providers: createReplayProviders(cassette) });
+    } catch (error) {
+      console.error(error);
+      const details = error instanceof CassetteFormatError ? error.message : t('app.importUnreadable');
+      setGameState(prev => ({ ...prev, error: { kind: 'unknown', message: t('app.cassetteFailed', { file: file.name, details }) } }));
+    }
+  }, [t]);
+
+  // A loaded cassette starts playing once its providers are in place
+  useEffect(() => {
+    const start = replay?.cassette.actions[0];
+    if (start?.type === 'start') handleStartGame(start.prompt, start.authoredStory ?? null, start.template ?? null);
+  }, [replay]);
+
+  // Play the next recorded action, exactly as the player took it
+  const handleReplayNext = () => {
+    const action = replay?.cassette.actions[replayStep];
+    if (!action) return;
+    setReplayStep(step => step + 1);
+    if (action.type === 'start') {
+      handleStartGame(action.prompt, action.authoredStory ?? null, action.template ?? null);
+    } else if (action.type === 'option') {
+      handleOptionSelect(action.option);
+    } else {
+      const target = gameState.history[action.sceneIndex];
+      if (target) handleRewind(target.id);
+    }
+  };
+
+  const handleSaveCassette = () => {
+    const json = recorder.current.toJSON();
+    if (!json) return;
+    audio.playClick();
+    downloadFile(toFileName(`${gameState.title} cassette`, 'json'), json, 'application/json');
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    const { title, history, currentScene, language } = gameState;
+    if (!currentScene) return;
+    audio.playClick();
+    if (format === 'twee') {
+      downloadFile(toFileName(title, 'twee'), exportTwee(title, history), 'text/plain');
+    } else if (format === 'ink') {
+      downloadFile(toFileName(title, 'ink'), exportInk(title, history), 'text/plain');
+    } else {
+      downloadFile(toFileName(title, 'html'), buildAdventureHtml(title, history, currentScene.id, language), 'text/html');
+    }
+  };
+
+  // Re-run the turn that failed, exactly as the player first asked for it
+  const handleRetryAction = () => {
+    const action = gameState.error?.action;
+    setGameState(prev => ({ ...prev, error: null }));
+    if (action?.type === 'start') {
+      handleStartGame(action.prompt, action.authoredStory ?? null, action.template ?? null);
+    } else if (action?.type === 'option') {
+      handleOptionSelect(action.option);
+    }
+  };
 
   const resetGame = () => {
+    restartSession();
+    prefetcher.current.cancelAll();
+    recorder.current.stop();
+    setReplay(null);
     audio.playClick();
     audio.stop(); // Stop all ambient sound
-    setGameState({
-      isPlaying: false,
-      currentScene: null,
-      history: [],
-      loading: false,
-      loadingMessage: '',
-      error: null
-    });
+    setGameState(initialGameState);
     setInput('');
+    setSelectedTemplate(null);
+    refreshSavedAdventures();
   };
 
-  if (!hasApiKey) {
-     return (
-        <div className="min-h-screen bg-black text-white flex items-center justify-center p-4">
-           <div className="max-w-md text-center bg-red-900/10 border border-red-500 p-8 rounded-lg">
-              <h1 className="text-3xl font-display text-red-500 mb-4 animate-pulse">SYSTEM ERROR</h1>
-              <p>API Key missing in environment variables.</p>
-           </div>
-        </div>
-     )
-  }
-
   return (
     <div className="min-h-screen bg-neutral-900 text-white flex flex-col font-sans overflow-hidden">
       {/* Header - Always visible but minimal */}
@@ -155,14 +566,42 @@ const App: React.FC = () => {
             <h1 className={`font-display font-black tracking-tighter text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-600 transition-all ${gameState.isPlaying ? 'text-lg md:text-xl' : 'text-xl md:text-2xl opacity-50'}`}>
               DREAMSTREAM
             </h1>
-            {gameState.isPlaying && (
-              <button 
-                onClick={resetGame}
-                className="pointer-events-auto px-3 py-1.5 md:px-4 text-[10px] md:text-xs font-bold uppercase tracking-widest border border-red-500/30 text-red-400 hover:bg-red-500/20 hover:border-red-500 transition rounded-sm backdrop-blur-md"
+            <div className="flex gap-2">
+              <button
+                onClick={() => setShowSettings(true)}
+                className="pointer-events-auto px-3 py-1.5 md:px-4 text-[10px] md:text-xs font-bold uppercase tracking-widest border border-cyan-500/30 text-cyan-400 hover:bg-cyan-500/20 hover:border-cyan-500 transition rounded-sm backdrop-blur-md"
               >
-                Abort Sim
+                {t('app.settings')}
               </button>
-            )}
+              {gameState.isPlaying && replay && (
+                <button
+                  onClick={handleReplayNext}
+                  disabled={gameState.loading || replayStep >= replay.cassette.actions.length}
+                  className="pointer-events-auto px-3 py-1.5 md:px-4 text-[10px] md:text-xs font-bold uppercase tracking-widest border border-amber-400/30 text-amber-300 hover:bg-amber-400/20 hover:border-amber-400 transition rounded-sm backdrop-blur-md disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  {t('app.replayNext', { step: Math.min(replayStep, replay.cassette.actions.length - 1), total: replay.cassette.actions.length - 1 })}
+                </button>
+              )}
+              {gameState.isPlaying && settings.developerMode && !replay && (
+                <button
+                  onClick={handleSaveCassette}
+                  className="pointer-events-auto px-3 py-1.5 md:px-4 text-[10px] md:text-xs font-bold uppercase tracking-widest border border-amber-400/30 text-amber-300 hover:bg-amber-400/20 hover:border-amber-400 transition rounded-sm backdrop-blur-md"
+                >
+                  {t('app.saveCassette')}
+                </button>
+              )}
+              {gameState.isPlaying && gameState.currentScene && (
+                <ExportMenu onExport={handleExport} t={t} />
+              )}
+              {gameState.isPlaying && (
+                <button 
+                  onClick={resetGame}
+                  className="pointer-events-auto px-3 py-1.5 md:px-4 text-[10px] md:text-xs font-bold uppercase tracking-widest border border-red-500/30 text-red-400 hover:bg-red-500/20 hover:border-red-500 transition rounded-sm backdrop-blur-md"
+                >
+                  {t('app.abort')}
+                </button>
+              )}
+            </div>
         </div>
       </header>
 
@@ -180,7 +619,7 @@ const App: React.FC = () => {
              <div className="absolute inset-0 bg-gradient-to-b from-black via-transparent to-cyan-900/20 pointer-events-none"></div>
              
              {/* 3. Floating Particles */}
-             {particles.map((p, i) => (
+             {!reducedMotion && particles.map((p, i) => (
                 <div 
                   key={i} 
                   className="particle"
@@ -207,8 +646,13 @@ const App: React.FC = () => {
                      DREAMSTREAM
                    </h2>
                    <p className="text-cyan-200/60 font-mono text-[10px] md:text-base tracking-[0.3em] md:tracking-[0.5em] uppercase">
-                     Visual Narrative Engine v2.5
+                     {t('app.tagline')}
                    </p>
+                   {providers.id === 'offline' && (
+                     <p className="mt-2 text-pink-400/70 font-mono text-[10px] md:text-xs tracking-[0.3em] uppercase">
+                       {t('app.offlineMode')}
+                     </p>
+                   )}
                 </div>
                 
                 {/* Holographic Input Card */}
@@ -221,7 +665,7 @@ const App: React.FC = () => {
 
                   <div className="relative bg-black/60 p-4 md:p-6 flex flex-col gap-3 md:gap-4">
                      <p className="text-gray-400 font-light text-center leading-relaxed text-sm md:text-base">
-                        Input a starting scenario. The AI will generate a visual world, ambient audio, and twist-filled storyline.
+                        {t('app.intro')}
                      </p>
                      
                      <div className="relative mt-1 md:mt-2">
@@ -229,8 +673,8 @@ const App: React.FC = () => {
                           type="text"
                           value={input}
                           onChange={(e) => setInput(e.target.value)}
-                          onKeyDown={(e) => e.key === 'Enter' && handleStartGame(input)}
-                          placeholder="Ex: Waking up in a falling airplane..."
+                          onKeyDown={(e) => e.key === 'Enter' && handleStartGame(input, null, selectedTemplate)}
+                          placeholder={t('app.placeholder')}
                           // text-base prevents iOS zoom on focus
                           className="w-full bg-white/5 border-b border-white/20 px-3 py-3 md:px-4 text-base md:text-lg text-white placeholder-gray-600 outline-none focus:border-cyan-500 focus:bg-white/10 transition-all font-sans rounded-t"
                           autoFocus
@@ -239,32 +683,84 @@ const App: React.FC = () => {
                      </div>
 
                      <button
-                        onClick={() => handleStartGame(input)}
+                        onClick={() => handleStartGame(input, null, selectedTemplate)}
                         disabled={!input.trim()}
                         className="w-full mt-2 md:mt-4 bg-cyan-600/20 hover:bg-cyan-500 text-cyan-400 hover:text-black border border-cyan-500/50 py-3 md:py-4 font-display font-bold text-lg md:text-xl tracking-widest uppercase transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed group-hover:shadow-[0_0_20px_rgba(6,182,212,0.4)] touch-manipulation"
                      >
-                        Initialize Simulation
+                        {t('app.start')}
                      </button>
                   </div>
                 </div>
 
-                {/* Quick Start Chips */}
+                {/* World Templates: picking one sets the genre, tone and art style and fills in its opening */}
                 <div className="mt-6 md:mt-8 flex flex-wrap justify-center gap-2 md:gap-3 opacity-70">
-                  {[
-                    "Cyberpunk Detective",
-                    "Lost in a Magic Forest",
-                    "Zombie Apocalypse Mall",
-                    "Mars Colony Escape"
-                  ].map((s) => (
-                    <button
-                      key={s}
-                      onClick={() => setInput(s)}
-                      className="px-3 py-2 text-[10px] md:text-xs font-mono bg-black border border-white/20 hover:border-cyan-400 hover:text-cyan-400 transition-colors uppercase tracking-wider active:bg-white/10"
-                    >
-                      {s}
-                    </button>
-                  ))}
+                  {[...presetTemplates, ...templates].map((template) => {
+                    const selected = selectedTemplate?.id === template.id;
+                    return (
+                      <button
+                        key={template.id}
+                        onClick={() => {
+                          setSelectedTemplate(selected ? null : template);
+                          if (!selected) setInput(template.hook);
+                        }}
+                        aria-pressed={selected}
+                        title={template.genre}
+                        className={`px-3 py-2 text-[10px] md:text-xs font-mono bg-black border transition-colors uppercase tracking-wider active:bg-white/10 ${selected ? 'border-cyan-400 text-cyan-400' : 'border-white/20 hover:border-cyan-400 hover:text-cyan-400'}`}
+                      >
+                        {template.name || t('worlds.untitled')}
+                      </button>
+                    );
+                  })}
+                  <button
+                    onClick={() => setShowTemplates(true)}
+                    className="px-3 py-2 text-[10px] md:text-xs font-mono bg-black border border-dashed border-white/20 text-gray-400 hover:border-cyan-400 hover:text-cyan-400 transition-colors uppercase tracking-wider"
+                  >
+                    {t('app.worlds')}
+                  </button>
                 </div>
+
+                {/* Import authored story */}
+                <label className="mt-4 px-3 py-2 text-[10px] md:text-xs font-mono bg-black border border-dashed border-purple-500/40 text-purple-300/80 hover:border-purple-400 hover:text-purple-300 transition-colors uppercase tracking-wider cursor-pointer">
+                  {t('app.import')}
+                  <input
+                    type="file"
+                    accept=".twee,.tw,.ink,.txt"
+                    className="sr-only"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleImportStory(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+
+                {/* Play back a recorded session */}
+                {settings.developerMode && (
+                  <label className="mt-2 px-3 py-2 text-[10px] md:text-xs font-mono bg-black border border-dashed border-amber-500/40 text-amber-300/80 hover:border-amber-400 hover:text-amber-300 transition-colors uppercase tracking-wider cursor-pointer">
+                    {t('app.replayCassette')}
+                    <input
+                      type="file"
+                      accept=".json"
+                      className="sr-only"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleLoadCassette(file);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                )}
+
+                {/* Saved Adventures */}
+                <SavedAdventures
+                  adventures={savedAdventures}
+                  onResume={handleResume}
+                  onRename={handleRename}
+                  onDelete={handleDelete}
+                  onDuplicate={handleDuplicate}
+                  language={settings.language}
+                  t={t}
+                />
              </div>
           </div>
         )}
@@ -273,7 +769,47 @@ const App: React.FC = () => {
         {gameState.isPlaying && (
           <GameCanvas 
             scene={gameState.currentScene} 
+            history={gameState.history}
+            player={gameState.player}
+            bible={gameState.bible}
+            onBibleChange={handleBibleChange}
             onOptionSelect={handleOptionSelect}
+            onRewind={handleRewind}
+            onRetryImage={handleRetryImage}
+            onNewAdventure={resetGame}
+            allowFreeText={settings.allowFreeText && !gameState.authoredStory}
+            narration={{ enabled: settings.narration, voice: settings.narrationVoice, rate: settings.narrationRate }}
+            display={{
+              textSpeedMs: settings.instantText ? 0 : settings.textSpeed,
+              transitionMs: settings.transitionMs,
+              reducedMotion,
+            }}
+            language={gameState.language}
+            t={t}
+          />
+        )}
+
+        {/* Settings */}
+        {showSettings && (
+          <SettingsPanel
+            settings={settings}
+            activeProvider={providers.id}
+            envProvider={getEnvProvider()}
+            hasApiKey={hasApiKey()}
+            onChange={updateSettings}
+            onClose={() => setShowSettings(false)}
+            t={t}
+          />
+        )}
+
+        {/* World Templates */}
+        {showTemplates && (
+          <TemplateEditor
+            templates={templates}
+            presets={presetTemplates}
+            onChange={updateTemplates}
+            onClose={() => setShowTemplates(false)}
+            t={t}
           />
         )}
 
@@ -282,19 +818,12 @@ const App: React.FC = () => {
 
         {/* Error Overlay */}
         {gameState.error && (
-           <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-md p-4">
-             <div className="bg-red-900/20 border border-red-500/50 p-6 md:p-8 max-w-md w-full text-center relative overflow-hidden">
-               <div className="absolute top-0 left-0 w-full h-1 bg-red-500 animate-pulse"></div>
-               <h3 className="text-red-500 font-display text-xl md:text-2xl mb-4 tracking-widest">CRITICAL ERROR</h3>
-               <p className="text-gray-300 mb-6 md:mb-8 font-light text-sm md:text-base">{gameState.error}</p>
-               <button 
-                onClick={() => setGameState(prev => ({ ...prev, loading: false, error: null }))}
-                className="bg-red-600 hover:bg-red-700 text-white px-6 py-2 md:px-8 md:py-3 font-bold uppercase tracking-widest text-xs md:text-sm transition-all"
-               >
-                 Reboot System
-               </button>
-             </div>
-           </div>
+          <ErrorOverlay
+            error={gameState.error}
+            onRetry={handleRetryAction}
+            onDismiss={() => setGameState(prev => ({ ...prev, loading: false, error: null }))}
+            t={t}
+          />
         )}
 
       </main>
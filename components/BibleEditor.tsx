@@ -0,0 +1,106 @@
+import React from 'react';
+import { VisualBible, VisualEntity } from '../types';
+import { Translate } from '../utils/i18n';
+
+interface BibleEditorProps {
+  bible: VisualBible;
+  onChange: (bible: VisualBible) => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+const inputClass = 'w-full bg-white/5 border-b border-white/20 px-2 py-1 text-sm text-white outline-none focus:border-cyan-500 focus:bg-white/10 transition-all';
+
+// Lets the player inspect and correct the visual bible mid-adventure.
+// Any entry they touch is locked so the model's later descriptions cannot override it.
+const BibleEditor: React.FC<BibleEditorProps> = ({ bible, onChange, onClose, t }) => {
+  const updateEntity = (index: number, patch: Partial<VisualEntity>) => {
+    const entities = bible.entities.map((e, i) => (i === index ? { ...e, ...patch, locked: true } : e));
+    onChange({ ...bible, entities });
+  };
+
+  const removeEntity = (index: number) => {
+    onChange({ ...bible, entities: bible.entities.filter((_, i) => i !== index) });
+  };
+
+  const addEntity = () => {
+    onChange({ ...bible, entities: [...bible.entities, { kind: 'character', name: '', appearance: '', locked: true }] });
+  };
+
+  return (
+    <div className="absolute top-16 md:top-20 end-2 md:end-6 z-[60] w-[calc(100%-1rem)] max-w-md max-h-[70vh] overflow-y-auto glass-panel bg-black/85 p-3 rounded">
+      <div className="flex justify-between items-center mb-3">
+        <p className="font-display text-xs text-cyan-400 tracking-widest uppercase">{t('bible.title')}</p>
+        <button onClick={onClose} className="text-[10px] font-mono uppercase tracking-wider text-gray-400 hover:text-white">{t('panel.close')}</button>
+      </div>
+
+      <label className="block mb-3">
+        <span className="block font-mono text-[10px] uppercase tracking-wider text-gray-500 mb-1">{t('bible.artStyle')}</span>
+        <textarea
+          value={bible.artStyle}
+          onChange={(e) => onChange({ ...bible, artStyle: e.target.value })}
+          rows={2}
+          className={`${inputClass} resize-none`}
+        />
+      </label>
+
+      <label className="flex items-center gap-2 mb-4 text-xs text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={bible.useReferenceImage}
+          onChange={(e) => onChange({ ...bible, useReferenceImage: e.target.checked })}
+          className="accent-cyan-500"
+        />
+        {t('bible.reference')}
+      </label>
+
+      <ul className="flex flex-col gap-3">
+        {bible.entities.map((entity, i) => (
+          <li key={i} className="border-s-2 border-purple-500/40 ps-2">
+            <div className="flex gap-2 items-center mb-1">
+              <select
+                value={entity.kind}
+                onChange={(e) => updateEntity(i, { kind: e.target.value as VisualEntity['kind'] })}
+                className="bg-black border border-white/20 text-[10px] font-mono uppercase text-gray-300 px-1 py-1"
+              >
+                <option value="character">{t('bible.character')}</option>
+                <option value="location">{t('bible.location')}</option>
+              </select>
+              <input
+                type="text"
+                value={entity.name}
+                placeholder={t('bible.name')}
+                onChange={(e) => updateEntity(i, { name: e.target.value })}
+                className={inputClass}
+              />
+              <button
+                onClick={() => removeEntity(i)}
+                className="text-[10px] font-mono uppercase text-red-400 hover:text-red-300 px-1"
+                aria-label={t('bible.remove', { name: entity.name || t('bible.entry') })}
+              >
+                ✕
+              </button>
+            </div>
+            <textarea
+              value={entity.appearance}
+              placeholder={t('bible.appearance')}
+              onChange={(e) => updateEntity(i, { appearance: e.target.value })}
+              rows={2}
+              className={`${inputClass} resize-none`}
+            />
+            {entity.locked && <p className="font-mono text-[9px] uppercase tracking-wider text-purple-400 mt-0.5">{t('bible.locked')}</p>}
+          </li>
+        ))}
+      </ul>
+
+      <button
+        onClick={addEntity}
+        className="mt-3 w-full px-3 py-2 text-[10px] font-mono uppercase tracking-wider border border-dashed border-white/20 text-gray-400 hover:border-cyan-400 hover:text-cyan-400 transition-colors"
+      >
+        {t('bible.add')}
+      </button>
+    </div>
+  );
+};
+
+export default BibleEditor;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { SceneData, PlayerState } from '../types';
+import { Translate } from '../utils/i18n';
+
+interface EndingScreenProps {
+  scene: SceneData;
+  path: SceneData[]; // Scenes from the opening to this ending
+  player: PlayerState;
+  onShowPaths: () => void;
+  onNewAdventure: () => void;
+  t: Translate;
+}
+
+const EndingScreen: React.FC<EndingScreenProps> = ({ scene, path, player, onShowPaths, onNewAdventure, t }) => {
+  const victory = scene.ending === 'victory';
+  const choices = path.filter(s => s.chosenOption).map(s => s.chosenOption!.custom ? `"${s.chosenOption!.label}"` : s.chosenOption!.label);
+
+  return (
+    <div className="absolute inset-0 z-[65] flex items-center justify-center bg-black/80 backdrop-blur-md p-4 animate-scene-enter">
+      <div className={`glass-panel bg-black/70 max-w-lg w-full p-6 md:p-8 text-center border ${victory ? 'border-cyan-400/50' : 'border-red-500/50'}`}>
+        <h2 className={`font-display font-black text-3xl md:text-5xl tracking-tighter mb-2 ${victory ? 'text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-500' : 'text-red-500'}`}>
+          {victory ? t('ending.victory') : t('ending.lost')}
+        </h2>
+        <p className="text-gray-400 font-mono text-[10px] md:text-xs tracking-[0.3em] uppercase mb-6">
+          {victory ? t('ending.victorySubtitle') : t('ending.lostSubtitle')}
+        </p>
+
+        <dl className="grid grid-cols-3 gap-2 mb-6 font-mono text-xs uppercase tracking-wider">
+          <div className="bg-white/5 p-2"><dt className="text-gray-500">{t('ending.scenes')}</dt><dd className="text-white text-lg">{path.length}</dd></div>
+          <div className="bg-white/5 p-2"><dt className="text-gray-500">{t('hud.vitality')}</dt><dd className="text-white text-lg">{player.health}/{player.maxHealth}</dd></div>
+          <div className="bg-white/5 p-2"><dt className="text-gray-500">{t('ending.items')}</dt><dd className="text-white text-lg">{player.items.length}</dd></div>
+        </dl>
+
+        {player.items.length > 0 && (
+          <p className="text-sm text-purple-300 mb-4">{t('ending.carried', { items: player.items.join(', ') })}</p>
+        )}
+
+        {choices.length > 0 && (
+          <ol className="text-start text-sm text-gray-300 mb-6 max-h-32 overflow-y-auto list-decimal list-inside">
+            {choices.map((label, i) => <li key={i}>{label}</li>)}
+          </ol>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <button
+            onClick={onShowPaths}
+            className="flex-1 px-4 py-3 border border-cyan-500/50 text-cyan-400 hover:bg-cyan-500 hover:text-black font-display font-bold uppercase tracking-widest text-xs transition-all"
+          >
+            {t('canvas.rewind')}
+          </button>
+          <button
+            onClick={onNewAdventure}
+            className="flex-1 px-4 py-3 bg-cyan-600/20 border border-cyan-500/50 text-cyan-300 hover:bg-cyan-500 hover:text-black font-display font-bold uppercase tracking-widest text-xs transition-all"
+          >
+            {t('ending.newAdventure')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EndingScreen;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { GameError } from '../types';
+import { Translate } from '../utils/i18n';
+
+interface ErrorOverlayProps {
+  error: GameError;
+  onRetry: () => void;
+  onDismiss: () => void;
+  t: Translate;
+}
+
+const ErrorOverlay: React.FC<ErrorOverlayProps> = ({ error, onRetry, onDismiss, t }) => {
+  const title = t(`error.${error.kind}.title`);
+  const hint = t(`error.${error.kind}.hint`);
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-md p-4">
+      <div className="bg-red-900/20 border border-red-500/50 p-6 md:p-8 max-w-md w-full text-center relative overflow-hidden">
+        <div className="absolute top-0 start-0 w-full h-1 bg-red-500 animate-pulse"></div>
+        <h3 className="text-red-500 font-display text-xl md:text-2xl mb-4 tracking-widest">{title}</h3>
+        {hint && <p className="text-gray-200 mb-3 font-light text-sm md:text-base">{hint}</p>}
+        <p className={`mb-6 md:mb-8 whitespace-pre-line max-h-[50vh] overflow-y-auto ${hint ? 'text-gray-500 font-mono text-[10px] md:text-xs' : 'text-gray-300 font-light text-sm md:text-base'}`}>
+          {error.message}
+        </p>
+        <div className="flex flex-wrap justify-center gap-3">
+          {error.action && (
+            <button
+              onClick={onRetry}
+              className="border border-red-500/60 text-red-300 hover:bg-red-500/20 px-6 py-2 md:px-8 md:py-3 font-bold uppercase tracking-widest text-xs md:text-sm transition-all"
+            >
+              {t('error.retry')}
+            </button>
+          )}
+          <button
+            onClick={onDismiss}
+            className="bg-red-600 hover:bg-red-700 text-white px-6 py-2 md:px-8 md:py-3 font-bold uppercase tracking-widest text-xs md:text-sm transition-all"
+          >
+            {t('error.dismiss')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ErrorOverlay;
@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { Translate } from '../utils/i18n';
+
+export type ExportFormat = 'html' | 'twee' | 'ink';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  t: Translate;
+}
+
+// Tool names stay untranslated
+const FORMATS: { format: ExportFormat; label: (t: Translate) => string }[] = [
+  { format: 'html', label: t => t('export.html') },
+  { format: 'twee', label: () => 'Twine (Twee 3)' },
+  { format: 'ink', label: () => 'Ink' },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, t }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(v => !v)}
+        aria-expanded={open}
+        className="pointer-events-auto px-3 py-1.5 md:px-4 text-[10px] md:text-xs font-bold uppercase tracking-widest border border-purple-500/30 text-purple-400 hover:bg-purple-500/20 hover:border-purple-500 transition rounded-sm backdrop-blur-md"
+      >
+        {t('export.button')}
+      </button>
+      {open && (
+        <ul className="absolute end-0 mt-1 min-w-[10rem] glass-panel bg-black/90 rounded-sm py-1 z-50">
+          {FORMATS.map(({ format, label }) => (
+            <li key={format}>
+              <button
+                onClick={() => {
+                  setOpen(false);
+                  onExport(format);
+                }}
+                className="w-full text-start px-3 py-2 text-[10px] md:text-xs font-mono uppercase tracking-wider text-gray-300 hover:text-purple-300 hover:bg-purple-500/10"
+              >
+                {label(t)}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
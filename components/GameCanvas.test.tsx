@@ -0,0 +1,255 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, act, cleanup, fireEvent } from '@testing-library/react';
+import { SceneData } from '../types';
+import { INITIAL_PLAYER_STATE } from '../utils/playerState';
+import { createBible } from '../utils/visualBible';
+import { getTranslator } from '../utils/i18n';
+import GameCanvas, { TypewriterText } from './GameCanvas';
+
+const { audio } = vi.hoisted(() => ({
+  audio: { playTransition: vi.fn(), playClick: vi.fn(), setAmbience: vi.fn(), setMusic: vi.fn(), duck: vi.fn() },
+}));
+
+vi.mock('../utils/audio', () => ({ audio }));
+
+const TRANSITION_MS = 1000;
+const TEXT_SPEED_MS = 10;
+
+const makeScene = (id: string, overrides: Partial<SceneData> = {}): SceneData => ({
+  id,
+  parentId: null,
+  narrative: `Scene ${id} begins.`,
+  visualPrompt: `Scene ${id}`,
+  altText: `Picture of scene ${id}`,
+  imageUrl: `data:image/png;base64,${id}`,
+  imageStatus: 'ready',
+  options: [
+    { label: `Go left from ${id}`, actionPrompt: 'Go left' },
+    { label: `Go right from ${id}`, actionPrompt: 'Go right' },
+  ],
+  ambience: 'calm',
+  ...overrides,
+});
+
+const renderCanvas = (scene: SceneData | null, history: SceneData[] = scene ? [scene] : [], { allowFreeText = false } = {}) => {
+  const props = {
+    history,
+    player: INITIAL_PLAYER_STATE,
+    bible: createBible(),
+    onBibleChange: vi.fn(),
+    onOptionSelect: vi.fn(),
+    onRewind: vi.fn(),
+    onNewAdventure: vi.fn(),
+    onRetryImage: vi.fn(),
+    allowFreeText,
+    narration: { enabled: false, voice: '', rate: 1 },
+    display: { textSpeedMs: TEXT_SPEED_MS, transitionMs: TRANSITION_MS, reducedMotion: false },
+    language: 'en' as const,
+    t: getTranslator('en'),
+  };
+  const view = render(<GameCanvas scene={scene} {...props} />);
+  const show = (next: SceneData, nextHistory: SceneData[]) => view.rerender(<GameCanvas {...props} scene={next} history={nextHistory} />);
+  return { ...view, props, show };
+};
+
+const advance = (ms: number) => act(() => {
+  vi.advanceTimersByTime(ms);
+});
+
+// The typed narrative, as sighted players see it
+const typedNarrative = (container: HTMLElement) => container.querySelector('p[aria-hidden="true"]')!.textContent;
+
+// Scene layers on stage, oldest first
+const stagedScenes = () => screen.queryAllByRole('img').map(img => img.getAttribute('alt'));
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+  vi.clearAllMocks();
+});
+
+describe('TypewriterText', () => {
+  it('types the text one character per tick and completes once', () => {
+    const onComplete = vi.fn();
+    render(<TypewriterText text="Hello" speedMs={TEXT_SPEED_MS} onComplete={onComplete} />);
+    expect(screen.queryByText('Hello')).toBeNull();
+
+    advance(TEXT_SPEED_MS);
+    expect(screen.getByText('H')).toBeTruthy();
+    advance(TEXT_SPEED_MS * 4);
+    expect(screen.getByText('Hello')).toBeTruthy();
+    expect(onComplete).not.toHaveBeenCalled();
+
+    advance(TEXT_SPEED_MS * 10);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('shows everything at once when the speed is 0', () => {
+    const onComplete = vi.fn();
+    render(<TypewriterText text="Hello" speedMs={0} onComplete={onComplete} />);
+    expect(screen.getByText('Hello')).toBeTruthy();
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('starts over when the text changes', () => {
+    const { rerender } = render(<TypewriterText text="Hello" speedMs={TEXT_SPEED_MS} />);
+    advance(TEXT_SPEED_MS * 3);
+    rerender(<TypewriterText text="World" speedMs={TEXT_SPEED_MS} />);
+    advance(TEXT_SPEED_MS);
+    expect(screen.getByText('W')).toBeTruthy();
+  });
+
+  it('stops typing when unmounted', () => {
+    const onComplete = vi.fn();
+    const { unmount } = render(<TypewriterText text="Hello" speedMs={TEXT_SPEED_MS} onComplete={onComplete} />);
+    advance(TEXT_SPEED_MS);
+    unmount();
+    expect(vi.getTimerCount()).toBe(0);
+    advance(TEXT_SPEED_MS * 10);
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+});
+
+describe('GameCanvas', () => {
+  it('waits for a scene', () => {
+    renderCanvas(null);
+    expect(screen.getByText('Awaiting Visual Input...')).toBeTruthy();
+  });
+
+  it('keeps the previous scene on stage during the transition, then drops it', () => {
+    const a = makeScene('a');
+    const b = makeScene('b', { parentId: 'a' });
+    const { show } = renderCanvas(a);
+    expect(stagedScenes()).toEqual(['Picture of scene a']);
+
+    show(b, [a, b]);
+    expect(stagedScenes()).toEqual(['Picture of scene a', 'Picture of scene b']);
+
+    advance(TRANSITION_MS + 499);
+    expect(stagedScenes()).toHaveLength(2);
+    advance(1);
+    expect(stagedScenes()).toEqual(['Picture of scene b']);
+  });
+
+  it('restarts the cleanup when another scene arrives mid-transition', () => {
+    const a = makeScene('a');
+    const b = makeScene('b', { parentId: 'a' });
+    const c = makeScene('c', { parentId: 'b' });
+    const { show } = renderCanvas(a);
+    show(b, [a, b]);
+    advance(TRANSITION_MS);
+    show(c, [a, b, c]);
+
+    // B's cleanup would have fired here
+    advance(500);
+    expect(stagedScenes()).toHaveLength(3);
+    advance(TRANSITION_MS);
+    expect(stagedScenes()).toEqual(['Picture of scene c']);
+  });
+
+  it('brings back a scene that is still fading out without duplicating it', () => {
+    const a = makeScene('a');
+    const b = makeScene('b', { parentId: 'a' });
+    const { show } = renderCanvas(a);
+    show(b, [a, b]);
+    show(a, [a, b]);
+
+    expect(stagedScenes()).toEqual(['Picture of scene b', 'Picture of scene a']);
+    advance(TRANSITION_MS + 500);
+    expect(stagedScenes()).toEqual(['Picture of scene a']);
+  });
+
+  it('clears its timers when unmounted mid-transition', () => {
+    const a = makeScene('a');
+    const b = makeScene('b', { parentId: 'a' });
+    const { show, unmount } = renderCanvas(a);
+    show(b, [a, b]);
+    advance(TRANSITION_MS + TEXT_SPEED_MS * 3);
+
+    unmount();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('updates a scene in place without replaying its entrance', () => {
+    const pending = makeScene('a', { imageUrl: undefined, imageStatus: 'pending' });
+    const { show } = renderCanvas(pending);
+    expect(screen.getByText('Rendering visual...')).toBeTruthy();
+    expect(audio.playTransition).toHaveBeenCalledTimes(1);
+
+    const ready = makeScene('a');
+    show(ready, [ready]);
+    expect(stagedScenes()).toEqual(['Picture of scene a']);
+    expect(screen.queryByText('Rendering visual...')).toBeNull();
+    expect(audio.playTransition).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps typing when the image arrives mid-sentence', () => {
+    const pending = makeScene('a', { imageUrl: undefined, imageStatus: 'pending' });
+    const { container, show } = renderCanvas(pending);
+    advance(TRANSITION_MS);
+    advance(TEXT_SPEED_MS * 3);
+    expect(typedNarrative(container)).toBe('Sce');
+
+    const ready = makeScene('a');
+    show(ready, [ready]);
+    expect(typedNarrative(container)).toBe('Sce');
+    advance(TEXT_SPEED_MS);
+    expect(typedNarrative(container)).toBe('Scen');
+  });
+
+  it('sets the ambience and music for each new scene', () => {
+    const a = makeScene('a');
+    const b = makeScene('b', { parentId: 'a', ambience: 'storm', soundscape: { intensity: 1, tempo: 0.5, brightness: 0.5, tension: 0.8 } });
+    const { show } = renderCanvas(a);
+    show(b, [a, b]);
+
+    expect(audio.setAmbience).toHaveBeenLastCalledWith('storm', b.soundscape);
+    expect(audio.setMusic).toHaveBeenLastCalledWith('storm', 0.8);
+  });
+
+  it('reveals the options once the narrative has finished typing', () => {
+    const a = makeScene('a');
+    const { container } = renderCanvas(a);
+    const options = () => container.querySelector('[role="group"]')!;
+
+    advance(TRANSITION_MS);
+    expect(options().hasAttribute('inert')).toBe(true);
+
+    advance(TEXT_SPEED_MS * (a.narrative.length + 1));
+    expect(options().hasAttribute('inert')).toBe(false);
+    expect(document.activeElement?.textContent).toContain('Go left from a');
+  });
+
+  it('keeps the typed narrative while the player writes an action', () => {
+    const a = makeScene('a');
+    const { container } = renderCanvas(a, [a], { allowFreeText: true });
+    advance(TRANSITION_MS);
+    advance(TEXT_SPEED_MS * (a.narrative.length + 1));
+    expect(typedNarrative(container)).toBe(a.narrative);
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'Type your own action' }), { target: { value: 'Hel' } });
+    expect(typedNarrative(container)).toBe(a.narrative);
+    advance(TEXT_SPEED_MS * 3);
+    expect(typedNarrative(container)).toBe(a.narrative);
+  });
+
+  it('passes the picked option up', () => {
+    const a = makeScene('a');
+    const { props } = renderCanvas(a);
+    advance(TRANSITION_MS + TEXT_SPEED_MS * (a.narrative.length + 1));
+
+    act(() => {
+      screen.getByRole('button', { name: /Go right from a/ }).click();
+    });
+    expect(props.onOptionSelect).toHaveBeenCalledWith(a.options[1]);
+    expect(audio.playClick).toHaveBeenCalled();
+  });
+});
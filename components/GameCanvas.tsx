@@ -1,16 +1,57 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { SceneData, ActionOption } from '../types';
+import { SceneData, ActionOption, PlayerState, VisualBible, ErrorKind, Language } from '../types';
 import { audio } from '../utils/audio';
+import { AMBIENCE_REGISTRY } from '../utils/ambience';
+import { findChildForOption, getScenePath, getScene, getCustomActions } from '../utils/storyTree';
+import { canChoose } from '../utils/playerState';
+import { createCustomAction, MAX_FREE_TEXT_LENGTH } from '../utils/freeText';
+import { LANGUAGES, MessageKey, Translate } from '../utils/i18n';
+import { narrator } from '../services/narration';
+import StoryTree from './StoryTree';
+import MemoryDebugPanel from './MemoryDebugPanel';
+import TelemetryInspector from './TelemetryInspector';
+import PlayerHud from './PlayerHud';
+import EndingScreen from './EndingScreen';
+import BibleEditor from './BibleEditor';
 
 interface GameCanvasProps {
   scene: SceneData | null;
+  history: SceneData[];
+  player: PlayerState;
+  bible: VisualBible;
+  onBibleChange: (bible: VisualBible) => void;
   onOptionSelect: (option: ActionOption) => void;
+  onRewind: (sceneId: string) => void;
+  onNewAdventure: () => void;
+  onRetryImage: (sceneId: string) => void;
+  allowFreeText: boolean; // Show the "Do something else..." input
+  narration: { enabled: boolean; voice: string; rate: number };
+  display: { textSpeedMs: number; transitionMs: number; reducedMotion: boolean }; // textSpeedMs 0 shows text instantly
+  language: Language; // The adventure's language, which can differ from the interface's
+  t: Translate;
 }
 
-const TypewriterText: React.FC<{ text: string; onComplete?: () => void }> = ({ text, onComplete }) => {
+// Short reasons for the image retry button
+const IMAGE_ERROR_LABELS: Partial<Record<ErrorKind, MessageKey>> = {
+  quota: 'image.quota',
+  safety: 'image.safety',
+  'no-image': 'image.no-image',
+  network: 'image.network',
+  timeout: 'image.timeout',
+};
+
+export const TypewriterText: React.FC<{ text: string; speedMs: number; onComplete?: () => void }> = ({ text, speedMs, onComplete }) => {
   const [displayedText, setDisplayedText] = useState('');
+  // Callers pass inline callbacks; a new one must not restart the typing
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
 
   useEffect(() => {
+    if (speedMs <= 0) {
+      setDisplayedText(text);
+      onCompleteRef.current?.();
+      return;
+    }
     setDisplayedText('');
     let i = 0;
     
@@ -21,42 +62,74 @@ const TypewriterText: React.FC<{ text: string; onComplete?: () => void }> = ({ t
         i++;
       } else {
         clearInterval(intervalId);
-        if (onComplete) onComplete();
+        onCompleteRef.current?.();
       }
-    }, 30); // 30ms per character for typing speed
+    }, speedMs);
 
     return () => clearInterval(intervalId);
-  }, [text, onComplete]);
+  }, [text, speedMs]);
 
   return <span>{displayedText}</span>;
 };
 
-const GameCanvas: React.FC<GameCanvasProps> = ({ scene, onOptionSelect }) => {
+// Read-along text: everything is visible, the spoken part brightens and the current word is highlighted
+const NarratedText: React.FC<{ text: string; word: { index: number; length: number } | null }> = ({ text, word }) => {
+  const spokenEnd = word ? word.index : 0;
+  const wordEnd = word ? word.index + word.length : 0;
+  return (
+    <span>
+      <span>{text.slice(0, spokenEnd)}</span>
+      <span className="bg-cyan-400/30 rounded-sm shadow-[0_0_12px_rgba(34,211,238,0.4)]">{text.slice(spokenEnd, wordEnd)}</span>
+      <span className="text-white/40">{text.slice(wordEnd)}</span>
+    </span>
+  );
+};
+
+const GameCanvas: React.FC<GameCanvasProps> = ({ scene, history, player, bible, onBibleChange, onOptionSelect, onRewind, onNewAdventure, onRetryImage, allowFreeText, narration, display, language, t }) => {
   // We keep a history of scenes currently "on stage" to allow for smooth cross-fades.
   const [renderedScenes, setRenderedScenes] = useState<SceneData[]>([]);
   const [showUI, setShowUI] = useState(false);
   const [textComplete, setTextComplete] = useState(false);
+  const [showTree, setShowTree] = useState(false);
+  // Only one of the right-hand panels is open at a time
+  const [sidePanel, setSidePanel] = useState<'memory' | 'telemetry' | 'bible' | null>(null);
+  const [showEnding, setShowEnding] = useState(false);
+  const [freeText, setFreeText] = useState('');
+  const [spokenWord, setSpokenWord] = useState<{ index: number; length: number } | null>(null);
+  const optionRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  const narrating = narration.enabled && narrator.isAvailable();
+  const storyDir = LANGUAGES[language].dir;
+
+  // Scene content can change in place (e.g. its image arrives) without replaying the entrance
+  useEffect(() => {
+    if (!scene) return;
+    setRenderedScenes(prev => prev.map(s => (s.id === scene.id ? scene : s)));
+  }, [scene]);
 
   useEffect(() => {
     if (scene) {
       // 1. Play Transition Sound
       audio.playTransition();
       
-      // 2. Set Ambience
-      audio.setAmbience(scene.ambience);
+      // 2. Set Ambience and music
+      audio.setAmbience(scene.ambience, scene.soundscape);
+      audio.setMusic(scene.ambience, scene.soundscape?.tension);
 
       setRenderedScenes(prev => {
         // Avoid duplicate adding of the same scene ID
         if (prev.length > 0 && prev[prev.length - 1].id === scene.id) {
           return prev;
         }
-        return [...prev, scene];
+        // Rewinding can bring back a scene that is still fading out
+        return [...prev.filter(s => s.id !== scene.id), scene];
       });
 
       // Reset UI for the entrance of the new scene
       setShowUI(false);
       setTextComplete(false);
-      const uiTimer = setTimeout(() => setShowUI(true), 2000); // UI appears after image transition stabilizes
+      setShowEnding(false);
+      setFreeText('');
+      const uiTimer = setTimeout(() => setShowUI(true), display.transitionMs); // UI appears after image transition stabilizes
 
       // Cleanup old scenes after the transition duration
       const cleanupTimer = setTimeout(() => {
@@ -66,24 +139,106 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ scene, onOptionSelect }) => {
           }
           return prev;
         });
-      }, 2500);
+      }, display.transitionMs + 500);
 
       return () => {
         clearTimeout(uiTimer);
         clearTimeout(cleanupTimer);
       };
     }
-  }, [scene]);
+  }, [scene?.id]);
+
+  // Narration replaces the typewriter: the text completes when the voice finishes
+  useEffect(() => {
+    if (!scene || !showUI || !narrating) return;
+    const controller = new AbortController();
+    const text = scene.narrative;
+    setSpokenWord(null);
+    audio.duck(true);
+
+    narrator.speak(text, {
+      voice: narration.voice,
+      rate: narration.rate,
+      lang: language,
+      signal: controller.signal,
+      onWord: (index, length) => setSpokenWord({ index, length }),
+    })
+      .catch(error => {
+        if (!controller.signal.aborted) console.warn("Narration failed", error);
+      })
+      .finally(() => {
+        audio.duck(false);
+        if (controller.signal.aborted) return;
+        setSpokenWord({ index: text.length, length: 0 });
+        setTextComplete(true);
+      });
+
+    return () => controller.abort();
+  }, [scene?.id, showUI, narrating, narration.voice, narration.rate, language]);
+
+  // Ending scenes stop the loop: let the final text land, then show the summary
+  useEffect(() => {
+    if (!scene?.ending || !textComplete) return;
+    const endingTimer = setTimeout(() => setShowEnding(true), 1500);
+    return () => clearTimeout(endingTimer);
+  }, [scene, textComplete]);
+
+  // Once the options are shown, put focus on the first one a keyboard or screen reader user can pick
+  useEffect(() => {
+    if (!textComplete || scene?.ending) return;
+    optionRefs.current.find(button => button && !button.disabled)?.focus({ preventScroll: true });
+  }, [textComplete, scene?.id]);
+
+  // Number keys pick an option; arrow keys move focus between the options
+  useEffect(() => {
+    if (!scene || scene.ending || !textComplete || showTree || sidePanel || showEnding) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.altKey || e.ctrlKey || e.metaKey) return;
+      if ((e.target as HTMLElement | null)?.closest?.('input, textarea, select, [contenteditable="true"]')) return;
+      const buttons = optionRefs.current.filter((button): button is HTMLButtonElement => !!button);
+
+      const number = Number(e.key);
+      if (Number.isInteger(number) && number >= 1 && number <= buttons.length) {
+        e.preventDefault();
+        buttons[number - 1].click(); // Does nothing for options the player cannot pick
+        return;
+      }
+
+      const step = e.key === 'ArrowDown' || e.key === 'ArrowRight' ? 1 : e.key === 'ArrowUp' || e.key === 'ArrowLeft' ? -1 : 0;
+      const enabled = buttons.filter(button => !button.disabled);
+      if (!step || enabled.length === 0) return;
+      e.preventDefault();
+      const current = enabled.indexOf(document.activeElement as HTMLButtonElement);
+      const next = current === -1 ? (step > 0 ? 0 : enabled.length - 1) : (current + step + enabled.length) % enabled.length;
+      enabled[next].focus();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [scene, textComplete, showTree, sidePanel, showEnding]);
 
   const handleOptionClick = (option: ActionOption) => {
     audio.playClick();
     onOptionSelect(option);
   };
 
+  const handleFreeTextSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const action = createCustomAction(freeText);
+    if (!action) return;
+    setFreeText('');
+    handleOptionClick(action);
+  };
+
+  const handleRewind = (sceneId: string) => {
+    audio.playClick();
+    setShowTree(false);
+    onRewind(sceneId);
+  };
+
   if (renderedScenes.length === 0) {
     return (
       <div className="w-full h-full flex items-center justify-center text-gray-600 bg-black">
-        <p className="animate-pulse">Awaiting Visual Input...</p>
+        <p className="animate-pulse">{t('canvas.awaiting')}</p>
       </div>
     );
   }
@@ -97,19 +252,30 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ scene, onOptionSelect }) => {
       {/* --- Visual Layer --- */}
       {renderedScenes.map((s, index) => {
         const isNewest = index === renderedScenes.length - 1;
+        // Until the image lands, show the previous scene blurred, or a mood gradient
+        const placeholder = s.imageUrl ? undefined : getScene(history, s.parentId)?.imageUrl;
         
         return (
           <div 
             key={s.id} 
-            className={`absolute inset-0 w-full h-full ${isNewest ? 'animate-scene-enter' : ''}`}
-            style={{ zIndex: index }}
+            className={`absolute inset-0 w-full h-full ${isNewest ? (display.reducedMotion ? 'animate-scene-fade' : 'animate-scene-enter') : ''}`}
+            style={{ zIndex: index, animationDuration: `${display.transitionMs}ms` }}
           >
+             {!s.imageUrl && (
+                <div className={`absolute inset-0 bg-gradient-to-br ${(AMBIENCE_REGISTRY[s.ambience] ?? AMBIENCE_REGISTRY.calm).gradient}`}>
+                  {placeholder && (
+                    <img src={placeholder} alt="" className="w-full h-full object-cover blur-2xl scale-110 opacity-50" />
+                  )}
+                </div>
+             )}
              {s.imageUrl && (
-                <img 
-                  src={s.imageUrl} 
-                  alt={s.visualPrompt}
-                  className="w-full h-full object-cover animate-pan"
-                />
+                <div className={`w-full h-full ${s.imageStatus ? 'animate-image-reveal' : ''}`}>
+                  <img 
+                    src={s.imageUrl} 
+                    alt={s.altText ?? ''}
+                    className={`w-full h-full object-cover ${display.reducedMotion ? '' : 'animate-pan'}`}
+                  />
+                </div>
              )}
              {/* Atmosphere Overlays */}
              <div className="absolute inset-0 bg-gradient-to-t from-black via-transparent to-transparent opacity-70"></div>
@@ -118,37 +284,183 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ scene, onOptionSelect }) => {
         );
       })}
 
+      {/* --- Image Status --- */}
+      {activeScene.imageStatus === 'pending' && (
+        <p className="absolute top-16 md:top-20 left-1/2 -translate-x-1/2 z-[55] font-mono text-[10px] md:text-xs uppercase tracking-widest text-cyan-400/80 animate-pulse">
+          {t('canvas.rendering')}
+        </p>
+      )}
+      {activeScene.imageStatus === 'failed' && (
+        <button
+          onClick={() => onRetryImage(activeScene.id)}
+          className="absolute top-16 md:top-20 left-1/2 -translate-x-1/2 z-[55] px-3 py-1.5 text-[10px] md:text-xs font-bold uppercase tracking-widest border border-red-500/40 text-red-400 hover:bg-red-500/20 hover:border-red-500 transition rounded-sm backdrop-blur-md bg-black/40"
+        >
+          {t('canvas.retryImage', { reason: t((activeScene.imageError && IMAGE_ERROR_LABELS[activeScene.imageError]) || 'image.failed') })}
+        </button>
+      )}
+
+      {/* --- HUD --- */}
+      <PlayerHud player={player} t={t} />
+
+      {/* --- Story Tree / Rewind --- */}
+      {history.length > 1 && (
+        <button
+          onClick={() => setShowTree(v => !v)}
+          className="absolute top-16 md:top-20 start-2 md:start-6 z-[55] px-3 py-1.5 text-[10px] md:text-xs font-bold uppercase tracking-widest border border-cyan-500/30 text-cyan-400 hover:bg-cyan-500/20 hover:border-cyan-500 transition rounded-sm backdrop-blur-md bg-black/40"
+        >
+          {t('canvas.rewind')}
+        </button>
+      )}
+
+      {/* --- Visual Bible & Memory Debug View --- */}
+      <div className="absolute top-16 md:top-20 end-2 md:end-6 z-[55] flex gap-2">
+        <button
+          onClick={() => setSidePanel(p => (p === 'bible' ? null : 'bible'))}
+          className="px-3 py-1.5 text-[10px] md:text-xs font-bold uppercase tracking-widest border border-purple-500/30 text-purple-400 hover:bg-purple-500/20 hover:border-purple-500 transition rounded-sm backdrop-blur-md bg-black/40"
+        >
+          {t('canvas.bible')}
+        </button>
+        <button
+          onClick={() => setSidePanel(p => (p === 'memory' ? null : 'memory'))}
+          className="px-3 py-1.5 text-[10px] md:text-xs font-mono uppercase tracking-widest border border-white/10 text-gray-500 hover:text-gray-200 hover:border-white/30 transition rounded-sm backdrop-blur-md bg-black/40"
+        >
+          {t('canvas.memory')}
+        </button>
+        <button
+          onClick={() => setSidePanel(p => (p === 'telemetry' ? null : 'telemetry'))}
+          className="px-3 py-1.5 text-[10px] md:text-xs font-mono uppercase tracking-widest border border-white/10 text-gray-500 hover:text-gray-200 hover:border-white/30 transition rounded-sm backdrop-blur-md bg-black/40"
+        >
+          {t('canvas.inspector')}
+        </button>
+      </div>
+      {sidePanel === 'memory' && (
+        <MemoryDebugPanel
+          history={history}
+          currentSceneId={activeScene.id}
+          onClose={() => setSidePanel(null)}
+          t={t}
+        />
+      )}
+      {sidePanel === 'telemetry' && (
+        <TelemetryInspector
+          history={history}
+          currentSceneId={activeScene.id}
+          onClose={() => setSidePanel(null)}
+          t={t}
+        />
+      )}
+      {sidePanel === 'bible' && (
+        <BibleEditor
+          bible={bible}
+          onChange={onBibleChange}
+          onClose={() => setSidePanel(null)}
+          t={t}
+        />
+      )}
+      {showTree && (
+        <StoryTree
+          history={history}
+          currentSceneId={activeScene.id}
+          onSelect={handleRewind}
+          onClose={() => setShowTree(false)}
+          t={t}
+        />
+      )}
+
+      {showEnding && activeScene.ending && (
+        <EndingScreen
+          scene={activeScene}
+          path={getScenePath(history, activeScene.id)}
+          player={player}
+          onShowPaths={() => {
+            setShowEnding(false);
+            setShowTree(true);
+          }}
+          onNewAdventure={onNewAdventure}
+          t={t}
+        />
+      )}
+
       {/* --- Narrative & Interaction Layer --- */}
-      <div className={`absolute bottom-0 left-0 w-full p-4 md:p-6 pb-6 md:pb-10 z-50 transition-all duration-1000 ease-out ${showUI ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-8'}`}>
+      {/* Screen readers get the whole narrative once per scene instead of the typewriter's letters */}
+      <div className="sr-only" aria-live="polite" aria-atomic="true" lang={language}>
+        {showUI ? activeScene.narrative : ''}
+      </div>
+
+      <div className={`absolute bottom-0 left-0 w-full p-4 md:p-6 pb-6 md:pb-10 z-50 transition-all duration-1000 ease-out ${showUI ? 'opacity-100 translate-y-0' : `opacity-0 ${display.reducedMotion ? '' : 'translate-y-8'}`}`}>
           <div className="max-w-4xl mx-auto">
               
               {/* Story Text */}
               <div className="glass-panel p-4 md:p-6 rounded-t-lg border-b-0 relative overflow-hidden backdrop-blur-2xl bg-black/60">
-                  <div className="absolute top-0 left-0 w-1 h-full bg-cyan-500 shadow-[0_0_15px_rgba(6,182,212,0.5)]"></div>
-                  <p className="text-lg md:text-2xl lg:text-3xl text-white font-medium drop-shadow-lg leading-snug tracking-wide min-h-[3rem] md:min-h-[4rem]">
-                    {showUI && (
+                  <div className="absolute top-0 start-0 w-1 h-full bg-cyan-500 shadow-[0_0_15px_rgba(6,182,212,0.5)]"></div>
+                  <p aria-hidden="true" lang={language} dir={storyDir} className="text-lg md:text-2xl lg:text-3xl text-white font-medium drop-shadow-lg leading-snug tracking-wide min-h-[3rem] md:min-h-[4rem]">
+                    {showUI && (narrating ? (
+                      <NarratedText text={activeScene.narrative} word={spokenWord} />
+                    ) : (
                       <TypewriterText 
                         text={activeScene.narrative} 
+                        speedMs={display.textSpeedMs}
                         onComplete={() => setTextComplete(true)} 
                       />
-                    )}
+                    ))}
                   </p>
               </div>
 
               {/* Options Grid */}
-              <div className={`grid grid-cols-1 md:grid-cols-2 gap-2 md:gap-3 bg-black/80 p-3 md:p-4 rounded-b-lg border border-white/10 backdrop-blur-md transition-opacity duration-500 ${textComplete ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
-              {activeScene.options.map((option, idx) => (
+              {!activeScene.ending && (
+              <div
+                role="group"
+                aria-label={t('canvas.options')}
+                dir={storyDir}
+                inert={!textComplete}
+                className={`grid grid-cols-1 md:grid-cols-2 gap-2 md:gap-3 bg-black/80 p-3 md:p-4 rounded-b-lg border border-white/10 backdrop-blur-md transition-opacity duration-500 ${textComplete ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}
+              >
+              {[...activeScene.options, ...getCustomActions(history, activeScene.id)].map((option, idx) => {
+                  const explored = !!findChildForOption(history, activeScene.id, option);
+                  const available = canChoose(option, player);
+                  return (
                   <button
                   key={idx}
+                  ref={el => { optionRefs.current[idx] = el; }}
                   onClick={() => handleOptionClick(option)}
-                  className="relative overflow-hidden group/btn px-4 py-3 md:px-6 md:py-4 text-left border border-white/10 hover:border-cyan-400/50 transition-all duration-300 bg-white/5 hover:bg-cyan-900/20 rounded active:scale-[0.98] md:active:scale-100 touch-manipulation"
+                  disabled={!available}
+                  aria-keyshortcuts={idx < 9 ? String(idx + 1) : undefined}
+                  className="relative overflow-hidden group/btn outline-none focus-visible:ring-2 focus-visible:ring-cyan-400 px-4 py-3 md:px-6 md:py-4 text-start border border-white/10 hover:border-cyan-400/50 transition-all duration-300 bg-white/5 hover:bg-cyan-900/20 rounded active:scale-[0.98] md:active:scale-100 touch-manipulation disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:border-white/10 disabled:hover:bg-white/5"
+                  >
+                  <span className="absolute start-0 top-0 h-full w-1 bg-transparent group-hover/btn:bg-cyan-400 transition-colors"></span>
+                  <span className="font-display text-[10px] md:text-xs text-cyan-400 opacity-70 mb-0.5 md:mb-1 block tracking-wider uppercase">
+                    {option.custom ? <span className="text-amber-300">{t('canvas.yourAction')}</span> : t('canvas.option', { number: idx + 1 })}{explored && <span className="ms-2 text-purple-400">· {t('canvas.explored')}</span>}
+                    {option.requiresItem && (
+                      <span className={`ms-2 ${available ? 'text-purple-300' : 'text-red-400'}`}>· {t('canvas.requires', { item: option.requiresItem })}</span>
+                    )}
+                  </span>
+                  <span lang={language} className={`text-gray-100 font-bold text-base md:text-lg group-hover/btn:text-white transition-colors leading-tight block ${option.custom ? 'italic' : ''}`}>{option.label}</span>
+                  </button>
+                  );
+              })}
+              {allowFreeText && (
+                <form onSubmit={handleFreeTextSubmit} className="md:col-span-2 flex gap-2">
+                  <input
+                    type="text"
+                    value={freeText}
+                    onChange={(e) => setFreeText(e.target.value)}
+                    maxLength={MAX_FREE_TEXT_LENGTH}
+                    placeholder={t('canvas.freeText')}
+                    aria-label={t('canvas.freeTextLabel')}
+                    // text-base prevents iOS zoom on focus
+                    className="flex-grow min-w-0 bg-white/5 border border-white/10 focus:border-amber-300/60 px-3 py-2 md:px-4 text-base text-white placeholder-gray-500 outline-none rounded transition-colors"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!freeText.trim()}
+                    className="px-4 py-2 font-display text-xs font-bold uppercase tracking-widest border border-amber-300/40 text-amber-300 hover:bg-amber-300/20 rounded transition disabled:opacity-40 disabled:cursor-not-allowed"
                   >
-                  <span className="absolute left-0 top-0 h-full w-1 bg-transparent group-hover/btn:bg-cyan-400 transition-colors"></span>
-                  <span className="font-display text-[10px] md:text-xs text-cyan-400 opacity-70 mb-0.5 md:mb-1 block tracking-wider uppercase">Option 0{idx + 1}</span>
-                  <span className="text-gray-100 font-bold text-base md:text-lg group-hover/btn:text-white transition-colors leading-tight block">{option.label}</span>
+                    {t('canvas.act')}
                   </button>
-              ))}
+                </form>
+              )}
               </div>
+              )}
           </div>
       </div>
     </div>
@@ -0,0 +1,41 @@
+import React from 'react';
+import { SceneData } from '../types';
+import { getScenePath } from '../utils/storyTree';
+import { estimateTokens } from '../services/memory';
+import { Translate } from '../utils/i18n';
+
+interface MemoryDebugPanelProps {
+  history: SceneData[];
+  currentSceneId: string;
+  onClose: () => void;
+  t: Translate;
+}
+
+// Shows the story memory that was sent to the logic model on each turn of the current branch.
+const MemoryDebugPanel: React.FC<MemoryDebugPanelProps> = ({ history, currentSceneId, onClose, t }) => {
+  const path = getScenePath(history, currentSceneId);
+
+  return (
+    <div className="absolute top-16 md:top-20 end-2 md:end-6 z-[60] w-[calc(100%-1rem)] max-w-md max-h-[60vh] overflow-y-auto glass-panel bg-black/85 p-3 rounded">
+      <div className="flex justify-between items-center mb-2">
+        <p className="font-display text-xs text-cyan-400 tracking-widest uppercase">{t('memory.title')}</p>
+        <button onClick={onClose} className="text-[10px] font-mono uppercase tracking-wider text-gray-400 hover:text-white">{t('panel.close')}</button>
+      </div>
+      <ol className="flex flex-col gap-3">
+        {path.map((scene, i) => (
+          <li key={scene.id} className="border-s-2 border-cyan-500/40 ps-2">
+            <p className="font-mono text-[10px] uppercase tracking-wider text-gray-500">
+              {t('panel.turn', { number: i + 1 })}{scene.chosenOption && ` · ${scene.chosenOption.custom ? `${t('memory.typed')} ` : ''}${scene.chosenOption.label}`}
+              {scene.promptContext && ` · ${t('memory.tokens', { count: estimateTokens(scene.promptContext) })}`}
+            </p>
+            <pre className="mt-1 text-[11px] leading-snug text-gray-300 whitespace-pre-wrap font-mono">
+              {scene.promptContext ?? t('memory.notRecorded')}
+            </pre>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default MemoryDebugPanel;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { PlayerState } from '../types';
+import { Translate } from '../utils/i18n';
+
+interface PlayerHudProps {
+  player: PlayerState;
+  t: Translate;
+}
+
+const PlayerHud: React.FC<PlayerHudProps> = ({ player, t }) => {
+  const healthPct = Math.round((player.health / player.maxHealth) * 100);
+  const healthColor = healthPct > 50 ? 'bg-cyan-400' : healthPct > 25 ? 'bg-yellow-400' : 'bg-red-500 animate-pulse';
+
+  return (
+    <div className="absolute top-28 md:top-32 start-2 md:start-6 z-[55] flex flex-col gap-2 max-w-[60vw] pointer-events-none">
+      <div className="glass-panel bg-black/50 px-3 py-2 rounded-sm">
+        <p className="font-mono text-[10px] uppercase tracking-widest text-gray-400 mb-1">
+          {t('hud.vitality')} {player.health}/{player.maxHealth}
+        </p>
+        <div
+          className="w-32 md:w-40 h-1.5 bg-white/10 rounded-full overflow-hidden"
+          role="meter"
+          aria-label={t('hud.health')}
+          aria-valuemin={0}
+          aria-valuemax={player.maxHealth}
+          aria-valuenow={player.health}
+        >
+          <div className={`h-full ${healthColor} transition-all duration-700`} style={{ width: `${healthPct}%` }}></div>
+        </div>
+      </div>
+      {player.items.length > 0 && (
+        <ul className="flex flex-wrap gap-1" aria-label={t('hud.inventory')}>
+          {player.items.map(item => (
+            <li key={item} className="px-2 py-0.5 text-[10px] font-mono uppercase tracking-wider bg-black/60 border border-purple-500/40 text-purple-300 rounded-sm">
+              {item}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PlayerHud;
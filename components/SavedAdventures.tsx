@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { AdventureSummary, Language } from '../types';
+import { Translate } from '../utils/i18n';
+
+interface SavedAdventuresProps {
+  adventures: AdventureSummary[];
+  onResume: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  language: Language; // Interface language, for relative dates
+  t: Translate;
+}
+
+const formatLastPlayed = (timestamp: number, language: Language): string => {
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  const rtf = new Intl.RelativeTimeFormat(language, { numeric: 'auto' });
+  if (minutes < 60) return rtf.format(-minutes, 'minute');
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return rtf.format(-hours, 'hour');
+  return rtf.format(-Math.round(hours / 24), 'day');
+};
+
+const SavedAdventures: React.FC<SavedAdventuresProps> = ({ adventures, onResume, onRename, onDelete, onDuplicate, language, t }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  if (adventures.length === 0) return null;
+
+  const startRename = (adventure: AdventureSummary) => {
+    setEditingId(adventure.id);
+    setDraftTitle(adventure.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="w-full max-w-xl mt-6 md:mt-8 mx-auto">
+      <p className="text-cyan-200/60 font-mono text-[10px] md:text-xs tracking-[0.3em] uppercase mb-2">{t('saved.heading')}</p>
+      <ul className="flex flex-col gap-2 max-h-[30vh] overflow-y-auto pe-1">
+        {adventures.map((a) => (
+          <li key={a.id} className="flex items-center gap-3 bg-black/60 border border-white/10 hover:border-cyan-400/50 transition-colors p-2">
+            <button
+              onClick={() => onResume(a.id)}
+              className="shrink-0 w-16 h-10 md:w-20 md:h-12 bg-white/5 overflow-hidden"
+              aria-label={t('saved.resume', { title: a.title })}
+            >
+              {a.thumbnail && <img src={a.thumbnail} alt="" className="w-full h-full object-cover" />}
+            </button>
+
+            <div className="flex-grow min-w-0">
+              {editingId === a.id ? (
+                <input
+                  type="text"
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  onBlur={commitRename}
+                  className="w-full bg-white/5 border-b border-cyan-500 px-2 py-1 text-base text-white outline-none"
+                  autoFocus
+                />
+              ) : (
+                <button onClick={() => onResume(a.id)} className="block w-full text-start">
+                  <span lang={a.language} className="block text-gray-100 font-bold truncate">{a.title}</span>
+                  <span className="block text-[10px] md:text-xs font-mono text-gray-500 uppercase tracking-wider">
+                    {t(a.sceneCount === 1 ? 'saved.scene' : 'saved.scenes', { count: a.sceneCount })} · {formatLastPlayed(a.updatedAt, language)}
+                  </span>
+                </button>
+              )}
+            </div>
+
+            <div className="shrink-0 flex gap-1 text-[10px] font-mono uppercase tracking-wider">
+              <button onClick={() => startRename(a)} className="px-2 py-1 border border-white/10 hover:border-cyan-400 hover:text-cyan-400 transition-colors">{t('saved.rename')}</button>
+              <button onClick={() => onDuplicate(a.id)} className="px-2 py-1 border border-white/10 hover:border-cyan-400 hover:text-cyan-400 transition-colors">{t('saved.copy')}</button>
+              <button
+                onClick={() => window.confirm(t('saved.confirmDelete', { title: a.title })) && onDelete(a.id)}
+                className="px-2 py-1 border border-red-500/30 text-red-400 hover:bg-red-500/20 hover:border-red-500 transition-colors"
+              >
+                {t('saved.delete')}
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SavedAdventures;
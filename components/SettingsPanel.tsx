@@ -0,0 +1,524 @@
+import React, { useState, useEffect } from 'react';
+import { ProviderId, NarrationVoice, ReadingLevel, NarrativeLength, StoryTone, Language, ContentRating } from '../types';
+import { Settings, TONES, hashPin, canHashPin } from '../utils/settings';
+import { LANGUAGES, MessageKey, Translate } from '../utils/i18n';
+import { loadValidationStats, clearValidationStats } from '../services/sceneValidation';
+import { narrator } from '../services/narration';
+
+interface SettingsPanelProps {
+  settings: Settings;
+  activeProvider: ProviderId;
+  envProvider: ProviderId | null;
+  hasApiKey: boolean;
+  onChange: (settings: Settings) => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+const PROVIDER_CHOICES: { value: Settings['provider']; label: MessageKey; description: MessageKey }[] = [
+  { value: 'auto', label: 'settings.provider.auto', description: 'settings.provider.autoHint' },
+  { value: 'gemini', label: 'settings.provider.gemini', description: 'settings.provider.geminiHint' },
+  { value: 'offline', label: 'settings.provider.offline', description: 'settings.provider.offlineHint' },
+];
+
+const VOLUMES: { key: 'masterVolume' | 'ambienceVolume' | 'musicVolume' | 'sfxVolume'; label: MessageKey }[] = [
+  { key: 'masterVolume', label: 'settings.volume.master' },
+  { key: 'ambienceVolume', label: 'settings.volume.ambience' },
+  { key: 'musicVolume', label: 'settings.volume.music' },
+  { key: 'sfxVolume', label: 'settings.volume.sfx' },
+];
+
+const READING_LEVELS: { value: ReadingLevel; label: MessageKey }[] = [
+  { value: 'simple', label: 'settings.reading.simple' },
+  { value: 'standard', label: 'settings.reading.standard' },
+  { value: 'advanced', label: 'settings.reading.advanced' },
+];
+
+const NARRATIVE_LENGTHS: { value: NarrativeLength; label: MessageKey }[] = [
+  { value: 'short', label: 'settings.length.short' },
+  { value: 'medium', label: 'settings.length.medium' },
+  { value: 'long', label: 'settings.length.long' },
+];
+
+const RATINGS: { value: ContentRating; label: MessageKey; description: MessageKey }[] = [
+  { value: 'kids', label: 'settings.rating.kids', description: 'settings.rating.kidsHint' },
+  { value: 'teen', label: 'settings.rating.teen', description: 'settings.rating.teenHint' },
+  { value: 'mature', label: 'settings.rating.mature', description: 'settings.rating.matureHint' },
+];
+
+const MIN_PIN_LENGTH = 4;
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, activeProvider, envProvider, hasApiKey, onChange, onClose, t }) => {
+  const [validation, setValidation] = useState(loadValidationStats);
+  const drifted = validation.total - validation.outcomes.valid;
+  const [voices, setVoices] = useState<NarrationVoice[]>([]);
+  // Content settings stay locked until the PIN is entered; unlocking lasts while the panel is open
+  const [unlocked, setUnlocked] = useState(!settings.parentalPin);
+  const [pin, setPin] = useState('');
+  const [pinError, setPinError] = useState(false);
+  const [pinUnavailable, setPinUnavailable] = useState(() => !canHashPin());
+  const locked = !!settings.parentalPin && !unlocked;
+
+  const submitPin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (pin.length < MIN_PIN_LENGTH || pinUnavailable) return;
+    let hash: string;
+    try {
+      hash = await hashPin(pin);
+    } catch (error) {
+      console.error("Could not hash the PIN", error);
+      setPinUnavailable(true);
+      return;
+    }
+    setPin('');
+    if (!settings.parentalPin) {
+      onChange({ ...settings, parentalPin: hash });
+      setUnlocked(false);
+    } else if (hash === settings.parentalPin) {
+      setUnlocked(true);
+      setPinError(false);
+    } else {
+      setPinError(true);
+    }
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    narrator.getVoices().then(list => !cancelled && setVoices(list));
+    return () => { cancelled = true; };
+  }, []);
+
+  const previewVoice = () => {
+    narrator.speak(t('settings.previewLine'), { voice: settings.narrationVoice, rate: settings.narrationRate, lang: settings.language })
+      .catch(error => console.warn("Voice preview failed", error));
+  };
+
+  return (
+    <div className="absolute inset-0 z-[70] flex items-center justify-center bg-black/80 backdrop-blur-md p-4" onClick={onClose}>
+      <div
+        className="glass-panel bg-black/80 w-full max-w-md max-h-[90vh] overflow-y-auto p-5 md:p-6 rounded relative"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label={t('app.settings')}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-display text-cyan-400 text-lg tracking-widest uppercase">{t('app.settings')}</h3>
+          <button onClick={onClose} className="text-[10px] font-mono uppercase tracking-wider text-gray-400 hover:text-white">{t('panel.close')}</button>
+        </div>
+
+        <fieldset>
+          <legend className="text-cyan-200/60 font-mono text-[10px] md:text-xs tracking-[0.3em] uppercase mb-2">{t('settings.engine')}</legend>
+          <div className="flex flex-col gap-2">
+            {PROVIDER_CHOICES.map(choice => (
+              <label
+                key={choice.value}
+                className={`flex gap-3 items-start p-2 border cursor-pointer transition-colors ${settings.provider === choice.value ? 'border-cyan-400 bg-cyan-900/20' : 'border-white/10 hover:border-white/30'}`}
+              >
+                <input
+                  type="radio"
+                  name="provider"
+                  value={choice.value}
+                  checked={settings.provider === choice.value}
+                  onChange={() => onChange({ ...settings, provider: choice.value })}
+                  className="mt-1 accent-cyan-500"
+                />
+                <span>
+                  <span className="block font-bold text-gray-100">{t(choice.label)}</span>
+                  <span className="block text-xs text-gray-400">{t(choice.description)}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <p className="mt-3 text-xs font-mono text-gray-500">
+            {t('settings.active')} <span className="text-cyan-400 uppercase">{activeProvider}</span>
+            {envProvider && ` ${t('settings.envProvider')}`}
+            {!envProvider && settings.provider === 'gemini' && !hasApiKey && ` ${t('settings.noApiKey')}`}
+          </p>
+        </fieldset>
+
+        <fieldset className="mt-5">
+          <legend className="text-cyan-200/60 font-mono text-[10px] md:text-xs tracking-[0.3em] uppercase mb-2">{t('settings.style')}</legend>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-xs text-gray-400 col-span-2">
+              {t('settings.language')}
+              <select
+                value={settings.language}
+                onChange={(e) => onChange({ ...settings, language: e.target.value as Language })}
+                className="block w-full mt-1 bg-black border border-white/20 text-gray-200 px-2 py-1"
+              >
+                {(Object.keys(LANGUAGES) as Language[]).map(language => (
+                  <option key={language} value={language} lang={language}>{LANGUAGES[language].name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-400 col-span-2">
+              {t('settings.readingLevel')}
+              <select
+                value={settings.readingLevel}
+                onChange={(e) => onChange({ ...settings, readingLevel: e.target.value as ReadingLevel })}
+                className="block w-full mt-1 bg-black border border-white/20 text-gray-200 px-2 py-1"
+              >
+                {READING_LEVELS.map(level => <option key={level.value} value={level.value}>{t(level.label)}</option>)}
+              </select>
+            </label>
+            <label className="text-xs text-gray-400">
+              {t('settings.length')}
+              <select
+                value={settings.narrativeLength}
+                onChange={(e) => onChange({ ...settings, narrativeLength: e.target.value as NarrativeLength })}
+                className="block w-full mt-1 bg-black border border-white/20 text-gray-200 px-2 py-1"
+              >
+                {NARRATIVE_LENGTHS.map(length => <option key={length.value} value={length.value}>{t(length.label)}</option>)}
+              </select>
+            </label>
+            <label className="text-xs text-gray-400">
+              {t('settings.tone')}
+              <select
+                value={settings.tone}
+                onChange={(e) => onChange({ ...settings, tone: e.target.value as StoryTone })}
+                className="block w-full mt-1 bg-black border border-white/20 text-gray-200 px-2 py-1"
+              >
+                {TONES.map(tone => <option key={tone.value} value={tone.value}>{t(tone.label)}</option>)}
+              </select>
+            </label>
+          </div>
+          <p className="mt-2 text-xs text-gray-500">{t('settings.styleHint')}</p>
+        </fieldset>
+
+        <fieldset className="mt-5">
+          <legend className="text-cyan-200/60 font-mono text-[10px] md:text-xs tracking-[0.3em] uppercase mb-2">{t('settings.content')}</legend>
+          <fieldset disabled={locked} className={locked ? 'opacity-50' : ''}>
+            <div className="flex flex-col gap-2">
+              {RATINGS.map(rating => (
+                <label
+                  key={rating.value}
+                  className={`flex gap-3 items-start p-2 border cursor-pointer transition-colors ${settings.contentRating === rating.value ? 'border-cyan-400 bg-cyan-900/20' : 'border-white/10 hover:border-white/30'}`}
+                >
+                  <input
+                    type="radio"
+                    name="contentRating"
+                    value={rating.value}
+                    checked={settings.contentRating === rating.value}
+                    onChange={() => onChange({ ...settings, contentRating: rating.value })}
+                    className="mt-1 accent-cyan-500"
+                  />
+                  <span>
+                    <span className="block font-bold text-gray-100">{t(rating.label)}</span>
+                    <span className="block text-xs text-gray-400">{t(rating.description)}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <label className="block mt-3 text-xs text-gray-400">
+              {t('settings.blocklist')}
+              <textarea
+                value={settings.blocklist}
+                onChange={(e) => onChange({ ...settings, blocklist: e.target.value })}
+                rows={2}
+                placeholder={t('settings.blocklistPlaceholder')}
+                className="block w-full mt-1 bg-black border border-white/20 text-gray-200 px-2 py-1 text-sm"
+              />
+            </label>
+            <p className="mt-2 text-xs text-gray-500">{t('settings.blocklistHint')}</p>
+            <label className="flex items-center gap-2 mt-3 text-sm text-gray-200 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.allowFreeText}
+                onChange={(e) => onChange({ ...settings, allowFreeText: e.target.checked })}
+                className="accent-cyan-500"
+              />
+              {t('settings.freeText')}
+            </label>
+            <p className="mt-2 text-xs text-gray-500">{t('settings.freeTextHint')}</p>
+          </fieldset>
+
+          <form onSubmit={submitPin} className="mt-3 flex gap-2 items-center">
+            {settings.parentalPin && unlocked ? (
+              <button
+                type="button"
+                onClick={() => onChange({ ...settings, parentalPin: '' })}
+                className="px-3 py-1 text-[10px] font-mono uppercase tracking-wider border border-white/20 text-gray-300 hover:border-cyan-400 hover:text-cyan-400"
+              >
+                {t('settings.removeLock')}
+              </button>
+            ) : (
+              <>
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value)}
+                  placeholder={settings.parentalPin ? t('settings.pin') : t('settings.newPin', { count: MIN_PIN_LENGTH })}
+                  aria-label={settings.parentalPin ? t('settings.pinLabel') : t('settings.newPinLabel')}
+                  aria-invalid={pinError}
+                  disabled={pinUnavailable}
+                  className={`flex-grow min-w-0 bg-black border px-2 py-1 text-base text-gray-200 ${pinError ? 'border-red-500' : 'border-white/20'}`}
+                />
+                <button
+                  type="submit"
+                  disabled={pin.length < MIN_PIN_LENGTH || pinUnavailable}
+                  className="px-3 py-1 text-[10px] font-mono uppercase tracking-wider border border-white/20 text-gray-300 hover:border-cyan-400 hover:text-cyan-400 disabled:opacity-40"
+                >
+                  {settings.parentalPin ? t('settings.unlock') : t('settings.lock')}
+                </button>
+              </>
+            )}
+          </form>
+          <p className="mt-2 text-xs text-gray-500">
+            {locked ? t('settings.locked') : t('settings.lockHint')}
+            {pinError && <span className="text-red-400"> {t('settings.wrongPin')}</span>}
+            {pinUnavailable && <span className="text-red-400"> {t('settings.pinUnavailable')}</span>}
+          </p>
+        </fieldset>
+
+        <fieldset className="mt-5">
+          <legend className="text-cyan-200/60 font-mono text-[10px] md:text-xs tracking-[0.3em] uppercase mb-2">{t('settings.audio')}</legend>
+          <label className="flex items-center gap-2 text-sm text-gray-200 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.muted}
+              onChange={(e) => onChange({ ...settings, muted: e.target.checked })}
+              className="accent-cyan-500"
+            />
+            {t('settings.mute')}
+          </label>
+          <div className={`grid grid-cols-2 gap-3 mt-3 ${settings.muted ? 'opacity-40 pointer-events-none' : ''}`}>
+            {VOLUMES.map(({ key, label }) => (
+              <label key={key} className="text-xs text-gray-400">
+                {t(label)} · {Math.round(settings[key] * 100)}%
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={settings[key]}
+                  onChange={(e) => onChange({ ...settings, [key]: Number(e.target.value) })}
+                  className="block w-full mt-2 accent-cyan-500"
+                />
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <fieldset className="mt-5">
+          <legend className="text-cyan-200/60 font-mono text-[10px] md:text-xs tracking-[0.3em] uppercase mb-2">{t('settings.motion')}</legend>
+          <label className="flex items-center gap-2 text-sm text-gray-200 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.instantText}
+              onChange={(e) => onChange({ ...settings, instantText: e.target.checked })}
+              className="accent-cyan-500"
+            />
+            {t('settings.instantText')}
+          </label>
+          <label className="flex items-center gap-2 mt-2 text-sm text-gray-200 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.reducedMotion}
+              onChange={(e) => onChange({ ...settings, reducedMotion: e.target.checked })}
+              className="accent-cyan-500"
+            />
+            {t('settings.reducedMotion')}
+          </label>
+          <div className="grid grid-cols-2 gap-3 mt-3">
+            <label className={`text-xs text-gray-400 ${settings.instantText ? 'opacity-40 pointer-events-none' : ''}`}>
+              {t('settings.textSpeed', { ms: settings.textSpeed })}
+              <input
+                type="range"
+                min={5}
+                max={80}
+                step={5}
+                value={85 - settings.textSpeed}
+                onChange={(e) => onChange({ ...settings, textSpeed: 85 - Number(e.target.value) })}
+                className="block w-full mt-2 accent-cyan-500"
+              />
+            </label>
+            <label className="text-xs text-gray-400">
+              {t('settings.transition', { seconds: (settings.transitionMs / 1000).toFixed(1) })}
+              <input
+                type="range"
+                min={0}
+                max={4000}
+                step={250}
+                value={settings.transitionMs}
+                onChange={(e) => onChange({ ...settings, transitionMs: Number(e.target.value) })}
+                className="block w-full mt-2 accent-cyan-500"
+              />
+            </label>
+          </div>
+          <p className="mt-2 text-xs text-gray-500">{t('settings.motionHint')}</p>
+        </fieldset>
+
+        <fieldset className="mt-5">
+          <legend className="text-cyan-200/60 font-mono text-[10px] md:text-xs tracking-[0.3em] uppercase mb-2">{t('settings.narration')}</legend>
+          {narrator.isAvailable() ? (
+            <>
+              <label className="flex items-center gap-2 text-sm text-gray-200 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.narration}
+                  onChange={(e) => onChange({ ...settings, narration: e.target.checked })}
+                  className="accent-cyan-500"
+                />
+                {t('settings.narrate')}
+              </label>
+              <div className={`grid grid-cols-2 gap-3 mt-3 ${settings.narration ? '' : 'opacity-40 pointer-events-none'}`}>
+                <label className="text-xs text-gray-400 col-span-2">
+                  {t('settings.voice')}
+                  <select
+                    value={settings.narrationVoice}
+                    onChange={(e) => onChange({ ...settings, narrationVoice: e.target.value })}
+                    className="block w-full mt-1 bg-black border border-white/20 text-gray-200 px-2 py-1"
+                  >
+                    <option value="">{t('settings.defaultVoice')}</option>
+                    {voices.map(voice => <option key={voice.id} value={voice.id}>{voice.name} ({voice.lang})</option>)}
+                  </select>
+                </label>
+                <label className="text-xs text-gray-400">
+                  {t('settings.narrationRate', { rate: settings.narrationRate.toFixed(1) })}
+                  <input
+                    type="range"
+                    min={0.5}
+                    max={1.5}
+                    step={0.1}
+                    value={settings.narrationRate}
+                    onChange={(e) => onChange({ ...settings, narrationRate: Number(e.target.value) })}
+                    className="block w-full mt-2 accent-cyan-500"
+                  />
+                </label>
+                <button
+                  onClick={previewVoice}
+                  className="self-end px-3 py-1 text-[10px] font-mono uppercase tracking-wider border border-white/20 text-gray-300 hover:border-cyan-400 hover:text-cyan-400"
+                >
+                  {t('settings.preview')}
+                </button>
+              </div>
+              <p className="mt-2 text-xs text-gray-500">{t('settings.narrationHint')}</p>
+            </>
+          ) : (
+            <p className="text-xs text-gray-500">{t('settings.noSpeech')}</p>
+          )}
+        </fieldset>
+
+        <fieldset className="mt-5">
+          <legend className="text-cyan-200/60 font-mono text-[10px] md:text-xs tracking-[0.3em] uppercase mb-2">{t('settings.prefetching')}</legend>
+          <label className="flex items-center gap-2 text-sm text-gray-200 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.prefetch}
+              onChange={(e) => onChange({ ...settings, prefetch: e.target.checked })}
+              className="accent-cyan-500"
+            />
+            {t('settings.prefetch')}
+          </label>
+          <div className={`grid grid-cols-2 gap-3 mt-3 ${settings.prefetch ? '' : 'opacity-40 pointer-events-none'}`}>
+            <label className="text-xs text-gray-400">
+              {t('settings.concurrency')}
+              <select
+                value={settings.prefetchConcurrency}
+                onChange={(e) => onChange({ ...settings, prefetchConcurrency: Number(e.target.value) })}
+                className="block w-full mt-1 bg-black border border-white/20 text-gray-200 px-2 py-1"
+              >
+                {[1, 2, 3].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            <label className="text-xs text-gray-400">
+              {t('settings.costCap')}
+              <input
+                type="number"
+                min={0}
+                max={200}
+                value={settings.prefetchCostCap}
+                onChange={(e) => onChange({ ...settings, prefetchCostCap: Math.max(0, Math.min(200, Number(e.target.value) || 0)) })}
+                className="block w-full mt-1 bg-black border border-white/20 text-gray-200 px-2 py-1"
+              />
+            </label>
+          </div>
+          <p className="mt-2 text-xs text-gray-500">{t('settings.prefetchHint')}</p>
+        </fieldset>
+
+        <fieldset className="mt-5">
+          <legend className="text-cyan-200/60 font-mono text-[10px] md:text-xs tracking-[0.3em] uppercase mb-2">{t('settings.network')}</legend>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-xs text-gray-400">
+              {t('settings.retries')}
+              <select
+                value={settings.requestRetries}
+                onChange={(e) => onChange({ ...settings, requestRetries: Number(e.target.value) })}
+                className="block w-full mt-1 bg-black border border-white/20 text-gray-200 px-2 py-1"
+              >
+                {[0, 1, 2, 3, 5].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            <label className="text-xs text-gray-400">
+              {t('settings.timeout')}
+              <input
+                type="number"
+                min={5}
+                max={300}
+                value={settings.requestTimeoutSeconds}
+                onChange={(e) => onChange({ ...settings, requestTimeoutSeconds: Math.max(5, Math.min(300, Number(e.target.value) || 5)) })}
+                className="block w-full mt-1 bg-black border border-white/20 text-gray-200 px-2 py-1"
+              />
+            </label>
+          </div>
+          <p className="mt-2 text-xs text-gray-500">{t('settings.networkHint')}</p>
+        </fieldset>
+
+        <fieldset className="mt-5">
+          <legend className="text-cyan-200/60 font-mono text-[10px] md:text-xs tracking-[0.3em] uppercase mb-2">{t('settings.developer')}</legend>
+          <label className="flex items-center gap-2 text-sm text-gray-200 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.developerMode}
+              onChange={(e) => onChange({ ...settings, developerMode: e.target.checked })}
+              className="accent-cyan-500"
+            />
+            {t('settings.record')}
+          </label>
+          <p className="mt-2 text-xs text-gray-500">{t('settings.recordHint')}</p>
+        </fieldset>
+
+        <fieldset className="mt-5">
+          <legend className="text-cyan-200/60 font-mono text-[10px] md:text-xs tracking-[0.3em] uppercase mb-2">{t('settings.drift')}</legend>
+          {validation.total === 0 ? (
+            <p className="text-xs text-gray-500">{t('settings.noDrift')}</p>
+          ) : (
+            <>
+              <p className="text-xs text-gray-300">
+                {t('settings.driftSummary', {
+                  drifted,
+                  total: validation.total,
+                  repaired: validation.outcomes.repaired,
+                  reprompted: validation.outcomes.reprompted,
+                  failed: validation.outcomes.failed,
+                })}
+              </p>
+              {validation.recent.length > 0 && (
+                <ul className="mt-2 text-[10px] font-mono text-gray-500 max-h-24 overflow-y-auto">
+                  {validation.recent.slice(0, 5).map(entry => (
+                    <li key={entry.at} className="truncate" title={entry.issues.join('\n')}>
+                      {entry.outcome}: {entry.issues[0]}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <button
+                onClick={() => {
+                  clearValidationStats();
+                  setValidation(loadValidationStats());
+                }}
+                className="mt-2 text-[10px] font-mono uppercase tracking-wider text-gray-400 hover:text-white"
+              >
+                {t('settings.reset')}
+              </button>
+            </>
+          )}
+        </fieldset>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
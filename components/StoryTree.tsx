@@ -0,0 +1,73 @@
+import React, { useMemo } from 'react';
+import { SceneData } from '../types';
+import { getChildren, getRoots, getScenePath } from '../utils/storyTree';
+import { Translate } from '../utils/i18n';
+
+interface StoryTreeProps {
+  history: SceneData[];
+  currentSceneId: string;
+  onSelect: (sceneId: string) => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+const snippet = (text: string, words = 8) => {
+  const parts = text.split(/\s+/);
+  return parts.length > words ? `${parts.slice(0, words).join(' ')}…` : text;
+};
+
+const StoryTree: React.FC<StoryTreeProps> = ({ history, currentSceneId, onSelect, onClose, t }) => {
+  // Scenes on the path to the current scene are highlighted so the active branch stands out
+  const activePath = useMemo(
+    () => new Set(getScenePath(history, currentSceneId).map(s => s.id)),
+    [history, currentSceneId]
+  );
+
+  const renderNode = (scene: SceneData, depth: number): React.ReactNode => {
+    const isCurrent = scene.id === currentSceneId;
+    const onPath = activePath.has(scene.id);
+    const children = getChildren(history, scene.id);
+
+    return (
+      <li key={scene.id}>
+        <button
+          onClick={() => onSelect(scene.id)}
+          disabled={isCurrent}
+          className={`w-full flex items-center gap-2 text-start p-1.5 border transition-colors ${isCurrent ? 'border-cyan-400 bg-cyan-900/30' : onPath ? 'border-cyan-500/30 hover:border-cyan-400' : 'border-white/5 opacity-60 hover:opacity-100 hover:border-white/30'}`}
+          style={{ marginInlineStart: `${Math.min(depth, 8) * 12}px` }}
+        >
+          <span className="shrink-0 w-12 h-8 bg-white/5 overflow-hidden">
+            {scene.imageUrl && <img src={scene.imageUrl} alt="" className="w-full h-full object-cover" />}
+          </span>
+          <span className="min-w-0">
+            {scene.chosenOption && (
+              <span className={`block font-display text-[10px] uppercase tracking-wider truncate ${scene.chosenOption.custom ? 'text-amber-300 italic' : 'text-cyan-400'}`}>
+                {scene.chosenOption.custom ? `"${scene.chosenOption.label}"` : scene.chosenOption.label}
+              </span>
+            )}
+            <span className="block text-xs text-gray-300 truncate">{snippet(scene.narrative)}</span>
+          </span>
+        </button>
+        {children.length > 0 && (
+          <ul className="flex flex-col gap-1 mt-1">
+            {children.map(child => renderNode(child, depth + 1))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="absolute top-16 md:top-20 start-2 md:start-6 z-[60] w-[calc(100%-1rem)] max-w-sm max-h-[60vh] overflow-y-auto glass-panel bg-black/80 p-3 rounded">
+      <div className="flex justify-between items-center mb-2">
+        <p className="font-display text-xs text-cyan-400 tracking-widest uppercase">{t('tree.title')}</p>
+        <button onClick={onClose} className="text-[10px] font-mono uppercase tracking-wider text-gray-400 hover:text-white">{t('panel.close')}</button>
+      </div>
+      <ul className="flex flex-col gap-1">
+        {getRoots(history).map(root => renderNode(root, 0))}
+      </ul>
+    </div>
+  );
+};
+
+export default StoryTree;
@@ -0,0 +1,108 @@
+import React, { useSyncExternalStore } from 'react';
+import { SceneData } from '../types';
+import { getScenePath } from '../utils/storyTree';
+import { downloadFile } from '../utils/download';
+import { Translate } from '../utils/i18n';
+import { ModelCall, TelemetrySummary, subscribeTelemetry, getModelCalls, clearTelemetry, summarizeCalls, estimateCost, exportTelemetry } from '../services/telemetry';
+
+interface TelemetryInspectorProps {
+  history: SceneData[];
+  currentSceneId: string;
+  onClose: () => void;
+  t: Translate;
+}
+
+const formatCost = (usd: number) => `$${usd < 0.01 && usd > 0 ? usd.toFixed(4) : usd.toFixed(2)}`;
+const formatMs = (ms: number) => (ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`);
+
+const SummaryLine: React.FC<{ summary: TelemetrySummary; t: Translate }> = ({ summary, t }) => (
+  <>
+    {t('inspector.summary', {
+      calls: summary.calls,
+      prompt: summary.tokens.prompt.toLocaleString(),
+      response: (summary.tokens.response + summary.tokens.thoughts).toLocaleString(),
+      latency: formatMs(summary.latencyMs),
+      retries: summary.retries,
+    })}
+    {summary.failed > 0 && ` · ${t('inspector.failed', { count: summary.failed })}`} · ~{formatCost(summary.cost)}
+  </>
+);
+
+const CallEntry: React.FC<{ call: ModelCall; t: Translate }> = ({ call, t }) => (
+  <details className="bg-white/5 px-2 py-1">
+    <summary className="cursor-pointer font-mono text-[10px] uppercase tracking-wider text-gray-300">
+      <span className={call.error ? 'text-red-400' : 'text-cyan-300'}>{call.kind}</span>
+      {' '}· {call.model} · {formatMs(call.latencyMs)}
+      {call.attempts > 1 && ` · ${t('inspector.attempts', { count: call.attempts })}`}
+      {' '}· {t('inspector.tokens', { count: call.usage.total.toLocaleString() })} · ~{formatCost(estimateCost(call))}
+      {call.error && <span className="text-red-400"> · {call.error}</span>}
+    </summary>
+    {call.systemInstruction && (
+      <>
+        <p className="mt-1 font-mono text-[10px] uppercase text-gray-500">{t('inspector.system')}</p>
+        <pre className="text-[11px] leading-snug text-gray-400 whitespace-pre-wrap font-mono max-h-40 overflow-y-auto">{call.systemInstruction.trim()}</pre>
+      </>
+    )}
+    <p className="mt-1 font-mono text-[10px] uppercase text-gray-500">{t('inspector.prompt')}</p>
+    <pre className="text-[11px] leading-snug text-gray-300 whitespace-pre-wrap font-mono max-h-40 overflow-y-auto">{call.prompt}</pre>
+    <p className="mt-1 font-mono text-[10px] uppercase text-gray-500">{t('inspector.response')}</p>
+    <pre className="text-[11px] leading-snug text-gray-300 whitespace-pre-wrap font-mono max-h-40 overflow-y-auto">{call.response ?? t('inspector.noResponse')}</pre>
+  </details>
+);
+
+// Model calls behind each turn of the current branch, with session totals and an estimated cost.
+const TelemetryInspector: React.FC<TelemetryInspectorProps> = ({ history, currentSceneId, onClose, t }) => {
+  const calls = useSyncExternalStore(subscribeTelemetry, getModelCalls);
+  const path = getScenePath(history, currentSceneId);
+  const sceneIds = new Set(history.map(scene => scene.id));
+  // Prefetches the player never took, and calls whose scene was never created
+  const unplayed = calls.filter(call => !call.sceneId || !sceneIds.has(call.sceneId));
+
+  const handleExport = () => {
+    downloadFile(`dreamstream-telemetry-${new Date().toISOString().replace(/[:.]/g, '-')}.json`, exportTelemetry(), 'application/json');
+  };
+
+  return (
+    <div className="absolute top-16 md:top-20 end-2 md:end-6 z-[60] w-[calc(100%-1rem)] max-w-md max-h-[60vh] overflow-y-auto glass-panel bg-black/85 p-3 rounded">
+      <div className="flex justify-between items-center mb-2">
+        <p className="font-display text-xs text-cyan-400 tracking-widest uppercase">{t('inspector.title')}</p>
+        <div className="flex gap-3">
+          <button onClick={handleExport} className="text-[10px] font-mono uppercase tracking-wider text-gray-400 hover:text-white">{t('inspector.export')}</button>
+          <button onClick={clearTelemetry} className="text-[10px] font-mono uppercase tracking-wider text-gray-400 hover:text-white">{t('inspector.clear')}</button>
+          <button onClick={onClose} className="text-[10px] font-mono uppercase tracking-wider text-gray-400 hover:text-white">{t('panel.close')}</button>
+        </div>
+      </div>
+
+      <p className="font-mono text-[10px] uppercase tracking-wider text-gray-400 mb-3">
+        {t('inspector.session')} · <SummaryLine summary={summarizeCalls(calls)} t={t} />
+      </p>
+
+      <ol className="flex flex-col gap-3">
+        {path.map((scene, i) => {
+          const sceneCalls = calls.filter(call => call.sceneId === scene.id);
+          return (
+            <li key={scene.id} className="border-s-2 border-cyan-500/40 ps-2">
+              <p className="font-mono text-[10px] uppercase tracking-wider text-gray-500">
+                {t('panel.turn', { number: i + 1 })}{scene.chosenOption && ` · ${scene.chosenOption.label}`}
+                {sceneCalls.length > 0 && <> · <SummaryLine summary={summarizeCalls(sceneCalls)} t={t} /></>}
+              </p>
+              <div className="mt-1 flex flex-col gap-1">
+                {sceneCalls.length > 0
+                  ? sceneCalls.map(call => <CallEntry key={call.id} call={call} t={t} />)
+                  : <p className="text-[11px] font-mono text-gray-600">{t('inspector.noCalls')}</p>}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      {unplayed.length > 0 && (
+        <p className="mt-3 font-mono text-[10px] uppercase tracking-wider text-gray-500">
+          {t('inspector.unplayed')} · <SummaryLine summary={summarizeCalls(unplayed)} t={t} />
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TelemetryInspector;
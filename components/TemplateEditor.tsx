@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { Ambience, WorldTemplate, StoryTone } from '../types';
+import { AMBIENCES, AMBIENCE_LABELS } from '../utils/ambience';
+import { downloadFile } from '../utils/download';
+import { TONES } from '../utils/settings';
+import { Translate } from '../utils/i18n';
+import { createTemplate, exportTemplates, parseTemplates, TemplateImportError } from '../utils/worldTemplates';
+
+interface TemplateEditorProps {
+  templates: WorldTemplate[]; // The player's own worlds
+  presets: WorldTemplate[]; // Built-in worlds, offered as starting points
+  onChange: (templates: WorldTemplate[]) => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+const inputClass = 'w-full bg-white/5 border-b border-white/20 px-2 py-1 text-sm text-white outline-none focus:border-cyan-500 focus:bg-white/10 transition-all';
+const labelClass = 'block font-mono text-[10px] uppercase tracking-wider text-gray-500 mb-1';
+const buttonClass = 'px-3 py-1.5 text-[10px] font-mono uppercase tracking-wider border border-white/20 text-gray-300 hover:border-cyan-400 hover:text-cyan-400 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+// Create, edit and share the worlds offered on the start screen.
+// Worlds are exchanged as JSON so a team can pass them around.
+const TemplateEditor: React.FC<TemplateEditorProps> = ({ templates, presets, onChange, onClose, t }) => {
+  const [openId, setOpenId] = useState<string | null>(templates[0]?.id ?? null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const update = (id: string, patch: Partial<WorldTemplate>) => {
+    onChange(templates.map(template => (template.id === id ? { ...template, ...patch } : template)));
+  };
+
+  const add = (base?: WorldTemplate) => {
+    const template = createTemplate(base ? { ...base, name: t('worlds.copyName', { name: base.name }) } : { name: t('worlds.new') });
+    onChange([...templates, template]);
+    setOpenId(template.id);
+  };
+
+  const remove = (id: string) => {
+    onChange(templates.filter(template => template.id !== id));
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseTemplates(await file.text(), t);
+      onChange([...templates, ...imported]);
+      setOpenId(imported[0].id);
+      setImportError(null);
+    } catch (error) {
+      console.error(error);
+      const details = error instanceof TemplateImportError ? error.message : t('app.importUnreadable');
+      setImportError(t('app.importFailed', { file: file.name, details }));
+    }
+  };
+
+  const handleExport = () => {
+    downloadFile('dreamstream-worlds.json', exportTemplates(templates), 'application/json');
+  };
+
+  return (
+    <div className="absolute inset-0 z-[70] flex items-center justify-center bg-black/80 backdrop-blur-md p-4" onClick={onClose}>
+      <div
+        className="glass-panel bg-black/80 w-full max-w-lg max-h-[90vh] overflow-y-auto p-5 md:p-6 rounded relative"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label={t('worlds.title')}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-display text-cyan-400 text-lg tracking-widest uppercase">{t('worlds.title')}</h3>
+          <button onClick={onClose} className="text-[10px] font-mono uppercase tracking-wider text-gray-400 hover:text-white">{t('panel.close')}</button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          <button onClick={() => add()} className={buttonClass}>{t('worlds.new')}</button>
+          <select
+            value=""
+            onChange={(e) => {
+              const preset = presets.find(p => p.id === e.target.value);
+              if (preset) add(preset);
+            }}
+            aria-label={t('worlds.copyLabel')}
+            className="bg-black border border-white/20 text-[10px] font-mono uppercase text-gray-300 px-2 py-1.5"
+          >
+            <option value="" disabled>{t('worlds.copy')}</option>
+            {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+          </select>
+          <label className={`${buttonClass} cursor-pointer`}>
+            {t('worlds.import')}
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="sr-only"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <button onClick={handleExport} disabled={templates.length === 0} className={buttonClass}>{t('worlds.export')}</button>
+        </div>
+
+        {importError && <p role="alert" className="mb-4 text-xs text-red-400 whitespace-pre-line">{importError}</p>}
+
+        {templates.length === 0 ? (
+          <p className="text-xs text-gray-500">{t('worlds.empty')}</p>
+        ) : (
+          <ul className="flex flex-col gap-2">
+            {templates.map(template => (
+              <li key={template.id} className="border-s-2 border-purple-500/40 ps-2">
+                <div className="flex justify-between items-center gap-2">
+                  <button
+                    onClick={() => setOpenId(id => (id === template.id ? null : template.id))}
+                    aria-expanded={openId === template.id}
+                    className="flex-grow text-start text-sm text-gray-200 hover:text-white py-1"
+                  >
+                    {template.name || t('worlds.untitled')}
+                  </button>
+                  <button
+                    onClick={() => remove(template.id)}
+                    className="text-[10px] font-mono uppercase text-red-400 hover:text-red-300 px-1"
+                    aria-label={t('worlds.remove', { name: template.name || t('worlds.untitled') })}
+                  >
+                    ✕
+                  </button>
+                </div>
+
+                {openId === template.id && (
+                  <div className="flex flex-col gap-3 mt-2 mb-2">
+                    <label className="block">
+                      <span className={labelClass}>{t('worlds.name')}</span>
+                      <input type="text" value={template.name} onChange={(e) => update(template.id, { name: e.target.value })} className={inputClass} />
+                    </label>
+                    <label className="block">
+                      <span className={labelClass}>{t('worlds.genre')}</span>
+                      <textarea
+                        value={template.genre}
+                        onChange={(e) => update(template.id, { genre: e.target.value })}
+                        rows={2}
+                        placeholder={t('worlds.genrePlaceholder')}
+                        className={`${inputClass} resize-none`}
+                      />
+                    </label>
+                    <label className="block">
+                      <span className={labelClass}>{t('bible.artStyle')}</span>
+                      <textarea
+                        value={template.artStyle}
+                        onChange={(e) => update(template.id, { artStyle: e.target.value })}
+                        rows={2}
+                        className={`${inputClass} resize-none`}
+                      />
+                    </label>
+                    <div className="flex gap-3">
+                      <label className="flex-1">
+                        <span className={labelClass}>{t('settings.tone')}</span>
+                        <select
+                          value={template.tone}
+                          onChange={(e) => update(template.id, { tone: e.target.value as StoryTone })}
+                          className="w-full bg-black border border-white/20 text-sm text-gray-200 px-2 py-1"
+                        >
+                          {TONES.map(tone => <option key={tone.value} value={tone.value}>{t(tone.label)}</option>)}
+                        </select>
+                      </label>
+                      <label className="flex-1">
+                        <span className={labelClass}>{t('worlds.ambience')}</span>
+                        <select
+                          value={template.ambience}
+                          onChange={(e) => update(template.id, { ambience: e.target.value as Ambience })}
+                          className="w-full bg-black border border-white/20 text-sm text-gray-200 px-2 py-1"
+                        >
+                          {AMBIENCES.map(ambience => <option key={ambience} value={ambience}>{t(AMBIENCE_LABELS[ambience])}</option>)}
+                        </select>
+                      </label>
+                    </div>
+                    <label className="block">
+                      <span className={labelClass}>{t('worlds.hook')}</span>
+                      <textarea
+                        value={template.hook}
+                        onChange={(e) => update(template.id, { hook: e.target.value })}
+                        rows={2}
+                        placeholder={t('worlds.hookPlaceholder')}
+                        className={`${inputClass} resize-none`}
+                      />
+                    </label>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        <p className="mt-4 text-xs text-gray-500">{t('worlds.englishHint')}</p>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateEditor;
@@ -0,0 +1,28 @@
+import { AuthoredStory, SceneLogic, StoryProvider } from "../types";
+import { AMBIENCES } from "../utils/ambience";
+import { findPassage } from "../utils/storyImport";
+
+// Story provider backed by an imported Twine/Ink story.
+// Option action prompts are passage names, so "generating" a scene is a lookup;
+// images still come from the active image provider, prompted with the passage text.
+
+export const createAuthoredStoryProvider = (story: AuthoredStory): StoryProvider => ({
+  id: "authored",
+  generateSceneLogic: async (passageName: string): Promise<SceneLogic> => {
+    const passage = findPassage(story, passageName);
+    if (!passage) {
+      throw new Error(`Passage "${passageName}" not found in "${story.title}"`);
+    }
+
+    return {
+      narrative: passage.text,
+      visualPrompt: `${story.title}. ${passage.text}`,
+      ambience: AMBIENCES.find(a => passage.tags.includes(a)) ?? 'calm',
+      options: passage.links.map(link => ({ label: link.label, actionPrompt: link.target })),
+      // Passages without links finish the story; a "death" tag makes it a bad ending
+      ending: passage.tags.includes('death') ? 'death'
+        : passage.tags.includes('victory') || passage.links.length === 0 ? 'victory'
+        : null,
+    };
+  },
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SceneLogic, StoryMemory } from '../types';
+import {
+  CassetteFormatError, CassetteMissError, CassetteRecorder, CASSETTE_FORMAT, CASSETTE_VERSION,
+  createReplayProviders, parseCassette,
+} from './cassette';
+import { QuotaError } from './errors';
+
+const SCENE: SceneLogic = {
+  narrative: 'The lighthouse door creaks open.',
+  visualPrompt: 'A lighthouse door at night',
+  ambience: 'storm',
+  options: [
+    { label: 'Climb the stairs', actionPrompt: 'Climb the stairs' },
+    { label: 'Leave', actionPrompt: 'Leave' },
+  ],
+  ending: null,
+};
+
+const cassetteJson = (overrides: Record<string, unknown> = {}) => JSON.stringify({
+  format: CASSETTE_FORMAT,
+  version: CASSETTE_VERSION,
+  recordedAt: '2026-01-01T00:00:00.000Z',
+  provider: 'offline',
+  language: 'en',
+  actions: [
+    { type: 'start', prompt: 'A lighthouse' },
+    { type: 'option', option: SCENE.options[0] },
+    { type: 'rewind', sceneIndex: 0 },
+  ],
+  entries: [
+    { kind: 'logic', key: '["A lighthouse",""]', response: SCENE },
+    { kind: 'image', key: '["A lighthouse door at night",false]', response: 'data:image/png;base64,AAAA' },
+    { kind: 'logic', key: '["Climb the stairs",""]', error: { kind: 'quota', message: 'Slow down' } },
+  ],
+  ...overrides,
+});
+
+const formatError = (text: string) => {
+  try {
+    parseCassette(text);
+  } catch (error) {
+    expect(error).toBeInstanceOf(CassetteFormatError);
+    return (error as Error).message;
+  }
+  throw new Error('The cassette was accepted');
+};
+
+describe('parseCassette', () => {
+  it('accepts a well-formed cassette', () => {
+    const cassette = parseCassette(cassetteJson());
+
+    expect(cassette.provider).toBe('offline');
+    expect(cassette.language).toBe('en');
+    expect(cassette.actions).toHaveLength(3);
+    expect(cassette.entries).toHaveLength(3);
+  });
+
+  it('rejects files that are not cassettes', () => {
+    expect(formatError('{')).toBe('The file is not valid JSON.');
+    expect(formatError('[]')).toBe('The file is not a DreamStream cassette.');
+    expect(formatError(cassetteJson({ version: 99 }))).toBe('Unsupported cassette version 99.');
+  });
+
+  it('rejects an unknown provider or language', () => {
+    expect(formatError(cassetteJson({ provider: 'toString' }))).toBe('The cassette was recorded with an unknown provider "toString".');
+    expect(formatError(cassetteJson({ language: 'xx' }))).toBe('The cassette is in an unsupported language "xx".');
+  });
+
+  it('rejects a cassette that does not open with the start of an adventure', () => {
+    expect(formatError(cassetteJson({ actions: [] }))).toBe('The cassette does not begin with the start of an adventure.');
+    expect(formatError(cassetteJson({ actions: [{ type: 'option', option: SCENE.options[0] }] })))
+      .toBe('The cassette does not begin with the start of an adventure.');
+  });
+
+  it.each([
+    ['a start without a prompt', { type: 'start' }],
+    ['an option without a label', { type: 'option', option: { actionPrompt: 'Leave' } }],
+    ['a rewind to a negative scene', { type: 'rewind', sceneIndex: -1 }],
+    ['an unknown action', { type: 'jump' }],
+    ['a story with a malformed passage', { type: 'start', prompt: 'Hall', authoredStory: { title: 'T', format: 'ink', start: 'Hall', passages: { Hall: { name: 'Hall' } } } }],
+    ['a world with an unknown tone', { type: 'start', prompt: 'Hall', template: { id: 'w', name: 'W', genre: '', artStyle: '', hook: '', tone: 'grim', ambience: 'calm' } }],
+  ])('rejects %s', (_, action) => {
+    expect(formatError(cassetteJson({ actions: [{ type: 'start', prompt: 'A lighthouse' }, action] })))
+      .toBe('Action 2 of the cassette is malformed.');
+  });
+
+  it.each([
+    ['an unknown kind', { kind: 'sound', key: 'k', response: 'x' }],
+    ['a missing key', { kind: 'image', response: 'x' }],
+    ['an image that is not a string', { kind: 'image', key: 'k', response: 42 }],
+    ['a scene with an unknown ambience', { kind: 'logic', key: 'k', response: { ...SCENE, ambience: 'jazz' } }],
+    ['a memory without a summary', { kind: 'memory', key: 'k', response: { characters: [], locations: [], mysteries: [], items: [] } }],
+    ['an error of an unknown kind', { kind: 'logic', key: 'k', error: { kind: 'gremlins', message: 'Oops' } }],
+    ['both a response and an error', { kind: 'image', key: 'k', response: 'x', error: { kind: 'quota', message: 'Slow down' } }],
+  ])('rejects a recorded response with %s', (_, entry) => {
+    expect(formatError(cassetteJson({ entries: [entry] }))).toBe('Recorded response 1 of the cassette is malformed.');
+  });
+});
+
+describe('CassetteRecorder and replay', () => {
+  const MEMORY: StoryMemory = { summary: 'At the lighthouse.', characters: [], locations: ['Lighthouse'], mysteries: [], items: [] };
+
+  const record = async () => {
+    const recorder = new CassetteRecorder();
+    const generateSceneLogic = vi.fn()
+      .mockResolvedValueOnce(SCENE)
+      .mockRejectedValueOnce(new QuotaError('Slow down'))
+      .mockRejectedValueOnce(new DOMException('Stopped', 'AbortError'));
+    const providers = recorder.wrap({
+      id: 'gemini',
+      story: { id: 'gemini', generateSceneLogic, updateMemory: vi.fn().mockResolvedValue(MEMORY) },
+      image: { id: 'gemini', generateSceneImage: vi.fn().mockResolvedValue('data:image/png;base64,AAAA') },
+    });
+
+    recorder.start('gemini', 'fr');
+    recorder.recordAction({ type: 'start', prompt: 'A lighthouse' });
+    await providers.story.generateSceneLogic('A lighthouse', '');
+    await providers.story.updateMemory!(MEMORY, SCENE, 'A lighthouse');
+    await providers.image.generateSceneImage(SCENE.visualPrompt);
+    await providers.story.generateSceneLogic('Climb the stairs', 'Memory').catch(() => {});
+    await providers.story.generateSceneLogic('Leave', 'Memory').catch(() => {});
+    recorder.recordAction({ type: 'option', option: SCENE.options[0] });
+    return parseCassette(recorder.toJSON()!);
+  };
+
+  it('records the actions and every settled request, but not cancelled ones', async () => {
+    const cassette = await record();
+
+    expect(cassette.provider).toBe('gemini');
+    expect(cassette.language).toBe('fr');
+    expect(cassette.actions).toEqual([
+      { type: 'start', prompt: 'A lighthouse' },
+      { type: 'option', option: SCENE.options[0] },
+    ]);
+    expect(cassette.entries.map(entry => entry.kind)).toEqual(['logic', 'memory', 'image', 'logic']);
+  });
+
+  it('answers recorded requests without the live providers', async () => {
+    const { story, image } = createReplayProviders(await record());
+
+    await expect(story.generateSceneLogic('A lighthouse', '')).resolves.toEqual(SCENE);
+    await expect(story.updateMemory!(MEMORY, SCENE, 'A lighthouse')).resolves.toEqual(MEMORY);
+    await expect(image.generateSceneImage(SCENE.visualPrompt)).resolves.toBe('data:image/png;base64,AAAA');
+  });
+
+  it('replays a recorded failure as the same error class', async () => {
+    const { story } = createReplayProviders(await record());
+
+    const error = await story.generateSceneLogic('Climb the stairs', 'Memory').catch(e => e);
+
+    expect(error).toBeInstanceOf(QuotaError);
+    expect(error.message).toBe('Slow down');
+  });
+
+  it('reports a miss once the replay leaves the recorded path', async () => {
+    const { story, image } = createReplayProviders(await record());
+
+    await expect(story.generateSceneLogic('Leave', 'Memory')).rejects.toBeInstanceOf(CassetteMissError);
+    await expect(story.generateSceneLogic('A lighthouse', 'Other memory')).rejects.toBeInstanceOf(CassetteMissError);
+    await expect(image.generateSceneImage(SCENE.visualPrompt, { referenceImage: 'data:image/png;base64,BBBB' }))
+      .rejects.toBeInstanceOf(CassetteMissError);
+  });
+
+  it('repeats the last response once a request has used up its recordings', async () => {
+    const { story } = createReplayProviders(await record());
+
+    await story.generateSceneLogic('A lighthouse', '');
+    await expect(story.generateSceneLogic('A lighthouse', '')).resolves.toEqual(SCENE);
+  });
+
+  it('leaves out the memory model when none was recorded', () => {
+    const { story } = createReplayProviders(parseCassette(cassetteJson()));
+
+    expect(story.updateMemory).toBeUndefined();
+  });
+});
@@ -0,0 +1,320 @@
+import { ProviderId, Language, StoryProvider, ImageProvider, SceneLogic, StoryMemory, ErrorKind, PendingAction } from "../types";
+import { isLanguage } from "../utils/i18n";
+import { isAmbience } from "../utils/ambience";
+import { TONES } from "../utils/settings";
+import { isProviderId } from "./providers";
+import {
+  DreamStreamError, QuotaError, SafetyBlockError, MalformedResponseError, NoImageDataError, NetworkError, TimeoutError,
+  isAbortError, classifyError,
+} from "./errors";
+
+// Session recording and replay.
+// A recorder wraps the live providers and writes every request and its response (or error)
+// to a cassette, together with the player's actions. Replay providers answer the same
+// requests from the cassette without touching the network, so an adventure can be played
+// back exactly, by hand or from a test.
+
+export const CASSETTE_FORMAT = "dreamstream-cassette";
+export const CASSETTE_VERSION = 1;
+
+// Rewinds are part of the adventure too; scenes are identified by their position in history
+export type CassetteAction = PendingAction | { type: "rewind"; sceneIndex: number };
+
+export interface RecordedError {
+  kind: ErrorKind;
+  message: string;
+}
+
+interface EntryOf<K extends string, T> {
+  kind: K;
+  key: string; // Everything the response depended on
+  response?: T;
+  error?: RecordedError;
+}
+
+export type CassetteEntry =
+  | EntryOf<"logic", SceneLogic>
+  | EntryOf<"memory", StoryMemory>
+  | EntryOf<"image", string>;
+
+export interface Cassette {
+  format: typeof CASSETTE_FORMAT;
+  version: number;
+  recordedAt: string;
+  provider: ProviderId; // Provider the session was recorded against
+  language: Language;
+  actions: CassetteAction[];
+  entries: CassetteEntry[];
+}
+
+export interface Providers {
+  id: ProviderId;
+  story: StoryProvider;
+  image: ImageProvider;
+}
+
+export class CassetteFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CassetteFormatError";
+  }
+}
+
+// The replay has diverged from the recording: nothing was recorded for this request
+export class CassetteMissError extends DreamStreamError {
+  constructor(kind: CassetteEntry["kind"]) {
+    super("unknown", `The cassette has no recorded ${kind} response for this request. The replay has left the recorded path.`, false);
+    this.name = "CassetteMissError";
+  }
+}
+
+// Recorded failures come back as the same error classes, so callers take the same paths
+const ERROR_CLASSES: Partial<Record<ErrorKind, new (message?: string) => DreamStreamError>> = {
+  quota: QuotaError,
+  safety: SafetyBlockError,
+  malformed: MalformedResponseError,
+  "no-image": NoImageDataError,
+  network: NetworkError,
+  timeout: TimeoutError,
+};
+
+const restoreError = ({ kind, message }: RecordedError): DreamStreamError => {
+  const ErrorClass = ERROR_CLASSES[kind];
+  return ErrorClass ? new ErrorClass(message) : new DreamStreamError(kind, message, false);
+};
+
+// Prompts are fully determined by earlier responses, so they identify a request across runs.
+// Reference images are left out of the image key: they are earlier responses themselves.
+const logicKey = (userInput: string, storyContext: string) => JSON.stringify([userInput, storyContext]);
+const memoryKey = (memory: StoryMemory, scene: SceneLogic, action: string) => JSON.stringify([memory, scene.narrative, action]);
+const imageKey = (visualPrompt: string, hasReference: boolean) => JSON.stringify([visualPrompt, hasReference]);
+
+export class CassetteRecorder {
+  private cassette: Cassette | null = null;
+
+  get recording() {
+    return this.cassette !== null;
+  }
+
+  get actionCount() {
+    return this.cassette?.actions.length ?? 0;
+  }
+
+  // Starts a fresh cassette; anything recorded before is dropped
+  start(provider: ProviderId, language: Language) {
+    this.cassette = {
+      format: CASSETTE_FORMAT,
+      version: CASSETTE_VERSION,
+      recordedAt: new Date().toISOString(),
+      provider,
+      language,
+      actions: [],
+      entries: [],
+    };
+  }
+
+  stop() {
+    this.cassette = null;
+  }
+
+  recordAction(action: CassetteAction) {
+    this.cassette?.actions.push(action);
+  }
+
+  toJSON(): string | null {
+    return this.cassette && JSON.stringify(this.cassette);
+  }
+
+  // Providers that pass every call through to `providers` and record the outcome
+  wrap(providers: Providers): Providers {
+    const record = async <T>(kind: CassetteEntry["kind"], key: string, run: () => Promise<T>): Promise<T> => {
+      const cassette = this.cassette;
+      try {
+        const response = await run();
+        cassette?.entries.push({ kind, key, response } as CassetteEntry);
+        return response;
+      } catch (error) {
+        // A cancelled request says nothing about the model
+        if (!isAbortError(error)) {
+          const { kind: errorKind, message } = classifyError(error);
+          cassette?.entries.push({ kind, key, error: { kind: errorKind, message } });
+        }
+        throw error;
+      }
+    };
+
+    const { story, image } = providers;
+    const updateMemory = story.updateMemory?.bind(story);
+    return {
+      id: providers.id,
+      story: {
+        id: story.id,
+        generateSceneLogic: (userInput, storyContext, signal, sceneId) =>
+          record("logic", logicKey(userInput, storyContext), () => story.generateSceneLogic(userInput, storyContext, signal, sceneId)),
+        ...(updateMemory && {
+          updateMemory: (memory: StoryMemory, scene: SceneLogic, action: string, signal?: AbortSignal, sceneId?: string) =>
+            record("memory", memoryKey(memory, scene, action), () => updateMemory(memory, scene, action, signal, sceneId)),
+        }),
+      },
+      image: {
+        id: image.id,
+        generateSceneImage: (visualPrompt, options = {}) =>
+          record("image", imageKey(visualPrompt, !!options.referenceImage), () => image.generateSceneImage(visualPrompt, options)),
+      },
+    };
+  }
+}
+
+// Providers that answer from a cassette. Requests made more than once (a failed prefetch
+// retried on demand, say) get the recorded responses in order, then the last one again.
+export const createReplayProviders = (cassette: Cassette): Providers => {
+  const queues = new Map<string, CassetteEntry[]>();
+  const cursors = new Map<string, number>();
+  for (const entry of cassette.entries) {
+    const id = `${entry.kind}:${entry.key}`;
+    queues.set(id, [...(queues.get(id) ?? []), entry]);
+  }
+
+  const replay = async <T>(kind: CassetteEntry["kind"], key: string, signal?: AbortSignal): Promise<T> => {
+    signal?.throwIfAborted();
+    const id = `${kind}:${key}`;
+    const queue = queues.get(id);
+    if (!queue) throw new CassetteMissError(kind);
+    const index = cursors.get(id) ?? 0;
+    cursors.set(id, index + 1);
+    const entry = queue[Math.min(index, queue.length - 1)];
+    if (entry.error) throw restoreError(entry.error);
+    return entry.response as T;
+  };
+
+  return {
+    id: cassette.provider,
+    story: {
+      id: "replay",
+      generateSceneLogic: (userInput, storyContext, signal) => replay("logic", logicKey(userInput, storyContext), signal),
+      // Offline recordings never had a memory model; keep it that way so the local summary matches
+      ...(cassette.entries.some(entry => entry.kind === "memory") && {
+        updateMemory: (memory: StoryMemory, scene: SceneLogic, action: string, signal?: AbortSignal) =>
+          replay<StoryMemory>("memory", memoryKey(memory, scene, action), signal),
+      }),
+    },
+    image: {
+      id: "replay",
+      generateSceneImage: (visualPrompt, options = {}) => replay("image", imageKey(visualPrompt, !!options.referenceImage), options.signal),
+    },
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+// Shape checks for a loaded file: a cassette is shared like any other file, so nothing in it
+// reaches the game or the replay providers before it has been checked.
+
+const ERROR_KINDS: ErrorKind[] = ["quota", "safety", "malformed", "no-image", "network", "timeout", "aborted", "unknown"];
+
+const isString = (value: unknown): value is string => typeof value === "string";
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+
+const isOption = (value: unknown) =>
+  isRecord(value) && isString(value.label) && isString(value.actionPrompt)
+  && isOptional(value.requiresItem, isString) && isOptional(value.custom, v => typeof v === "boolean");
+
+const isPassage = (value: unknown) =>
+  isRecord(value) && isString(value.name) && isString(value.text) && isStringList(value.tags)
+  && Array.isArray(value.links) && value.links.every(link => isRecord(link) && isString(link.label) && isString(link.target));
+
+const isAuthoredStory = (value: unknown) =>
+  isRecord(value) && isString(value.title) && (value.format === "twee" || value.format === "ink") && isString(value.start)
+  && isRecord(value.passages) && Object.values(value.passages).every(isPassage);
+
+const isTemplate = (value: unknown) =>
+  isRecord(value) && [value.id, value.name, value.genre, value.artStyle, value.hook].every(isString)
+  && TONES.some(tone => tone.value === value.tone) && isAmbience(value.ambience);
+
+const isAction = (value: unknown) => {
+  if (!isRecord(value)) return false;
+  switch (value.type) {
+    case "start":
+      return isString(value.prompt) && isOptional(value.authoredStory, isAuthoredStory) && isOptional(value.template, isTemplate);
+    case "option":
+      return isOption(value.option);
+    case "rewind":
+      return Number.isInteger(value.sceneIndex) && (value.sceneIndex as number) >= 0;
+    default:
+      return false;
+  }
+};
+
+const isSceneLogic = (value: unknown) =>
+  isRecord(value) && isString(value.narrative) && isString(value.visualPrompt) && isAmbience(value.ambience)
+  && Array.isArray(value.options) && value.options.every(isOption)
+  && [null, undefined, "death", "victory"].includes(value.ending as string)
+  && isOptional(value.altText, isString) && isOptional(value.soundscape, isRecord) && isOptional(value.stateDelta, isRecord)
+  && isOptional(value.entities, v => Array.isArray(v) && v.every(isRecord));
+
+const isMemory = (value: unknown) =>
+  isRecord(value) && isString(value.summary)
+  && [value.characters, value.locations, value.mysteries, value.items].every(isStringList);
+
+const RESPONSE_CHECKS: Record<CassetteEntry["kind"], (value: unknown) => boolean> = {
+  logic: isSceneLogic,
+  memory: isMemory,
+  image: isString,
+};
+
+const isEntry = (value: unknown) => {
+  if (!isRecord(value) || !Object.hasOwn(RESPONSE_CHECKS, value.kind as string) || !isString(value.key)) return false;
+  // Every entry holds either the response or the error it ended with
+  if (value.error !== undefined) {
+    return value.response === undefined && isRecord(value.error)
+      && ERROR_KINDS.includes(value.error.kind as ErrorKind) && isString(value.error.message);
+  }
+  return RESPONSE_CHECKS[value.kind as CassetteEntry["kind"]](value.response);
+};
+
+export const parseCassette = (text: string): Cassette => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new CassetteFormatError("The file is not valid JSON.");
+  }
+  if (!isRecord(data) || data.format !== CASSETTE_FORMAT) {
+    throw new CassetteFormatError("The file is not a DreamStream cassette.");
+  }
+  if (data.version !== CASSETTE_VERSION) {
+    throw new CassetteFormatError(`Unsupported cassette version ${String(data.version)}.`);
+  }
+  if (!isProviderId(data.provider)) {
+    throw new CassetteFormatError(`The cassette was recorded with an unknown provider "${String(data.provider)}".`);
+  }
+  if (!isLanguage(data.language)) {
+    throw new CassetteFormatError(`The cassette is in an unsupported language "${String(data.language)}".`);
+  }
+  if (!isString(data.recordedAt) || !Array.isArray(data.actions) || !Array.isArray(data.entries)) {
+    throw new CassetteFormatError("The cassette has no actions or recorded responses.");
+  }
+  const start = data.actions[0];
+  if (!isRecord(start) || start.type !== "start") {
+    throw new CassetteFormatError("The cassette does not begin with the start of an adventure.");
+  }
+  const action = data.actions.findIndex(value => !isAction(value));
+  if (action !== -1) {
+    throw new CassetteFormatError(`Action ${action + 1} of the cassette is malformed.`);
+  }
+  const entry = data.entries.findIndex(value => !isEntry(value));
+  if (entry !== -1) {
+    throw new CassetteFormatError(`Recorded response ${entry + 1} of the cassette is malformed.`);
+  }
+  return {
+    format: CASSETTE_FORMAT,
+    version: CASSETTE_VERSION,
+    recordedAt: data.recordedAt,
+    provider: data.provider,
+    language: data.language,
+    actions: data.actions as CassetteAction[],
+    entries: data.entries as CassetteEntry[],
+  };
+};
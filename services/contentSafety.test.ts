@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SceneLogic } from '../types';
+import {
+  checkSceneContent, configureContentFilter, describeContentIssues, findBlockedTerms, parseBlocklist, softenVisualPrompt,
+} from './contentSafety';
+
+const scene = (narrative: string, label = 'Go on', visualPrompt = 'A quiet forest'): SceneLogic => ({
+  narrative,
+  visualPrompt,
+  ambience: 'nature',
+  options: [
+    { label, actionPrompt: label },
+    { label: 'Turn back', actionPrompt: 'Turn back' },
+  ],
+  ending: null,
+});
+
+beforeEach(() => {
+  configureContentFilter({ rating: 'kids', blocklist: [] });
+});
+
+describe('findBlockedTerms', () => {
+  it('matches whole words only, in any case', () => {
+    expect(findBlockedTerms('The Gun is loaded.')).toEqual(['gun']);
+    expect(findBlockedTerms('A gunsmith mends a shotgun shell.')).toEqual([]);
+    expect(findBlockedTerms('Shell hello, hellish night.')).toEqual([]);
+  });
+
+  it('lets a trailing wildcard match any ending, but not the middle of a word', () => {
+    expect(findBlockedTerms('The dragon killed the knight.')).toEqual(['kill*']);
+    expect(findBlockedTerms('KILLING time.')).toEqual(['kill*']);
+    expect(findBlockedTerms('A skilled archer.')).toEqual([]);
+  });
+
+  it('treats phrases and punctuation in terms literally', () => {
+    configureContentFilter({ blocklist: ['dead body', 'c++'] });
+
+    expect(findBlockedTerms('A dead body lies here.')).toEqual(['dead body']);
+    expect(findBlockedTerms('She codes in c++ at night.')).toEqual(['c++']);
+    expect(findBlockedTerms('She codes in cpp at night.')).toEqual([]);
+  });
+
+  it('anchors on letters of any script', () => {
+    configureContentFilter({ blocklist: ['sang*', 'мечь'] });
+
+    expect(findBlockedTerms('Le sanglier est tombé.')).toEqual(['sang*']);
+    // "é" is a letter, so the "sang" inside "mésange" is not a word start
+    expect(findBlockedTerms('Une mésange chante.')).toEqual([]);
+    expect(findBlockedTerms('Рыцарь поднял мечь.')).toEqual(['мечь']);
+    expect(findBlockedTerms('Рыцарь поднял мечьи.')).toEqual([]);
+  });
+
+  it('matches inside words in scripts written without spaces', () => {
+    configureContentFilter({ blocklist: ['血'] });
+
+    expect(findBlockedTerms('床に血が落ちている。')).toEqual(['血']);
+  });
+
+  it('follows the rating, with the custom list on top', () => {
+    configureContentFilter({ rating: 'mature' });
+    expect(findBlockedTerms('The dragon killed the knight with a gun.')).toEqual([]);
+
+    configureContentFilter({ rating: 'teen', blocklist: [' Dragon* ', '*', ''] });
+    expect(findBlockedTerms('The dragons killed the knight with gore.')).toEqual(['gore', 'dragon*']);
+  });
+});
+
+describe('parseBlocklist', () => {
+  it('splits on commas and new lines and drops blanks', () => {
+    expect(parseBlocklist('spider, snake\n\n clown ,')).toEqual(['spider', 'snake', 'clown']);
+  });
+});
+
+describe('checkSceneContent', () => {
+  it('reports every field that uses a blocked term', () => {
+    const issues = checkSceneContent(scene('A wolf wants to kill you.', 'Grab the gun', 'A bloody wolf in the forest'));
+
+    expect(issues).toEqual([
+      { field: 'narrative', terms: ['kill*'] },
+      { field: 'options[0].label', terms: ['gun'] },
+      { field: 'visualPrompt', terms: ['bloody'] },
+    ]);
+    expect(describeContentIssues(issues)).toBe(
+      '- narrative uses: kill*\n- options[0].label uses: gun\n- visualPrompt uses: bloody',
+    );
+  });
+
+  it('passes a clean scene', () => {
+    expect(checkSceneContent(scene('A fox naps in the sun.'))).toEqual([]);
+  });
+});
+
+describe('softenVisualPrompt', () => {
+  it('removes blocked words and asks for the rating\'s gentle style', () => {
+    expect(softenVisualPrompt('A knight with a gun and a Gun, killing a dragon'))
+      .toBe('A knight with a and a , a dragon\nGentle, friendly, child-safe illustration. No weapons, injuries, blood or frightening faces.');
+  });
+});
@@ -0,0 +1,88 @@
+import { SceneLogic, ContentRating } from "../types";
+
+// Local content filter for generated scenes.
+// The rating shapes the system instruction, but model output is untrusted: every scene is
+// scanned for blocked terms before it is shown, whichever provider wrote it.
+// The built-in lists are English; the custom blocklist can add words in any language.
+
+export const DEFAULT_BLOCKLISTS: Record<ContentRating, string[]> = {
+  kids: [
+    "blood", "bloody", "bleeding", "gore", "gory", "corpse*", "dead body", "dead bodies", "kill*", "murder*", "stab*",
+    "decapitat*", "dismember*", "tortur*", "suicide", "gun", "guns", "shoot*", "drunk", "beer", "whiskey", "cigarette*",
+    "naked", "nude", "sexy", "damn", "hell",
+  ],
+  teen: ["gore", "gory", "disembowel*", "dismember*", "decapitat*", "tortur*", "suicide", "self-harm", "naked", "nude", "sexual*", "rape"],
+  mature: [],
+};
+
+interface ContentFilterConfig {
+  rating: ContentRating;
+  blocklist: string[]; // Extra terms on top of the rating's defaults
+}
+
+let filterConfig: ContentFilterConfig = { rating: "kids", blocklist: [] };
+let patterns: { term: string; pattern: RegExp }[] = [];
+
+// Scripts written without spaces have no word boundaries to anchor on
+const SPACELESS_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+const WORD_CHAR = "[\\p{L}\\p{N}]";
+
+// Whole-word, case-insensitive; a trailing * matches any ending ("kill*" also catches "killed")
+const toPattern = (term: string) => {
+  const prefix = term.endsWith("*");
+  const word = (prefix ? term.slice(0, -1) : term).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const bounded = !SPACELESS_SCRIPT.test(term);
+  const before = bounded ? `(?<!${WORD_CHAR})` : "";
+  const after = prefix ? `${WORD_CHAR}*` : bounded ? `(?!${WORD_CHAR})` : "";
+  return new RegExp(`${before}${word}${after}`, "iu");
+};
+
+const compile = () => {
+  const terms = new Set([...DEFAULT_BLOCKLISTS[filterConfig.rating], ...filterConfig.blocklist]
+    .map(term => term.trim().toLowerCase())
+    .filter(term => term.replace("*", "").length > 0));
+  patterns = [...terms].map(term => ({ term, pattern: toPattern(term) }));
+};
+compile();
+
+export const configureContentFilter = (config: Partial<ContentFilterConfig>) => {
+  filterConfig = { ...filterConfig, ...config };
+  compile();
+};
+
+// Split a comma or newline separated list typed by the player
+export const parseBlocklist = (value: string) => value.split(/[,\n]/).map(term => term.trim()).filter(Boolean);
+
+export const findBlockedTerms = (text: string): string[] =>
+  patterns.filter(({ pattern }) => pattern.test(text)).map(({ term }) => term);
+
+export interface ContentIssue {
+  field: string; // "narrative", "options[1].label" or "visualPrompt"
+  terms: string[];
+}
+
+export const checkSceneContent = (scene: SceneLogic): ContentIssue[] => {
+  const fields: [string, string][] = [
+    ["narrative", scene.narrative],
+    ...scene.options.map((option, i): [string, string] => [`options[${i}].label`, option.label]),
+    ["visualPrompt", scene.visualPrompt],
+  ];
+  return fields
+    .map(([field, text]) => ({ field, terms: findBlockedTerms(text) }))
+    .filter(issue => issue.terms.length > 0);
+};
+
+export const describeContentIssues = (issues: ContentIssue[]) =>
+  issues.map(issue => `- ${issue.field} uses: ${issue.terms.join(", ")}`).join("\n");
+
+// A second try for an image the model refused: blocked words out, an explicit gentle style in
+const SOFT_STYLE: Record<ContentRating, string> = {
+  kids: "Gentle, friendly, child-safe illustration. No weapons, injuries, blood or frightening faces.",
+  teen: "Tasteful depiction. No blood, gore, injuries or nudity.",
+  mature: "Tasteful depiction. No graphic gore or nudity.",
+};
+
+export const softenVisualPrompt = (prompt: string) => {
+  const cleaned = patterns.reduce((text, { pattern }) => text.replace(new RegExp(pattern.source, "giu"), ""), prompt);
+  return `${cleaned.replace(/\s{2,}/g, " ").trim()}\n${SOFT_STYLE[filterConfig.rating]}`;
+};
@@ -0,0 +1,94 @@
+import { ApiError } from "@google/genai";
+import { ErrorKind, GameError, PendingAction } from "../types";
+
+// Typed errors for everything that can go wrong while talking to the models.
+// The request layer classifies raw failures into these so the UI can give specific guidance.
+
+export class DreamStreamError extends Error {
+  kind: ErrorKind;
+  retryable: boolean; // Worth retrying automatically with backoff
+
+  constructor(kind: ErrorKind, message: string, retryable: boolean, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "DreamStreamError";
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+export class QuotaError extends DreamStreamError {
+  constructor(message = "Rate limit or quota exceeded", options?: { cause?: unknown }) {
+    super("quota", message, true, options);
+    this.name = "QuotaError";
+  }
+}
+
+export class SafetyBlockError extends DreamStreamError {
+  constructor(message = "Blocked by the model's safety filters", options?: { cause?: unknown }) {
+    super("safety", message, false, options);
+    this.name = "SafetyBlockError";
+  }
+}
+
+export class MalformedResponseError extends DreamStreamError {
+  constructor(message = "The model returned malformed JSON", options?: { cause?: unknown }) {
+    super("malformed", message, true, options);
+    this.name = "MalformedResponseError";
+  }
+}
+
+export class NoImageDataError extends DreamStreamError {
+  constructor(message = "No image data found in response", options?: { cause?: unknown }) {
+    super("no-image", message, true, options);
+    this.name = "NoImageDataError";
+  }
+}
+
+export class NetworkError extends DreamStreamError {
+  constructor(message = "Network request failed", options?: { cause?: unknown }) {
+    super("network", message, true, options);
+    this.name = "NetworkError";
+  }
+}
+
+export class TimeoutError extends DreamStreamError {
+  constructor(message = "The request timed out", options?: { cause?: unknown }) {
+    super("timeout", message, true, options);
+    this.name = "TimeoutError";
+  }
+}
+
+export class AbortedError extends DreamStreamError {
+  constructor(message = "The request was cancelled", options?: { cause?: unknown }) {
+    super("aborted", message, false, options);
+    this.name = "AbortedError";
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof AbortedError || (error instanceof DOMException && error.name === "AbortError");
+
+const SAFETY_PATTERN = /safety|blocked|prohibited/i;
+
+export const classifyError = (error: unknown): DreamStreamError => {
+  if (error instanceof DreamStreamError) return error;
+  if (isAbortError(error)) return new AbortedError(undefined, { cause: error });
+
+  if (error instanceof ApiError) {
+    if (error.status === 429) return new QuotaError(error.message, { cause: error });
+    if (error.status === 400 && SAFETY_PATTERN.test(error.message)) return new SafetyBlockError(error.message, { cause: error });
+    if (error.status >= 500 || error.status === 408) return new NetworkError(error.message, { cause: error });
+    return new DreamStreamError("unknown", error.message, false, { cause: error });
+  }
+
+  // fetch() rejects with a TypeError when the network is unreachable
+  if (error instanceof TypeError) return new NetworkError(error.message, { cause: error });
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new DreamStreamError("unknown", message, false, { cause: error });
+};
+
+export const toGameError = (error: unknown, action?: PendingAction): GameError => {
+  const { kind, message } = classifyError(error);
+  return { kind, message, action };
+};
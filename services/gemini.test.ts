@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GenerateContentResponse, FinishReason, BlockedReason } from '@google/genai';
+import { ModelType } from '../types';
+import { generateSceneLogic, generateSceneImage, configureStory, DEFAULT_STORY_PREFERENCES } from './gemini';
+import { MalformedResponseError, NoImageDataError, SafetyBlockError } from './errors';
+import { configureRequests, DEFAULT_REQUEST_CONFIG } from './request';
+
+const { generateContent } = vi.hoisted(() => ({ generateContent: vi.fn() }));
+
+// Only the client is replaced; response classes and enums stay real
+vi.mock('@google/genai', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@google/genai')>()),
+  GoogleGenAI: class {
+    models = { generateContent };
+  },
+}));
+
+const respond = (parts: object[], finishReason = FinishReason.STOP) =>
+  Object.assign(new GenerateContentResponse(), {
+    candidates: [{ content: { role: 'model', parts }, finishReason }],
+  });
+
+const jsonResponse = (value: unknown) => respond([{ text: JSON.stringify(value) }]);
+
+const SCENE = {
+  narrative: 'Rain drums on the tin roof of the lighthouse. The lamp is already lit.',
+  visualPrompt: 'A lighthouse at night in heavy rain, warm lamp light, cinematic',
+  altText: 'A lit lighthouse in the rain at night.',
+  ambience: 'storm',
+  soundscape: { intensity: 0.7, tempo: 0.5, brightness: 0.4, tension: 0.6 },
+  options: [
+    { label: 'Climb the stairs', actionPrompt: 'Climb the spiral stairs to the lamp' },
+    { label: 'Knock on the door', actionPrompt: 'Knock on the keeper\'s door' },
+  ],
+  ending: 'none',
+};
+
+beforeEach(() => {
+  process.env.API_KEY = 'test-key';
+  // No waiting between retries
+  configureRequests({ retries: 1, baseDelayMs: 0, maxDelayMs: 0 });
+  configureStory(DEFAULT_STORY_PREFERENCES);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  generateContent.mockReset();
+  configureRequests(DEFAULT_REQUEST_CONFIG);
+  vi.restoreAllMocks();
+});
+
+describe('generateSceneLogic', () => {
+  it('parses a JSON scene from the logic model', async () => {
+    generateContent.mockResolvedValueOnce(jsonResponse(SCENE));
+
+    const scene = await generateSceneLogic('Enter the lighthouse', 'Start of a new adventure.');
+
+    expect(scene.narrative).toBe(SCENE.narrative);
+    expect(scene.options.map(option => option.label)).toEqual(['Climb the stairs', 'Knock on the door']);
+    expect(scene.ambience).toBe('storm');
+    expect(generateContent).toHaveBeenCalledTimes(1);
+    const request = generateContent.mock.calls[0][0];
+    expect(request.model).toBe(ModelType.LOGIC);
+    expect(request.contents).toBe('Enter the lighthouse');
+    expect(request.config.responseMimeType).toBe('application/json');
+    expect(request.config.systemInstruction).toContain('Start of a new adventure.');
+  });
+
+  it('writes the story language and rating into the system instruction', async () => {
+    configureStory({ language: 'fr', rating: 'teen' });
+    generateContent.mockResolvedValueOnce(jsonResponse(SCENE));
+
+    await generateSceneLogic('Entrer', '');
+
+    const { systemInstruction } = generateContent.mock.calls[0][0].config;
+    expect(systemInstruction).toContain('in French');
+    expect(systemInstruction).toContain('Suitable for teenagers');
+  });
+
+  it('sets the scene in the world of the adventure\'s template', async () => {
+    configureStory({ world: { genre: 'a sunken clockwork city', ambience: 'underwater' } });
+    generateContent.mockResolvedValueOnce(jsonResponse(SCENE));
+
+    await generateSceneLogic('Dive', '');
+
+    const { systemInstruction } = generateContent.mock.calls[0][0].config;
+    expect(systemInstruction).toContain('set in this world: a sunken clockwork city');
+    expect(systemInstruction).toContain("Prefer 'underwater'");
+  });
+
+  it('re-prompts once with the broken rules when a scene cannot be repaired', async () => {
+    generateContent
+      .mockResolvedValueOnce(jsonResponse({ ...SCENE, options: [SCENE.options[0]] }))
+      .mockResolvedValueOnce(jsonResponse(SCENE));
+
+    const scene = await generateSceneLogic('Enter the lighthouse', '');
+
+    expect(scene.options).toHaveLength(2);
+    expect(generateContent).toHaveBeenCalledTimes(2);
+    expect(generateContent.mock.calls[1][0].contents).toContain('Your previous answer broke these rules');
+  });
+
+  it('retries malformed JSON and gives up after the configured retries', async () => {
+    generateContent.mockResolvedValue(respond([{ text: '{"narrative": "Unfinished' }]));
+
+    await expect(generateSceneLogic('Enter', '')).rejects.toBeInstanceOf(MalformedResponseError);
+    expect(generateContent).toHaveBeenCalledTimes(2);
+  });
+
+  it('treats an empty response as malformed', async () => {
+    generateContent.mockResolvedValue(respond([]));
+
+    await expect(generateSceneLogic('Enter', '')).rejects.toThrow('No response from logic model');
+  });
+
+  it('reports a safety block without retrying', async () => {
+    generateContent.mockResolvedValue(respond([], FinishReason.SAFETY));
+
+    await expect(generateSceneLogic('Enter', '')).rejects.toBeInstanceOf(SafetyBlockError);
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('generateSceneImage', () => {
+  it('returns the first inline image as a data URL', async () => {
+    generateContent.mockResolvedValueOnce(respond([
+      { text: 'Here is your image.' },
+      { inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo' } },
+      { inlineData: { mimeType: 'image/png', data: 'c2Vjb25k' } },
+    ]));
+
+    await expect(generateSceneImage('A lighthouse')).resolves.toBe('data:image/png;base64,iVBORw0KGgo');
+    const request = generateContent.mock.calls[0][0];
+    expect(request.model).toBe(ModelType.IMAGE);
+    expect(request.contents.parts).toEqual([{ text: 'A lighthouse' }]);
+  });
+
+  it('sends a raster reference image ahead of the prompt', async () => {
+    generateContent.mockResolvedValueOnce(respond([{ inlineData: { mimeType: 'image/jpeg', data: 'abc' } }]));
+
+    await generateSceneImage('A lighthouse', { referenceImage: 'data:image/webp;base64,UklGRg' });
+
+    const { parts } = generateContent.mock.calls[0][0].contents;
+    expect(parts[0]).toEqual({ inlineData: { mimeType: 'image/webp', data: 'UklGRg' } });
+    expect(parts[parts.length - 1]).toEqual({ text: 'A lighthouse' });
+  });
+
+  it('leaves out reference images the model cannot read', async () => {
+    generateContent.mockResolvedValueOnce(respond([{ inlineData: { mimeType: 'image/png', data: 'abc' } }]));
+
+    await generateSceneImage('A lighthouse', { referenceImage: 'data:image/svg+xml;utf8,<svg/>' });
+
+    expect(generateContent.mock.calls[0][0].contents.parts).toEqual([{ text: 'A lighthouse' }]);
+  });
+
+  it('fails with NoImageDataError when the response only has text', async () => {
+    generateContent.mockResolvedValue(respond([{ text: 'I cannot draw that.' }]));
+
+    await expect(generateSceneImage('A lighthouse')).rejects.toBeInstanceOf(NoImageDataError);
+    expect(generateContent).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports a blocked prompt as a safety block', async () => {
+    generateContent.mockResolvedValue(Object.assign(new GenerateContentResponse(), {
+      promptFeedback: { blockReason: BlockedReason.SAFETY },
+    }));
+
+    await expect(generateSceneImage('A lighthouse')).rejects.toBeInstanceOf(SafetyBlockError);
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,83 @@
+import { StoryMemory, SceneLogic, StoryProvider, SceneData } from "../types";
+
+// Story memory: a rolling summary plus structured facts, kept within a token budget
+// and fed to the logic model in place of raw scene history.
+
+export const MEMORY_TOKEN_BUDGET = 600;
+const MAX_FACTS = 12; // Per category
+
+export const EMPTY_MEMORY: StoryMemory = {
+  summary: "",
+  characters: [],
+  locations: [],
+  mysteries: [],
+  items: [],
+};
+
+// Rough estimate (~4 characters per token) - good enough for budgeting prompts
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const formatMemory = (memory: StoryMemory, lastScene?: string): string => {
+  const lines = [`Story so far: ${memory.summary || "Nothing yet."}`];
+  if (memory.characters.length) lines.push(`Characters: ${memory.characters.join("; ")}`);
+  if (memory.locations.length) lines.push(`Locations: ${memory.locations.join("; ")}`);
+  if (memory.mysteries.length) lines.push(`Open mysteries: ${memory.mysteries.join("; ")}`);
+  if (memory.items.length) lines.push(`Items: ${memory.items.join("; ")}`);
+  if (lastScene) lines.push(`Current scene: ${lastScene}`);
+  return lines.join("\n");
+};
+
+// Trims the oldest facts and summary sentences until the memory fits the budget.
+export const fitMemoryToBudget = (memory: StoryMemory, budget = MEMORY_TOKEN_BUDGET): StoryMemory => {
+  const fitted: StoryMemory = {
+    summary: memory.summary,
+    characters: memory.characters.slice(-MAX_FACTS),
+    locations: memory.locations.slice(-MAX_FACTS),
+    mysteries: memory.mysteries.slice(-MAX_FACTS),
+    items: memory.items.slice(-MAX_FACTS),
+  };
+
+  const lists: (keyof Omit<StoryMemory, "summary">)[] = ["locations", "characters", "items", "mysteries"];
+  while (estimateTokens(formatMemory(fitted)) > budget) {
+    const sentences = fitted.summary.match(/[^.!?]+[.!?]*/g) ?? [];
+    if (sentences.length > 1) {
+      fitted.summary = sentences.slice(1).join("").trim();
+      continue;
+    }
+    const longest = lists.reduce((a, b) => (fitted[a].length >= fitted[b].length ? a : b));
+    if (fitted[longest].length === 0) {
+      // Only one huge sentence left; hard-truncate it
+      fitted.summary = fitted.summary.slice(0, budget * 4);
+      break;
+    }
+    fitted[longest] = fitted[longest].slice(1);
+  }
+  return fitted;
+};
+
+// Heuristic update used when the provider can't summarize: append the narrative to the summary.
+export const updateMemoryLocally = (memory: StoryMemory, scene: SceneLogic): StoryMemory =>
+  fitMemoryToBudget({ ...memory, summary: `${memory.summary} ${scene.narrative}`.trim() });
+
+export const advanceMemory = async (
+  provider: StoryProvider,
+  memory: StoryMemory,
+  scene: SceneLogic,
+  action: string,
+  signal?: AbortSignal,
+  sceneId?: string
+): Promise<StoryMemory> => {
+  if (provider.updateMemory) {
+    try {
+      return fitMemoryToBudget(await provider.updateMemory(memory, scene, action, signal, sceneId));
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      console.error("Memory update failed, falling back to local summary", e);
+    }
+  }
+  return updateMemoryLocally(memory, scene);
+};
+
+// Memory for scenes saved before story memory existed, rebuilt from their path.
+export const memoryFromPath = (path: SceneData[]): StoryMemory =>
+  fitMemoryToBudget({ ...EMPTY_MEMORY, summary: path.map(s => s.narrative).join(" ") });
@@ -0,0 +1,65 @@
+import { NarrationProvider, NarrationVoice } from "../types";
+
+// Scene narration. The browser's speech synthesis is the only engine for now;
+// anything implementing NarrationProvider (e.g. model-generated speech) can replace it.
+
+const getSynth = () => (typeof window !== "undefined" && "speechSynthesis" in window ? window.speechSynthesis : null);
+
+// Voices load asynchronously in most browsers and some never fire voiceschanged
+const loadVoices = (): Promise<SpeechSynthesisVoice[]> =>
+  new Promise(resolve => {
+    const synth = getSynth();
+    if (!synth) return resolve([]);
+    const voices = synth.getVoices();
+    if (voices.length > 0) return resolve(voices);
+    const done = () => resolve(synth.getVoices());
+    synth.addEventListener("voiceschanged", done, { once: true });
+    setTimeout(done, 1000);
+  });
+
+// Chrome reports charLength as 0, so measure the word ourselves
+const wordLengthAt = (text: string, index: number) => text.slice(index).match(/^\S+/)?.[0].length ?? 0;
+
+export const speechSynthesisNarrator: NarrationProvider = {
+  id: "speech",
+
+  isAvailable: () => !!getSynth(),
+
+  getVoices: async (): Promise<NarrationVoice[]> =>
+    (await loadVoices()).map(voice => ({ id: voice.voiceURI, name: voice.name, lang: voice.lang })),
+
+  speak: async (text, { voice, rate, lang, signal, onWord }) => {
+    const synth = getSynth();
+    if (!synth) throw new Error("Speech synthesis is not available in this browser");
+    const voices = await loadVoices();
+    signal?.throwIfAborted();
+
+    // Only one scene speaks at a time
+    synth.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = rate;
+    if (lang) utterance.lang = lang;
+    utterance.voice = voices.find(v => v.voiceURI === voice) ?? null;
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => synth.cancel();
+      const settle = (error?: Error) => {
+        signal?.removeEventListener("abort", onAbort);
+        if (signal?.aborted) reject(new DOMException("Narration cancelled", "AbortError"));
+        else if (error) reject(error);
+        else resolve();
+      };
+
+      utterance.onboundary = (e) => {
+        if (e.name === "word") onWord?.(e.charIndex, e.charLength || wordLengthAt(text, e.charIndex));
+      };
+      utterance.onend = () => settle();
+      utterance.onerror = (e) => settle(new Error(`Speech synthesis failed: ${e.error}`));
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      synth.speak(utterance);
+    });
+  },
+};
+
+export const narrator: NarrationProvider = speechSynthesisNarrator;
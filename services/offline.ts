@@ -0,0 +1,200 @@
+import { SceneData, SceneLogic, StoryProvider, ImageProvider, ImageRequestOptions, ActionOption, StateDelta } from "../types";
+
+// Deterministic offline backend.
+// Scenes are assembled from seeded word banks and images are procedural SVGs, so the
+// same prompt and history always produce the same adventure with no network access.
+
+// The word banks cover the original five moods; the wider registry is left to the model
+type Ambience = Extract<SceneData["ambience"], "nature" | "mechanical" | "eerie" | "calm" | "chaos">;
+
+// Small, fast seeded PRNG (mulberry32)
+const createRng = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const hashString = (text: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const pick = <T>(rng: () => number, items: T[]): T => items[Math.floor(rng() * items.length)];
+
+const AMBIENCE_KEYWORDS: Record<Ambience, string[]> = {
+  nature: ["forest", "magic", "jungle", "river", "mountain", "garden", "wild", "tree"],
+  mechanical: ["cyber", "robot", "mars", "colony", "ship", "factory", "city", "machine", "station"],
+  eerie: ["zombie", "ghost", "haunted", "dark", "crypt", "shadow", "mall", "detective"],
+  calm: ["beach", "village", "library", "cloud", "dream", "lake"],
+  chaos: ["war", "storm", "falling", "explosion", "escape", "fire", "crash"],
+};
+
+const SCENE_BANK: Record<Ambience, { places: string[]; twists: string[]; visuals: string[] }> = {
+  nature: {
+    places: ["Tall trees hum a soft song.", "A river runs uphill past your feet.", "Glowing moss lights a hidden path."],
+    twists: ["A fox speaks your name.", "The path behind you is gone.", "Every flower turns to watch you."],
+    visuals: ["an ancient glowing forest at dusk, god rays through mist", "a luminous river flowing uphill through ferns", "a hidden mossy trail lit by bioluminescent plants"],
+  },
+  mechanical: {
+    places: ["Huge gears turn above a metal bridge.", "Neon signs buzz in the acid rain.", "A red dust storm hits the dome."],
+    twists: ["A robot hands you your own ID card.", "The door code is your birthday.", "Every screen shows your face."],
+    visuals: ["a colossal clockwork hall with a narrow steel bridge", "a rain-soaked neon alley with holographic signs", "a glass colony dome on Mars during a dust storm"],
+  },
+  eerie: {
+    places: ["Cold fog rolls down the empty hall.", "A music box plays in the dark.", "Old photos line the cracked walls."],
+    twists: ["One photo shows you, years ago.", "The footsteps stop when you stop.", "A note says: do not trust the light."],
+    visuals: ["a fog-filled abandoned corridor lit by one flickering lamp", "a dusty room with a glowing music box on a table", "a cracked wall covered in faded photographs, moonlight"],
+  },
+  calm: {
+    places: ["Warm light spills over a quiet lake.", "Paper lanterns float over sleepy roofs.", "Soft clouds drift below your boat."],
+    twists: ["The lake shows a different sky.", "A lantern carries a tiny map.", "Your boat is flying, not floating."],
+    visuals: ["a tranquil lake at golden hour with a mirror-like surface", "floating paper lanterns above a sleepy village at night", "a small wooden boat sailing above a sea of clouds"],
+  },
+  chaos: {
+    places: ["Sirens scream as the floor shakes.", "Wind rips through the broken wall.", "Sparks rain down from the ceiling."],
+    twists: ["The exit sign points straight down.", "Someone is cheering for the storm.", "The clock is running backwards."],
+    visuals: ["a collapsing hallway with red emergency lights and sparks", "a violent storm tearing through a shattered building", "a chaotic control room raining sparks, alarms flashing"],
+  },
+};
+
+const OPTION_BANK: ActionOption[] = [
+  { label: "Follow the strange sound", actionPrompt: "I follow the strange sound to its source." },
+  { label: "Hide and watch", actionPrompt: "I hide nearby and watch carefully." },
+  { label: "Run straight ahead", actionPrompt: "I run straight ahead as fast as I can." },
+  { label: "Touch the glowing object", actionPrompt: "I reach out and touch the glowing object." },
+  { label: "Call out for help", actionPrompt: "I shout to see if anyone answers." },
+  { label: "Search for a hidden door", actionPrompt: "I search the walls for a hidden door." },
+  { label: "Trust the stranger", actionPrompt: "I decide to trust the stranger and follow them." },
+];
+
+const ITEM_BANK = ["rusty key", "glowing shard", "old map", "silver whistle", "tiny lantern"];
+
+const HURT_LINES = ["Something sharp scratches your arm.", "You slip and hit the ground hard."];
+
+const detectAmbience = (text: string, rng: () => number): Ambience => {
+  const lower = text.toLowerCase();
+  for (const [ambience, keywords] of Object.entries(AMBIENCE_KEYWORDS) as [Ambience, string[]][]) {
+    if (keywords.some(k => lower.includes(k))) return ambience;
+  }
+  return pick(rng, Object.keys(AMBIENCE_KEYWORDS) as Ambience[]);
+};
+
+export const generateOfflineSceneLogic = async (
+  userInput: string,
+  storyContext: string,
+  signal?: AbortSignal
+): Promise<SceneLogic> => {
+  signal?.throwIfAborted();
+  const rng = createRng(hashString(`${userInput}|${storyContext}`));
+  // The opening prompt sets the mood; later scenes occasionally drift to a new one
+  const ambience = detectAmbience(rng() < 0.7 ? `${storyContext} ${userInput}` : "", rng);
+  const bank = SCENE_BANK[ambience];
+
+  const optionCount = rng() < 0.5 ? 2 : 3;
+  const options: ActionOption[] = [];
+  while (options.length < optionCount) {
+    const option = pick(rng, OPTION_BANK);
+    if (!options.includes(option)) options.push(option);
+  }
+
+  // Lasting consequences: the occasional injury or found item
+  const stateDelta: StateDelta = {};
+  let extra = "";
+  const roll = rng();
+  if (roll < 0.25) {
+    stateDelta.health = -(1 + Math.floor(rng() * 3));
+    extra = pick(rng, HURT_LINES);
+  } else if (roll < 0.45) {
+    const item = pick(rng, ITEM_BANK);
+    stateDelta.itemsGained = [item];
+    extra = `You find a ${item}.`;
+  }
+
+  // Offer to use something the player is carrying (read back from the context we were given)
+  const inventory = storyContext.match(/^Inventory: (.+)$/m)?.[1];
+  const held = inventory && inventory !== "empty" ? inventory.split(", ") : [];
+  if (held.length > 0 && rng() < 0.5) {
+    const item = pick(rng, held);
+    options[options.length - 1] = { label: `Use the ${item}`, actionPrompt: `I use the ${item}.`, requiresItem: item };
+  }
+
+  const ending = rng() < 0.05 ? "victory" : null;
+
+  const narrative = ending ? "A door of light opens. You step through and wake up safe at home." : `${pick(rng, bank.places)} ${pick(rng, bank.twists)} ${extra}`.trim();
+  const visualPrompt = pick(rng, bank.visuals);
+
+  return {
+    narrative,
+    visualPrompt,
+    // The visual bank entries double as plain descriptions; drop the lighting notes after the comma
+    altText: `${visualPrompt.charAt(0).toUpperCase()}${visualPrompt.slice(1).split(",")[0]}.`,
+    ambience,
+    options: ending ? [] : options,
+    stateDelta,
+    ending,
+  };
+};
+
+const PALETTES: Record<Ambience, [string, string, string]> = {
+  nature: ["#0b3d2e", "#4caf50", "#d4f5a3"],
+  mechanical: ["#0a0f2c", "#00bcd4", "#ff4081"],
+  eerie: ["#05050a", "#3a2d5c", "#9fa8da"],
+  calm: ["#1a2a6c", "#f7b267", "#fff3e0"],
+  chaos: ["#1a0000", "#d32f2f", "#ffb300"],
+};
+
+// Procedural landscape: gradient sky, a glowing orb, stars and layered ridges.
+export const generateOfflineSceneImage = async (
+  visualPrompt: string,
+  options: ImageRequestOptions = {}
+): Promise<string> => {
+  options.signal?.throwIfAborted();
+  const rng = createRng(hashString(visualPrompt));
+  const ambience = (Object.keys(SCENE_BANK) as Ambience[]).find(a => SCENE_BANK[a].visuals.some(v => visualPrompt.includes(v)))
+    ?? detectAmbience(visualPrompt, rng);
+  const [dark, mid, light] = PALETTES[ambience];
+  const width = 1024;
+  const height = 576;
+
+  const stars = Array.from({ length: 40 }, () =>
+    `<circle cx="${Math.round(rng() * width)}" cy="${Math.round(rng() * height * 0.5)}" r="${(rng() * 1.5 + 0.5).toFixed(1)}" fill="${light}" opacity="${(rng() * 0.6 + 0.2).toFixed(2)}"/>`
+  ).join("");
+
+  const ridges = [0.55, 0.68, 0.8].map((base, layer) => {
+    let points = `0,${height}`;
+    for (let x = 0; x <= width; x += 64) {
+      const y = height * base + (rng() - 0.5) * 120;
+      points += ` ${x},${Math.round(y)}`;
+    }
+    points += ` ${width},${height}`;
+    return `<polygon points="${points}" fill="${dark}" opacity="${0.5 + layer * 0.25}"/>`;
+  }).join("");
+
+  const orbX = Math.round(width * (0.2 + rng() * 0.6));
+  const orbY = Math.round(height * (0.2 + rng() * 0.2));
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + `<defs><linearGradient id="sky" x1="0" y1="0" x2="0" y2="1"><stop offset="0" stop-color="${dark}"/><stop offset="1" stop-color="${mid}"/></linearGradient>`
+    + `<radialGradient id="glow"><stop offset="0" stop-color="${light}"/><stop offset="1" stop-color="${light}" stop-opacity="0"/></radialGradient></defs>`
+    + `<rect width="${width}" height="${height}" fill="url(#sky)"/>${stars}`
+    + `<circle cx="${orbX}" cy="${orbY}" r="140" fill="url(#glow)" opacity="0.6"/><circle cx="${orbX}" cy="${orbY}" r="36" fill="${light}"/>`
+    + `${ridges}</svg>`;
+
+  return `data:image/svg+xml;base64,${btoa(svg)}`;
+};
+
+export const offlineStoryProvider: StoryProvider = {
+  id: "offline",
+  generateSceneLogic: generateOfflineSceneLogic,
+};
+
+export const offlineImageProvider: ImageProvider = {
+  id: "offline",
+  generateSceneImage: generateOfflineSceneImage,
+};
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SceneData } from '../types';
+import { PrefetchScheduler } from './prefetch';
+
+const scene = (id: string): SceneData => ({
+  id,
+  parentId: 'root',
+  narrative: `${id} narrative`,
+  visualPrompt: `${id} picture`,
+  ambience: 'calm',
+  options: [],
+});
+
+// A generation the test finishes by hand; it rejects like a real request once aborted
+const controllable = () => {
+  const runs = new Map<string, { signal: AbortSignal; resolve: (scene: SceneData) => void; reject: (error: unknown) => void }>();
+  const job = (key: string) => (signal: AbortSignal) => new Promise<SceneData>((resolve, reject) => {
+    runs.set(key, { signal, resolve, reject });
+    signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+  });
+  return { runs, job };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('PrefetchScheduler', () => {
+  it('runs no more jobs at once than the concurrency allows', async () => {
+    const scheduler = new PrefetchScheduler({ concurrency: 2, costCap: 10 });
+    const { runs, job } = controllable();
+
+    for (const key of ['a', 'b', 'c']) scheduler.prefetch(key, job(key));
+    expect([...runs.keys()]).toEqual(['a', 'b']);
+
+    runs.get('a')!.resolve(scene('a'));
+    await flush();
+    expect([...runs.keys()]).toEqual(['a', 'b', 'c']);
+    expect(scheduler.isReady('a')).toBe(true);
+  });
+
+  it('stops at the cost cap until the budget is reset', async () => {
+    const scheduler = new PrefetchScheduler({ concurrency: 5, costCap: 2 });
+    const run = vi.fn(async () => scene('x'));
+
+    for (const key of ['a', 'b', 'c']) scheduler.prefetch(key, run);
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(scheduler.remainingBudget).toBe(0);
+
+    scheduler.resetBudget();
+    scheduler.prefetch('c', run);
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+
+  it('ignores a key that is already prefetched', () => {
+    const scheduler = new PrefetchScheduler({ concurrency: 2, costCap: 10 });
+    const run = vi.fn(async () => scene('a'));
+
+    scheduler.prefetch('a', run);
+    scheduler.prefetch('a', run);
+
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('hands over a running job and stops tracking it', async () => {
+    const scheduler = new PrefetchScheduler({ concurrency: 1, costCap: 10 });
+    const { runs, job } = controllable();
+    scheduler.prefetch('a', job('a'));
+
+    const taken = scheduler.take('a');
+    expect(taken).not.toBeNull();
+    expect(scheduler.take('a')).toBeNull();
+
+    runs.get('a')!.resolve(scene('a'));
+    await expect(taken).resolves.toEqual(scene('a'));
+  });
+
+  it('does not hand over a queued or failed job', async () => {
+    const scheduler = new PrefetchScheduler({ concurrency: 1, costCap: 10 });
+    const { runs, job } = controllable();
+    scheduler.prefetch('a', job('a'));
+    scheduler.prefetch('b', job('b'));
+
+    expect(scheduler.take('b')).toBeNull();
+    runs.get('a')!.reject(new Error('Model unavailable'));
+    await flush();
+
+    expect(scheduler.take('a')).toBeNull();
+    expect(runs.has('b')).toBe(false);
+  });
+
+  it('aborts every job except the kept ones', async () => {
+    const scheduler = new PrefetchScheduler({ concurrency: 2, costCap: 10 });
+    const { runs, job } = controllable();
+    for (const key of ['a', 'b', 'c']) scheduler.prefetch(key, job(key));
+
+    scheduler.cancelAll(['b']);
+    await flush();
+
+    expect(runs.get('a')!.signal.aborted).toBe(true);
+    expect(runs.get('b')!.signal.aborted).toBe(false);
+    // The queued job was dropped, not started in the freed slot
+    expect(runs.has('c')).toBe(false);
+  });
+
+  it('aborts a taken job together with its session', async () => {
+    const scheduler = new PrefetchScheduler({ concurrency: 1, costCap: 10 });
+    const { runs, job } = controllable();
+    const session = new AbortController();
+    scheduler.prefetch('a', job('a'), session.signal);
+
+    const taken = scheduler.take('a')!;
+    scheduler.cancelAll();
+    expect(runs.get('a')!.signal.aborted).toBe(false);
+
+    session.abort();
+    await expect(taken).rejects.toBeDefined();
+    expect(runs.get('a')!.signal.aborted).toBe(true);
+  });
+
+  it('does not start a job for a session that has already ended', () => {
+    const scheduler = new PrefetchScheduler({ concurrency: 1, costCap: 10 });
+    const run = vi.fn(async () => scene('a'));
+
+    scheduler.prefetch('a', run, AbortSignal.abort());
+
+    expect(run).not.toHaveBeenCalled();
+  });
+});
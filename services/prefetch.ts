@@ -0,0 +1,124 @@
+import { SceneData } from "../types";
+
+// Speculative scene generation.
+// While the player reads a scene, follow-up scenes for its options are generated in
+// the background so that picking one is instant. Jobs run under a concurrency limit
+// and a per-adventure cap on speculative generations, and are aborted once stale.
+
+export interface PrefetchOptions {
+  concurrency: number;
+  costCap: number; // Max speculative scene generations per adventure
+}
+
+type PrefetchStatus = 'queued' | 'running' | 'done' | 'failed';
+
+interface PrefetchJob {
+  key: string;
+  status: PrefetchStatus;
+  controller: AbortController;
+  run: (signal: AbortSignal) => Promise<SceneData>;
+  promise: Promise<SceneData>;
+  resolve: (scene: SceneData) => void;
+  reject: (error: unknown) => void;
+}
+
+export class PrefetchScheduler {
+  private options: PrefetchOptions;
+  private jobs = new Map<string, PrefetchJob>();
+  private queue: PrefetchJob[] = [];
+  private running = 0;
+  private spent = 0;
+
+  constructor(options: PrefetchOptions) {
+    this.options = options;
+  }
+
+  configure(options: PrefetchOptions) {
+    this.options = options;
+    this.pump();
+  }
+
+  // Starts a new budget, e.g. when a different adventure is loaded
+  resetBudget() {
+    this.spent = 0;
+  }
+
+  get remainingBudget() {
+    return Math.max(0, this.options.costCap - this.spent);
+  }
+
+  isReady(key: string) {
+    return this.jobs.get(key)?.status === 'done';
+  }
+
+  // Aborting `signal` stops the job as well, also after it has been taken
+  prefetch(key: string, run: (signal: AbortSignal) => Promise<SceneData>, signal?: AbortSignal) {
+    if (this.jobs.has(key) || signal?.aborted) return;
+    // Count queued jobs against the budget too, so we never queue more than we may run
+    if (this.spent + this.queue.length >= this.options.costCap) return;
+
+    let resolve!: (scene: SceneData) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<SceneData>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    // Nobody may ever claim this job; don't report its failure as unhandled
+    promise.catch(() => {});
+
+    const job: PrefetchJob = { key, status: 'queued', controller: new AbortController(), run, promise, resolve, reject };
+    signal?.addEventListener('abort', () => job.controller.abort(signal.reason), { once: true });
+    this.jobs.set(key, job);
+    this.queue.push(job);
+    this.pump();
+  }
+
+  // Hands over a finished or in-flight prefetch and stops tracking it.
+  // Returns null when nothing usable was prefetched for this key.
+  take(key: string): Promise<SceneData> | null {
+    const job = this.jobs.get(key);
+    if (!job || job.status === 'failed') return null;
+    this.jobs.delete(key);
+    if (job.status === 'queued') {
+      // Not started yet: the caller is better off generating on demand
+      this.queue = this.queue.filter(j => j !== job);
+      return null;
+    }
+    return job.promise;
+  }
+
+  // Aborts every job whose key isn't in `keep`
+  cancelAll(keep: Iterable<string> = []) {
+    const kept = new Set(keep);
+    for (const job of [...this.jobs.values()]) {
+      if (kept.has(job.key)) continue;
+      job.controller.abort();
+      this.jobs.delete(job.key);
+    }
+    this.queue = this.queue.filter(job => kept.has(job.key));
+  }
+
+  private pump() {
+    while (this.running < this.options.concurrency && this.queue.length > 0 && this.spent < this.options.costCap) {
+      const job = this.queue.shift()!;
+      this.start(job);
+    }
+  }
+
+  private async start(job: PrefetchJob) {
+    job.status = 'running';
+    this.running++;
+    this.spent++;
+    try {
+      const scene = await job.run(job.controller.signal);
+      job.status = 'done';
+      job.resolve(scene);
+    } catch (error) {
+      job.status = 'failed';
+      job.reject(error);
+    } finally {
+      this.running--;
+      this.pump();
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { ProviderId, StoryProvider, ImageProvider } from "../types";
+import { Settings } from "../utils/settings";
+import { geminiStoryProvider, geminiImageProvider } from "./gemini";
+import { offlineStoryProvider, offlineImageProvider } from "./offline";
+
+// Backend selection.
+// An explicit DREAMSTREAM_PROVIDER env var wins over the settings panel, and
+// Gemini is only used when an API key is available.
+
+const STORY_PROVIDERS: Record<ProviderId, StoryProvider> = {
+  gemini: geminiStoryProvider,
+  offline: offlineStoryProvider,
+};
+
+const IMAGE_PROVIDERS: Record<ProviderId, ImageProvider> = {
+  gemini: geminiImageProvider,
+  offline: offlineImageProvider,
+};
+
+export const hasApiKey = (): boolean => !!process.env.API_KEY;
+
+export const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === "string" && Object.hasOwn(STORY_PROVIDERS, value);
+
+export const getEnvProvider = (): ProviderId | null => {
+  const fromEnv = process.env.DREAMSTREAM_PROVIDER;
+  return isProviderId(fromEnv) ? fromEnv : null;
+};
+
+export const resolveProviderId = (settings: Settings): ProviderId => {
+  const requested = getEnvProvider() ?? settings.provider;
+  if (requested === "offline") return "offline";
+  return hasApiKey() ? "gemini" : "offline";
+};
+
+export const getProviders = (settings: Settings) => {
+  const id = resolveProviderId(settings);
+  return { id, story: STORY_PROVIDERS[id], image: IMAGE_PROVIDERS[id] };
+};
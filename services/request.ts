@@ -0,0 +1,88 @@
+import { AbortedError, TimeoutError, classifyError } from "./errors";
+
+// Shared request layer for model calls: per-attempt timeouts, retries with
+// exponential backoff for transient errors, and cancellation via AbortSignal.
+
+export interface RequestConfig {
+  retries: number;      // Extra attempts after the first one
+  baseDelayMs: number;  // First backoff delay, doubled on every retry
+  maxDelayMs: number;
+  timeoutMs: number;    // Per attempt
+}
+
+export const DEFAULT_REQUEST_CONFIG: RequestConfig = {
+  retries: 2,
+  baseDelayMs: 800,
+  maxDelayMs: 8000,
+  timeoutMs: 45000,
+};
+
+let requestConfig: RequestConfig = { ...DEFAULT_REQUEST_CONFIG };
+
+export const configureRequests = (config: Partial<RequestConfig>) => {
+  requestConfig = { ...requestConfig, ...config };
+};
+
+export const getRequestConfig = (): RequestConfig => requestConfig;
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new AbortedError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Full jitter keeps parallel prefetches from retrying in lockstep
+const backoffDelay = (attempt: number, config: RequestConfig) =>
+  Math.random() * Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+
+// Runs one attempt with its own signal, aborted by the caller's signal or the timeout
+const attempt = async <T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort(signal?.reason);
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    return await run(controller.signal);
+  } catch (e) {
+    if (signal?.aborted) throw new AbortedError(undefined, { cause: e });
+    if (timedOut) throw new TimeoutError(`No response after ${Math.round(timeoutMs / 1000)}s`, { cause: e });
+    throw classifyError(e);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+};
+
+export const withRetry = async <T>(
+  label: string,
+  run: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal,
+  overrides: Partial<RequestConfig> = {}
+): Promise<T> => {
+  const config = { ...requestConfig, ...overrides };
+
+  for (let i = 0; ; i++) {
+    if (signal?.aborted) throw new AbortedError();
+    try {
+      return await attempt(run, config.timeoutMs, signal);
+    } catch (e) {
+      const error = classifyError(e);
+      if (!error.retryable || i >= config.retries) throw error;
+      console.warn(`${label} failed (${error.kind}), retrying`, error);
+      await sleep(backoffDelay(i, config), signal);
+    }
+  }
+};
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AuthoredStory, SceneLogic, StoryProvider } from '../types';
+import { createBible } from '../utils/visualBible';
+import { createAuthoredStoryProvider } from './authored';
+import { configureContentFilter } from './contentSafety';
+import { SafetyBlockError } from './errors';
+import { generateSceneText } from './scenePipeline';
+
+const image = { id: 'offline', generateSceneImage: vi.fn() };
+
+const makeLogic = (narrative: string): SceneLogic => ({
+  narrative,
+  visualPrompt: 'A dark forest path',
+  ambience: 'nature',
+  options: [
+    { label: 'Go on', actionPrompt: 'Go on' },
+    { label: 'Turn back', actionPrompt: 'Turn back' },
+  ],
+  ending: null,
+});
+
+const request = (story: StoryProvider, action: string) => ({ story, image, action, parent: null, history: [], bible: createBible() });
+
+beforeEach(() => {
+  configureContentFilter({ rating: 'kids', blocklist: [] });
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('generateSceneText content filter', () => {
+  it('regenerates a model scene once with the blocked words listed', async () => {
+    const generateSceneLogic = vi.fn()
+      .mockResolvedValueOnce(makeLogic('The wolf wants to kill you.'))
+      .mockResolvedValueOnce(makeLogic('The wolf wants to play.'));
+
+    const scene = await generateSceneText(request({ id: 'gemini', generateSceneLogic }, 'Enter the forest'));
+
+    expect(scene.narrative).toBe('The wolf wants to play.');
+    expect(generateSceneLogic).toHaveBeenCalledTimes(2);
+    expect(generateSceneLogic.mock.calls[1][0]).toContain('narrative uses: kill*');
+  });
+
+  it('reports a blocked authored passage instead of regenerating it', async () => {
+    const story: AuthoredStory = {
+      title: 'The Wolf',
+      format: 'twee',
+      start: 'Forest',
+      passages: {
+        Forest: { name: 'Forest', text: 'The wolf wants to kill you.', tags: [], links: [{ label: 'Run', target: 'Home' }] },
+      },
+    };
+    const provider = createAuthoredStoryProvider(story);
+    const generateSceneLogic = vi.spyOn(provider, 'generateSceneLogic');
+
+    const error = await generateSceneText(request(provider, 'Forest')).catch(e => e);
+
+    expect(error).toBeInstanceOf(SafetyBlockError);
+    expect(error.message).toContain('The passage "Forest" is not allowed at this content rating');
+    expect(generateSceneLogic).toHaveBeenCalledTimes(1);
+  });
+});
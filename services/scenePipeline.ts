@@ -0,0 +1,130 @@
+import { SceneData, SceneLogic, ActionOption, StoryProvider, ImageProvider, VisualBible } from "../types";
+import { EMPTY_MEMORY, advanceMemory, fitMemoryToBudget, formatMemory, memoryFromPath } from "./memory";
+import { checkSceneContent, describeContentIssues, softenVisualPrompt } from "./contentSafety";
+import { SafetyBlockError } from "./errors";
+import { getScenePath } from "../utils/storyTree";
+import { mergeEntities, buildVisualPrompt } from "../utils/visualBible";
+import { INITIAL_PLAYER_STATE, sanitizeDelta, applyStateDelta, resolveEnding, formatPlayerState } from "../utils/playerState";
+
+// The logic -> memory -> image pipeline for one scene. Used for on-demand turns
+// and for speculative prefetches, so both produce identical scenes.
+// On-demand turns run the text and image halves separately so the narrative can be
+// shown while the image is still rendering.
+
+export type SceneStage = 'logic' | 'image';
+
+export interface SceneRequest {
+  story: StoryProvider;
+  image: ImageProvider;
+  action: string; // Opening prompt, or the chosen option's actionPrompt
+  option?: ActionOption; // Omitted for the opening scene
+  parent: SceneData | null;
+  history: SceneData[];
+  bible: VisualBible;
+  signal?: AbortSignal;
+  onStage?: (stage: SceneStage) => void;
+}
+
+// A scene that trips the content filter, or the model's own safety filters, gets one
+// gentler regeneration before the turn fails as blocked. Authored passages fail right away.
+const generateSafeLogic = async (story: StoryProvider, action: string, context: string, signal?: AbortSignal, sceneId?: string): Promise<SceneLogic> => {
+  let feedback: string;
+  try {
+    const logic = await story.generateSceneLogic(action, context, signal, sceneId);
+    const issues = checkSceneContent(logic);
+    if (issues.length === 0) return logic;
+    // An imported story can't be rewritten: its actions are passage names, not prompts
+    if (story.id === "authored") {
+      throw new SafetyBlockError(`The passage "${action}" is not allowed at this content rating:\n${describeContentIssues(issues)}`);
+    }
+    console.warn("Scene failed the content filter, regenerating", issues);
+    feedback = `Your previous scene used words that are not allowed at this content rating:\n${describeContentIssues(issues)}\nWrite the scene again without them.`;
+  } catch (error) {
+    if (!(error instanceof SafetyBlockError) || story.id === "authored") throw error;
+    console.warn("Scene blocked by safety filters, regenerating", error);
+    feedback = "Your previous scene was blocked by safety filters. Continue the story with a gentler scene.";
+  }
+  signal?.throwIfAborted();
+
+  const retry = await story.generateSceneLogic(`${action}\n\n${feedback}`, context, signal, sceneId);
+  const issues = checkSceneContent(retry);
+  if (issues.length > 0) {
+    throw new SafetyBlockError(`The scene broke the content rating twice:\n${describeContentIssues(issues)}`);
+  }
+  return retry;
+};
+
+// Narrative, options, consequences and memory. The image is left pending.
+export const generateSceneText = async (request: SceneRequest): Promise<SceneData> => {
+  const { story, action, option, parent, history, signal, onStage } = request;
+
+  // Context is the story memory as of the scene we are branching from
+  const parentState = parent?.playerState ?? INITIAL_PLAYER_STATE;
+  const parentMemory = parent
+    ? parent.memory ?? memoryFromPath(getScenePath(history, parent.id))
+    : EMPTY_MEMORY;
+  const promptContext = parent
+    ? `${formatMemory(fitMemoryToBudget(parentMemory), parent.narrative)}\n${formatPlayerState(parentState)}`
+    : `Start of a new adventure. The player has just entered.\n${formatPlayerState(parentState)}`;
+
+  // Chosen up front so every model call for this scene can be attributed to it
+  const id = crypto.randomUUID();
+
+  onStage?.('logic');
+  const logicData = await generateSafeLogic(story, action, promptContext, signal, id);
+  signal?.throwIfAborted();
+
+  const memory = await advanceMemory(story, parentMemory, logicData, action, signal, id);
+  signal?.throwIfAborted();
+
+  const stateDelta = sanitizeDelta(logicData.stateDelta, parentState.maxHealth);
+  const playerState = applyStateDelta(parentState, stateDelta);
+
+  return {
+    id,
+    parentId: parent?.id ?? null,
+    chosenOption: option,
+    ...logicData,
+    imageStatus: 'pending',
+    stateDelta,
+    ending: resolveEnding(logicData.ending, playerState),
+    playerState,
+    memory,
+    promptContext,
+  };
+};
+
+export interface SceneImageRequest {
+  image: ImageProvider;
+  scene: SceneData;
+  parent: SceneData | null;
+  bible: VisualBible;
+  signal?: AbortSignal;
+}
+
+// Resolves to the image data URL for a scene produced by generateSceneText.
+// A blocked image is retried once with a softened prompt and no reference image.
+export const generateSceneVisual = async ({ image, scene, parent, bible, signal }: SceneImageRequest): Promise<string> => {
+  const sceneBible = mergeEntities(bible, scene.entities);
+  const prompt = buildVisualPrompt(sceneBible, scene);
+  try {
+    return await image.generateSceneImage(prompt, {
+      referenceImage: sceneBible.useReferenceImage ? parent?.imageUrl : undefined,
+      signal,
+      sceneId: scene.id,
+    });
+  } catch (error) {
+    if (!(error instanceof SafetyBlockError)) throw error;
+    console.warn("Image blocked by safety filters, retrying with a softened prompt", error);
+    return image.generateSceneImage(softenVisualPrompt(prompt), { signal, sceneId: scene.id });
+  }
+};
+
+// Text and image in one go, for callers that only want finished scenes.
+export const generateScene = async (request: SceneRequest): Promise<SceneData> => {
+  const scene = await generateSceneText(request);
+  request.onStage?.('image');
+  const imageUrl = await generateSceneVisual({ ...request, scene });
+  request.signal?.throwIfAborted();
+  return { ...scene, imageUrl, imageStatus: 'ready' };
+};
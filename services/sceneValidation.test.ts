@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { AMBIENCES } from '../utils/ambience';
+import { validateSceneLogic, describeIssues, MAX_NARRATIVE_WORDS, NARRATIVE_WORD_LIMITS } from './sceneValidation';
+
+const SCENE = {
+  narrative: 'Rain drums on the tin roof of the lighthouse.',
+  visualPrompt: 'A lighthouse at night in heavy rain',
+  altText: 'A lighthouse in the rain.',
+  ambience: 'storm',
+  options: [
+    { label: 'Climb the stairs', actionPrompt: 'Climb the stairs' },
+    { label: 'Leave', actionPrompt: 'Leave the lighthouse' },
+  ],
+  ending: 'none',
+};
+
+const words = (count: number) => Array.from({ length: count }, (_, i) => `word${i + 1}`).join(' ');
+const codes = (raw: unknown, maxWords?: number) => validateSceneLogic(raw, maxWords).issues.map(issue => issue.code);
+
+describe('validateSceneLogic', () => {
+  it('passes a scene that follows the rules untouched', () => {
+    const { scene, issues } = validateSceneLogic(SCENE);
+
+    expect(issues).toEqual([]);
+    expect(scene).toMatchObject({ narrative: SCENE.narrative, ambience: 'storm', options: SCENE.options, ending: null });
+  });
+
+  describe('repairs small drift in place', () => {
+    it.each([
+      ['an unknown ambience', { ambience: 'jazz' }, 'ambience', { ambience: 'calm' }],
+      ['a capitalised ambience', { ambience: 'Storm' }, null, { ambience: 'storm' }],
+      ['a missing visual prompt', { visualPrompt: '' }, 'visual-missing', { visualPrompt: SCENE.narrative }],
+      ['an unknown ending', { ending: 'maybe' }, 'ending-invalid', { ending: null }],
+      ['options on an ending', { ending: 'death' }, 'ending-options', { ending: 'death', options: [] }],
+      ['out-of-range soundscape values', { soundscape: { intensity: 2, tempo: -1 } }, 'soundscape-invalid',
+        { soundscape: { intensity: 1, tempo: 0, brightness: 0.5, tension: 0.5 } }],
+    ])('%s', (_, patch, code, expected) => {
+      const { scene, issues } = validateSceneLogic({ ...SCENE, ...patch });
+
+      expect(issues.map(issue => issue.code)).toEqual(code ? [code] : []);
+      expect(issues.every(issue => issue.repaired)).toBe(true);
+      expect(scene).toMatchObject(expected);
+    });
+
+    it('keeps the first options when there are too many', () => {
+      const options = ['North', 'South', 'East', 'West'].map(label => ({ label, actionPrompt: `Go ${label}` }));
+      const { scene } = validateSceneLogic({ ...SCENE, options });
+
+      expect(codes({ ...SCENE, options })).toEqual(['too-many-options']);
+      expect(scene!.options.map(option => option.label)).toEqual(['North', 'South', 'East']);
+    });
+
+    it('drops unlabelled options and fills a missing action prompt from the label', () => {
+      const options = [{ label: 'North' }, { actionPrompt: 'Go south' }, { label: '' }, 'East'];
+      const { scene, issues } = validateSceneLogic({ ...SCENE, options });
+
+      expect(issues.map(issue => issue.code)).toEqual(['option-invalid']);
+      expect(scene!.options).toEqual([
+        { label: 'North', actionPrompt: 'North' },
+        { label: 'Go south', actionPrompt: 'Go south' },
+      ]);
+    });
+  });
+
+  describe('reports what cannot be repaired so the caller re-prompts', () => {
+    it.each([
+      ['a response that is not an object', 'Once upon a time', 'not-an-object'],
+      ['an empty narrative', { ...SCENE, narrative: '  ' }, 'narrative-missing'],
+      ['a single option', { ...SCENE, options: SCENE.options.slice(0, 1) }, 'too-few-options'],
+      ['options without labels', { ...SCENE, options: [{}, {}] }, 'too-few-options'],
+    ])('%s', (_, raw, code) => {
+      const { scene, issues } = validateSceneLogic(raw);
+
+      expect(scene).toBeNull();
+      expect(issues.find(issue => !issue.repaired)?.code).toBe(code);
+    });
+
+    it('lists every issue for the corrective prompt', () => {
+      const { issues } = validateSceneLogic({ ...SCENE, narrative: '', ambience: 'jazz' });
+
+      expect(describeIssues(issues)).toBe(`- narrative is empty.\n- ambience "jazz" is not one of ${AMBIENCES.join(', ')}.`);
+    });
+  });
+
+  describe('narrative word limits', () => {
+    it('accepts a narrative right at the limit', () => {
+      expect(codes({ ...SCENE, narrative: `${words(MAX_NARRATIVE_WORDS - 1)} end.` })).toEqual([]);
+    });
+
+    it('cuts a long narrative at the last full sentence within the limit', () => {
+      const narrative = `${words(10)}. ${words(MAX_NARRATIVE_WORDS)}.`;
+      const { scene, issues } = validateSceneLogic({ ...SCENE, narrative });
+
+      expect(issues).toEqual([{
+        code: 'narrative-length',
+        message: `narrative has ${10 + MAX_NARRATIVE_WORDS} words, the limit is ${MAX_NARRATIVE_WORDS}.`,
+        repaired: true,
+      }]);
+      expect(scene!.narrative).toBe(`${words(10)}.`);
+    });
+
+    it('hard-cuts the words when no sentence ends within the limit', () => {
+      const { scene } = validateSceneLogic({ ...SCENE, narrative: words(MAX_NARRATIVE_WORDS + 5) });
+
+      expect(scene!.narrative).toBe(`${words(MAX_NARRATIVE_WORDS)}...`);
+    });
+
+    it('follows the limit of the chosen narrative length', () => {
+      const narrative = `${words(NARRATIVE_WORD_LIMITS.short + 1)}.`;
+
+      expect(codes({ ...SCENE, narrative }, NARRATIVE_WORD_LIMITS.short)).toEqual(['narrative-length']);
+      expect(codes({ ...SCENE, narrative }, NARRATIVE_WORD_LIMITS.medium)).toEqual([]);
+    });
+  });
+});
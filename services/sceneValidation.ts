@@ -0,0 +1,245 @@
+import { SceneLogic, Ambience, ActionOption, VisualEntity, StateDelta, SoundscapeParams, NarrativeLength } from "../types";
+import { AMBIENCES, isAmbience } from "../utils/ambience";
+
+// Runtime checks for the scene contract the system instruction asks the model for.
+// Model output is untrusted: small drift is repaired in place, anything that would
+// leave the player stuck is reported so the caller can re-prompt.
+
+export const NARRATIVE_WORD_LIMITS: Record<NarrativeLength, number> = { short: 20, medium: 35, long: 60 };
+export const MAX_NARRATIVE_WORDS = NARRATIVE_WORD_LIMITS.medium;
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 3;
+const MAX_LABEL_LENGTH = 80;
+const MAX_ALT_LENGTH = 160;
+
+export type SceneIssueCode =
+  | "not-an-object"
+  | "narrative-missing"
+  | "narrative-length"
+  | "visual-missing"
+  | "ambience"
+  | "soundscape-invalid"
+  | "too-few-options"
+  | "too-many-options"
+  | "option-invalid"
+  | "ending-invalid"
+  | "ending-options"
+  | "entity-invalid";
+
+export interface SceneIssue {
+  code: SceneIssueCode;
+  message: string;
+  repaired: boolean; // False when the scene cannot be used as-is
+}
+
+export interface SceneValidation {
+  scene: SceneLogic | null; // Repaired scene, null when an issue could not be repaired
+  issues: SceneIssue[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+const countWords = (value: string) => value.split(/\s+/).filter(Boolean).length;
+
+// Cut at the last full sentence within the limit, or hard-cut the words if there is none
+const trimNarrative = (narrative: string, maxWords: number) => {
+  const words = narrative.split(/\s+/).filter(Boolean).slice(0, maxWords).join(" ");
+  const lastStop = Math.max(words.lastIndexOf(". "), words.lastIndexOf("! "), words.lastIndexOf("? "));
+  return /[.!?]$/.test(words) ? words : lastStop > 0 ? words.slice(0, lastStop + 1) : `${words}...`;
+};
+
+const SOUNDSCAPE_KEYS: (keyof SoundscapeParams)[] = ["intensity", "tempo", "brightness", "tension"];
+
+// Missing values fall back to neutral, out-of-range ones are clamped; null when nothing is usable
+const repairSoundscape = (raw: Record<string, unknown>): { params: SoundscapeParams | null; repaired: boolean } => {
+  let repaired = false;
+  let usable = false;
+  const params = {} as SoundscapeParams;
+  for (const key of SOUNDSCAPE_KEYS) {
+    const value = raw[key];
+    if (typeof value === "number" && Number.isFinite(value)) {
+      usable = true;
+      params[key] = Math.min(1, Math.max(0, value));
+      if (params[key] !== value) repaired = true;
+    } else {
+      repaired = true;
+      params[key] = 0.5;
+    }
+  }
+  return { params: usable ? params : null, repaired };
+};
+
+const repairOption = (raw: unknown): ActionOption | null => {
+  if (!isRecord(raw)) return null;
+  const label = text(raw.label) || text(raw.actionPrompt);
+  const actionPrompt = text(raw.actionPrompt) || label;
+  if (!label) return null;
+  const requiresItem = text(raw.requiresItem);
+  return { label: label.slice(0, MAX_LABEL_LENGTH), actionPrompt, ...(requiresItem ? { requiresItem } : {}) };
+};
+
+const repairEntity = (raw: unknown): VisualEntity | null => {
+  if (!isRecord(raw)) return null;
+  const name = text(raw.name);
+  const appearance = text(raw.appearance);
+  const kind = raw.kind === "location" ? "location" : raw.kind === "character" ? "character" : null;
+  return name && appearance && kind ? { kind, name, appearance } : null;
+};
+
+export const validateSceneLogic = (raw: unknown, maxWords = MAX_NARRATIVE_WORDS): SceneValidation => {
+  const issues: SceneIssue[] = [];
+  const report = (code: SceneIssueCode, message: string, repaired: boolean) => issues.push({ code, message, repaired });
+
+  if (!isRecord(raw)) {
+    report("not-an-object", "The response is not a scene object.", false);
+    return { scene: null, issues };
+  }
+
+  let narrative = text(raw.narrative);
+  if (!narrative) {
+    report("narrative-missing", "narrative is empty.", false);
+  } else if (countWords(narrative) > maxWords) {
+    report("narrative-length", `narrative has ${countWords(narrative)} words, the limit is ${maxWords}.`, true);
+    narrative = trimNarrative(narrative, maxWords);
+  }
+
+  let visualPrompt = text(raw.visualPrompt);
+  if (!visualPrompt) {
+    report("visual-missing", "visualPrompt is empty.", true);
+    visualPrompt = narrative;
+  }
+
+  let ambience = text(raw.ambience).toLowerCase();
+  if (!isAmbience(ambience)) {
+    report("ambience", `ambience "${text(raw.ambience)}" is not one of ${AMBIENCES.join(", ")}.`, true);
+    ambience = "calm";
+  }
+
+  // Optional: scenes without one play their ambience at its designed levels
+  let soundscape: SoundscapeParams | undefined;
+  if (raw.soundscape != null) {
+    const { params, repaired } = isRecord(raw.soundscape) ? repairSoundscape(raw.soundscape) : { params: null, repaired: true };
+    if (repaired) {
+      report("soundscape-invalid", params
+        ? "soundscape values must be numbers from 0 to 1; they were clamped or defaulted."
+        : "soundscape has no usable values and was dropped.", true);
+    }
+    soundscape = params ?? undefined;
+  }
+
+  let ending: SceneLogic["ending"] = null;
+  if (raw.ending === "death" || raw.ending === "victory") {
+    ending = raw.ending;
+  } else if (raw.ending != null && raw.ending !== "none") {
+    report("ending-invalid", `ending "${String(raw.ending)}" is not death, victory or none.`, true);
+  }
+
+  const rawOptions = Array.isArray(raw.options) ? raw.options : [];
+  let options = rawOptions.map(repairOption).filter((o): o is ActionOption => o !== null);
+  if (options.length < rawOptions.length) {
+    report("option-invalid", `${rawOptions.length - options.length} option(s) had no label and were dropped.`, true);
+  }
+
+  if (ending) {
+    if (options.length > 0) {
+      report("ending-options", "An ending scene must not offer options.", true);
+      options = [];
+    }
+  } else if (options.length < MIN_OPTIONS) {
+    report("too-few-options", `Only ${options.length} usable option(s), at least ${MIN_OPTIONS} are required.`, false);
+  } else if (options.length > MAX_OPTIONS) {
+    report("too-many-options", `${options.length} options given, at most ${MAX_OPTIONS} are allowed.`, true);
+    options = options.slice(0, MAX_OPTIONS);
+  }
+
+  const rawEntities = Array.isArray(raw.entities) ? raw.entities : [];
+  const entities = rawEntities.map(repairEntity).filter((e): e is VisualEntity => e !== null);
+  if (entities.length < rawEntities.length) {
+    report("entity-invalid", `${rawEntities.length - entities.length} entity entries were incomplete and were dropped.`, true);
+  }
+
+  // Optional: without it the image is treated as decorative
+  const altText = text(raw.altText).slice(0, MAX_ALT_LENGTH);
+
+  if (issues.some(issue => !issue.repaired)) {
+    return { scene: null, issues };
+  }
+
+  return {
+    scene: {
+      narrative,
+      visualPrompt,
+      ...(altText ? { altText } : {}),
+      ambience: ambience as Ambience,
+      ...(soundscape ? { soundscape } : {}),
+      options,
+      ending,
+      entities,
+      // Deltas are sanitized where they are applied (utils/playerState)
+      stateDelta: isRecord(raw.stateDelta) ? (raw.stateDelta as StateDelta) : undefined,
+    },
+    issues,
+  };
+};
+
+export const describeIssues = (issues: SceneIssue[]) => issues.map(issue => `- ${issue.message}`).join("\n");
+
+// --- Drift log ---
+
+export type ValidationOutcome = "valid" | "repaired" | "reprompted" | "failed";
+
+export interface ValidationStats {
+  total: number;
+  outcomes: Record<ValidationOutcome, number>;
+  issues: Partial<Record<SceneIssueCode, number>>;
+  recent: { at: number; outcome: ValidationOutcome; issues: string[] }[]; // Newest first
+}
+
+const STATS_KEY = "dreamstream:validation";
+const MAX_RECENT = 20;
+
+const emptyStats = (): ValidationStats => ({
+  total: 0,
+  outcomes: { valid: 0, repaired: 0, reprompted: 0, failed: 0 },
+  issues: {},
+  recent: [],
+});
+
+export const loadValidationStats = (): ValidationStats => {
+  try {
+    const raw = localStorage.getItem(STATS_KEY);
+    return raw ? { ...emptyStats(), ...JSON.parse(raw) } : emptyStats();
+  } catch {
+    return emptyStats();
+  }
+};
+
+export const clearValidationStats = () => {
+  try {
+    localStorage.removeItem(STATS_KEY);
+  } catch (e) {
+    console.error("Failed to clear validation stats", e);
+  }
+};
+
+export const recordValidation = (outcome: ValidationOutcome, issues: SceneIssue[]) => {
+  const stats = loadValidationStats();
+  stats.total += 1;
+  stats.outcomes[outcome] += 1;
+  for (const issue of issues) {
+    stats.issues[issue.code] = (stats.issues[issue.code] ?? 0) + 1;
+  }
+  if (issues.length > 0) {
+    stats.recent = [{ at: Date.now(), outcome, issues: issues.map(i => i.message) }, ...stats.recent].slice(0, MAX_RECENT);
+    console.warn(`Scene validation: ${outcome}`, issues);
+  }
+
+  try {
+    localStorage.setItem(STATS_KEY, JSON.stringify(stats));
+  } catch (e) {
+    console.error("Failed to save validation stats", e);
+  }
+};
@@ -0,0 +1,142 @@
+import { SavedAdventure, AdventureSummary } from "../types";
+import { createThumbnail } from "../utils/image";
+
+// IndexedDB persistence for adventures.
+// Full adventures (with their base64 images) live in one store, and lightweight
+// summaries for the landing page live in another so listing stays cheap.
+
+const DB_NAME = "dreamstream";
+const DB_VERSION = 1;
+const ADVENTURES = "adventures";
+const SUMMARIES = "summaries";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ADVENTURES)) {
+          db.createObjectStore(ADVENTURES, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(SUMMARIES)) {
+          db.createObjectStore(SUMMARIES, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const buildSummary = async (adventure: SavedAdventure): Promise<AdventureSummary> => {
+  const current = adventure.history.find(s => s.id === adventure.currentSceneId)
+    ?? adventure.history[adventure.history.length - 1];
+
+  return {
+    id: adventure.id,
+    title: adventure.title,
+    thumbnail: current?.imageUrl ? await createThumbnail(current.imageUrl) : undefined,
+    sceneCount: adventure.history.length,
+    language: adventure.language,
+    createdAt: adventure.createdAt,
+    updatedAt: adventure.updatedAt,
+  };
+};
+
+const writeAdventure = async (adventure: SavedAdventure): Promise<void> => {
+  // Build the thumbnail before opening the transaction; IndexedDB transactions
+  // auto-commit as soon as they are left idle across an await.
+  const summary = await buildSummary(adventure);
+  const db = await openDb();
+  const tx = db.transaction([ADVENTURES, SUMMARIES], "readwrite");
+  tx.objectStore(ADVENTURES).put(adventure);
+  tx.objectStore(SUMMARIES).put(summary);
+  await transactionDone(tx);
+};
+
+// Changes to one adventure run one after another. Saves build a thumbnail first, so without
+// this an older snapshot could finish last and overwrite a newer one.
+const queues = new Map<string, Promise<void>>();
+
+const inOrder = <T>(id: string, change: () => Promise<T>): Promise<T> => {
+  const result = (queues.get(id) ?? Promise.resolve()).then(change);
+  const tail = result.then(() => {}, () => {});
+  queues.set(id, tail);
+  tail.then(() => {
+    if (queues.get(id) === tail) queues.delete(id);
+  });
+  return result;
+};
+
+export const listAdventures = async (): Promise<AdventureSummary[]> => {
+  const db = await openDb();
+  const tx = db.transaction(SUMMARIES, "readonly");
+  const summaries = await promisify<AdventureSummary[]>(tx.objectStore(SUMMARIES).getAll());
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadAdventure = async (id: string): Promise<SavedAdventure | null> => {
+  const db = await openDb();
+  const tx = db.transaction(ADVENTURES, "readonly");
+  const adventure = await promisify<SavedAdventure | undefined>(tx.objectStore(ADVENTURES).get(id));
+  return adventure ?? null;
+};
+
+export const saveAdventure = (
+  adventure: Omit<SavedAdventure, "createdAt" | "updatedAt">
+): Promise<void> => inOrder(adventure.id, async () => {
+  const existing = await loadAdventure(adventure.id);
+  const now = Date.now();
+  await writeAdventure({
+    ...adventure,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  });
+});
+
+export const renameAdventure = (id: string, title: string): Promise<void> => inOrder(id, async () => {
+  const adventure = await loadAdventure(id);
+  if (!adventure) return;
+  await writeAdventure({ ...adventure, title });
+});
+
+export const duplicateAdventure = (id: string): Promise<void> => inOrder(id, async () => {
+  const adventure = await loadAdventure(id);
+  if (!adventure) return;
+  const now = Date.now();
+  await writeAdventure({
+    ...adventure,
+    id: crypto.randomUUID(),
+    title: `${adventure.title} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  });
+});
+
+export const deleteAdventure = (id: string): Promise<void> => inOrder(id, async () => {
+  const db = await openDb();
+  const tx = db.transaction([ADVENTURES, SUMMARIES], "readwrite");
+  tx.objectStore(ADVENTURES).delete(id);
+  tx.objectStore(SUMMARIES).delete(id);
+  await transactionDone(tx);
+});
@@ -0,0 +1,185 @@
+import { GenerateContentResponse } from "@google/genai";
+import { ErrorKind } from "../types";
+import { classifyError } from "./errors";
+
+// Per-call telemetry for model requests: what was sent, what came back, tokens, latency
+// and retries. Kept in memory for the page session and shown in the inspector overlay;
+// exportTelemetry() dumps the whole log as JSON for offline analysis.
+
+export type ModelCallKind = "logic" | "memory" | "image";
+
+export interface TokenUsage {
+  prompt: number;
+  response: number;
+  thoughts: number;
+  total: number;
+}
+
+export interface ModelCall {
+  id: string;
+  sceneId?: string; // Scene the call was made for; prefetches that were never played keep an id no scene has
+  kind: ModelCallKind;
+  model: string;
+  prompt: string;
+  systemInstruction?: string;
+  response?: string; // Raw text of the last response; images are summarized
+  usage: TokenUsage; // Summed over every attempt that got a response
+  startedAt: number;
+  latencyMs: number; // Including retries and backoff
+  attempts: number;
+  error?: ErrorKind;
+}
+
+export interface CallMeta {
+  kind: ModelCallKind;
+  model: string;
+  prompt: string;
+  systemInstruction?: string;
+  sceneId?: string;
+}
+
+// Estimated USD per million tokens; thinking tokens are billed as output
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-flash-image": { input: 0.3, output: 30 },
+};
+
+const MAX_CALLS = 500;
+const MAX_TEXT_LENGTH = 20000;
+
+const EMPTY_USAGE: TokenUsage = { prompt: 0, response: 0, thoughts: 0, total: 0 };
+
+let calls: ModelCall[] = [];
+const listeners = new Set<() => void>();
+
+const publish = (next: ModelCall[]) => {
+  calls = next.slice(-MAX_CALLS);
+  listeners.forEach(listener => listener());
+};
+
+// Shaped for useSyncExternalStore
+export const subscribeTelemetry = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getModelCalls = (): ModelCall[] => calls;
+
+export const clearTelemetry = () => publish([]);
+
+const truncate = (text: string) =>
+  text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}… (${text.length - MAX_TEXT_LENGTH} more characters)` : text;
+
+// Text parts as-is, inline images as a short note instead of their base64 data
+const describeResponse = (response: GenerateContentResponse) => {
+  const parts = response.candidates?.[0]?.content?.parts ?? [];
+  const described = parts.map(part =>
+    part.inlineData?.data
+      ? `[${part.inlineData.mimeType ?? "inline data"}, ${Math.round(part.inlineData.data.length * 0.75 / 1024)} KB]`
+      : part.text ?? ""
+  ).filter(Boolean);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) described.push(`[prompt blocked: ${blockReason}]`);
+  else if (finishReason && finishReason !== "STOP") described.push(`[finish reason: ${finishReason}]`);
+  return truncate(described.join("\n"));
+};
+
+const addUsage = (usage: TokenUsage, response: GenerateContentResponse): TokenUsage => {
+  const meta = response.usageMetadata;
+  if (!meta) return usage;
+  return {
+    prompt: usage.prompt + (meta.promptTokenCount ?? 0),
+    response: usage.response + (meta.candidatesTokenCount ?? 0),
+    thoughts: usage.thoughts + (meta.thoughtsTokenCount ?? 0),
+    total: usage.total + (meta.totalTokenCount ?? 0),
+  };
+};
+
+export interface CallTracker {
+  attempt(): void; // Call at the start of every attempt
+  record(response: GenerateContentResponse): GenerateContentResponse; // Pass every raw response through
+}
+
+// Wraps one logical model call, all of its retries included. Responses are recorded before
+// parsing so tokens and the raw text are captured even when the answer turns out unusable.
+export const traceModelCall = async <T>(meta: CallMeta, run: (tracker: CallTracker) => Promise<T>): Promise<T> => {
+  const startedAt = Date.now();
+  const start = performance.now();
+  let attempts = 0;
+  let usage = EMPTY_USAGE;
+  let response: string | undefined;
+
+  const tracker: CallTracker = {
+    attempt: () => {
+      attempts += 1;
+    },
+    record: raw => {
+      usage = addUsage(usage, raw);
+      response = describeResponse(raw);
+      return raw;
+    },
+  };
+
+  const finish = (error?: unknown) => publish([...calls, {
+    id: crypto.randomUUID(),
+    sceneId: meta.sceneId,
+    kind: meta.kind,
+    model: meta.model,
+    prompt: truncate(meta.prompt),
+    systemInstruction: meta.systemInstruction && truncate(meta.systemInstruction),
+    response,
+    usage,
+    startedAt,
+    latencyMs: Math.round(performance.now() - start),
+    attempts,
+    error: error === undefined ? undefined : classifyError(error).kind,
+  }]);
+
+  try {
+    const result = await run(tracker);
+    finish();
+    return result;
+  } catch (error) {
+    finish(error);
+    throw error;
+  }
+};
+
+export const estimateCost = (call: Pick<ModelCall, "model" | "usage">): number => {
+  const price = MODEL_PRICING[call.model];
+  if (!price) return 0;
+  return (call.usage.prompt * price.input + (call.usage.response + call.usage.thoughts) * price.output) / 1_000_000;
+};
+
+export interface TelemetrySummary {
+  calls: number;
+  failed: number;
+  retries: number;
+  tokens: TokenUsage;
+  latencyMs: number;
+  cost: number;
+}
+
+export const summarizeCalls = (list: ModelCall[]): TelemetrySummary => list.reduce((summary, call) => ({
+  calls: summary.calls + 1,
+  failed: summary.failed + (call.error ? 1 : 0),
+  retries: summary.retries + Math.max(0, call.attempts - 1),
+  tokens: {
+    prompt: summary.tokens.prompt + call.usage.prompt,
+    response: summary.tokens.response + call.usage.response,
+    thoughts: summary.tokens.thoughts + call.usage.thoughts,
+    total: summary.tokens.total + call.usage.total,
+  },
+  latencyMs: summary.latencyMs + call.latencyMs,
+  cost: summary.cost + estimateCost(call),
+}), { calls: 0, failed: 0, retries: 0, tokens: EMPTY_USAGE, latencyMs: 0, cost: 0 });
+
+export const exportTelemetry = (): string => JSON.stringify({
+  exportedAt: new Date().toISOString(),
+  pricing: MODEL_PRICING,
+  summary: summarizeCalls(calls),
+  calls: calls.map(call => ({ ...call, estimatedCost: estimateCost(call) })),
+}, null, 2);
@@ -1,24 +1,229 @@
+// Ids of the ambiences in the registry (utils/ambience)
+export type Ambience =
+  | 'nature' | 'mechanical' | 'eerie' | 'calm' | 'chaos'
+  | 'underwater' | 'city' | 'storm' | 'cave' | 'space' | 'fire';
+
+// Each value is 0-1; 0.5 plays the ambience as designed
+export interface SoundscapeParams {
+  intensity: number; // Loudness and density of events
+  tempo: number; // Speed of modulation and events
+  brightness: number; // Filter openness
+  tension: number; // Dissonance and low rumble
+}
+
 export interface GameState {
   isPlaying: boolean;
+  adventureId: string | null; // IndexedDB key of the adventure being played
+  title: string;
+  authoredStory: AuthoredStory | null; // Imported Twine/Ink story driving the narrative instead of the model
   currentScene: SceneData | null;
-  history: SceneData[];
+  player: PlayerState; // State as of the current scene
+  bible: VisualBible; // Visual consistency notes merged into every image prompt
+  history: SceneData[]; // Every scene in the story tree, linked through parentId
+  language: Language; // Language the story is written in
+  template: WorldTemplate | null; // World the adventure was started from
   loading: boolean;
   loadingMessage: string;
-  error: string | null;
+  error: GameError | null;
 }
 
+export type ErrorKind = 'quota' | 'safety' | 'malformed' | 'no-image' | 'network' | 'timeout' | 'aborted' | 'unknown';
+
+export interface GameError {
+  kind: ErrorKind;
+  message: string;
+  action?: PendingAction; // Offered again by the overlay's retry button
+}
+
+// The player action that produced the current turn, kept so a failure can be retried as-is
+export type PendingAction =
+  | { type: 'start'; prompt: string; authoredStory?: AuthoredStory; template?: WorldTemplate }
+  | { type: 'option'; option: ActionOption };
+
 export interface SceneData {
   id: string;
+  parentId: string | null; // The scene this one branched from (null for the opening scene)
+  chosenOption?: ActionOption; // The option picked in the parent scene that led here
   narrative: string; // The story text
-  visualPrompt: string; // The prompt used to generate the image
+  visualPrompt: string;
+  altText?: string; // Short description of the image for screen readers // The prompt used to generate the image
   imageUrl?: string; // The base64 image data
+  imageStatus?: 'pending' | 'ready' | 'failed'; // Images arrive after the narrative; absent means ready
+  imageError?: ErrorKind; // Why the last image attempt failed
   options: ActionOption[];
-  ambience: 'nature' | 'mechanical' | 'eerie' | 'calm' | 'chaos'; // Audio atmosphere
+  ambience: Ambience; // Audio atmosphere
+  soundscape?: SoundscapeParams; // How intensely the ambience plays in this scene
+  entities?: VisualEntity[]; // Recurring characters and locations visible in this scene
+  stateDelta?: StateDelta; // Consequences of this scene for the player
+  ending?: SceneEnding | null; // Set on scenes that finish the adventure
+  playerState?: PlayerState; // Player state after this scene's delta was applied
+  memory?: StoryMemory; // What the story remembers after this scene
+  promptContext?: string; // The memory sent to the logic model to generate this scene
+}
+
+// Long-term story memory, carried from scene to scene along a branch
+export interface StoryMemory {
+  summary: string; // Rolling summary of the plot so far
+  characters: string[];
+  locations: string[];
+  mysteries: string[]; // Open plot threads
+  items: string[];
+}
+
+// What the story model produces for a scene, before it is placed in the tree and illustrated
+export type SceneLogic = Omit<SceneData, "id" | "parentId" | "chosenOption" | "imageUrl" | "imageStatus" | "imageError" | "playerState" | "memory" | "promptContext">;
+
+export interface PlayerState {
+  health: number;
+  maxHealth: number;
+  items: string[];
+  flags: string[]; // Story flags currently set, e.g. "met_the_oracle"
+}
+
+export interface StateDelta {
+  health?: number; // Change in health, negative for damage
+  itemsGained?: string[];
+  itemsLost?: string[];
+  flagsSet?: string[];
+  flagsCleared?: string[];
+}
+
+export type SceneEnding = 'death' | 'victory';
+
+export interface VisualEntity {
+  kind: 'character' | 'location';
+  name: string;
+  appearance: string; // Concrete visual descriptors: colors, clothing, shapes, materials
+  locked?: boolean; // Edited by the player; never overwritten by the model
+}
+
+// The "story bible" for visuals: a fixed art style plus the look of recurring entities
+export interface VisualBible {
+  artStyle: string;
+  entities: VisualEntity[];
+  useReferenceImage: boolean; // Send the previous scene's image to the image model
 }
 
 export interface ActionOption {
   label: string;
   actionPrompt: string; // The prompt to send to Gemini for the next step
+  requiresItem?: string; // Only available while the player holds this item
+  custom?: boolean; // Typed by the player instead of offered by the story
+}
+
+export interface SavedAdventure {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number; // Last played
+  currentSceneId: string;
+  history: SceneData[];
+  authoredStory?: AuthoredStory;
+  bible?: VisualBible;
+  language?: Language; // Missing on adventures saved before stories could be localized
+  template?: WorldTemplate;
+}
+
+export interface AdventureSummary {
+  id: string;
+  title: string;
+  thumbnail?: string; // Small JPEG data URL of the current scene
+  sceneCount: number;
+  language?: Language;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ProviderId = 'gemini' | 'offline';
+
+// sceneId is the id the resulting scene will get, so telemetry can attribute model calls to it
+export interface StoryProvider {
+  id: string;
+  generateSceneLogic(userInput: string, storyContext: string, signal?: AbortSignal, sceneId?: string): Promise<SceneLogic>;
+  // Folds a new scene into the story memory. Providers without it get a local heuristic update.
+  updateMemory?(memory: StoryMemory, scene: SceneLogic, action: string, signal?: AbortSignal, sceneId?: string): Promise<StoryMemory>;
+}
+
+// How the story model writes; chosen in the settings panel
+export type ReadingLevel = 'simple' | 'standard' | 'advanced';
+export type NarrativeLength = 'short' | 'medium' | 'long';
+export type StoryTone = 'balanced' | 'lighthearted' | 'dark' | 'humorous';
+
+export type Language = 'en' | 'es' | 'fr' | 'de' | 'ja' | 'ar';
+
+export type ContentRating = 'kids' | 'teen' | 'mature';
+
+export interface StoryPreferences {
+  readingLevel: ReadingLevel;
+  narrativeLength: NarrativeLength;
+  tone: StoryTone;
+  language: Language;
+  rating: ContentRating;
+  world: Pick<WorldTemplate, 'genre' | 'ambience'> | null; // From the adventure's template
+}
+
+// A world to start adventures in: a built-in genre preset or one the player wrote
+export interface WorldTemplate {
+  id: string;
+  name: string;
+  genre: string; // Told to the story model
+  artStyle: string; // Replaces the default art style of the visual bible
+  tone: StoryTone;
+  ambience: Ambience; // Soundscape the story leans towards
+  hook: string; // Opening prompt, filled into the start screen's input
+}
+
+export interface ImageRequestOptions {
+  referenceImage?: string; // Data URL of an image to keep characters and style consistent with
+  signal?: AbortSignal;
+  sceneId?: string; // For telemetry
+}
+
+export interface ImageProvider {
+  id: string;
+  generateSceneImage(visualPrompt: string, options?: ImageRequestOptions): Promise<string>; // Resolves to an image data URL
+}
+
+export interface NarrationVoice {
+  id: string;
+  name: string;
+  lang: string;
+}
+
+export interface NarrationOptions {
+  voice?: string; // NarrationVoice id; the provider default when empty
+  rate: number; // 1 is normal speed
+  lang?: string; // BCP 47 tag of the text, so the browser can pick a matching default voice
+  signal?: AbortSignal;
+  onWord?: (charIndex: number, charLength: number) => void; // Called as each word starts being spoken
+}
+
+// Reads scene narratives aloud. Implementations: browser speech synthesis; model-generated speech can plug in here too.
+export interface NarrationProvider {
+  id: string;
+  isAvailable(): boolean;
+  getVoices(): Promise<NarrationVoice[]>;
+  speak(text: string, options: NarrationOptions): Promise<void>; // Resolves when speech ends
+}
+
+export interface AuthoredLink {
+  label: string;
+  target: string; // Passage name
+}
+
+export interface AuthoredPassage {
+  name: string;
+  text: string; // Narrative with links and markup stripped
+  tags: string[];
+  links: AuthoredLink[];
+}
+
+// A branching story imported from Twine (Twee 3) or Ink source
+export interface AuthoredStory {
+  title: string;
+  format: 'twee' | 'ink';
+  start: string; // Name of the opening passage
+  passages: Record<string, AuthoredPassage>;
 }
 
 export enum ModelType {
@@ -0,0 +1,145 @@
+import { Ambience } from '../types';
+import { LayerSpec } from './soundscape';
+import { MusicStyle } from './music';
+import { MessageKey } from './i18n';
+
+// Ambience registry. Everything that knows about ambiences (the model schema and
+// instructions, validation, imported story tags, placeholder art, the synth and the music)
+// reads from here, so adding an ambience is one entry plus its id in types.ts.
+
+export interface AmbienceDefinition {
+  description: string; // Shown to the story model so it can pick the right one
+  gradient: string; // Tailwind gradient stops for the placeholder while an image renders
+  layers: LayerSpec[];
+  music: MusicStyle;
+}
+
+export const AMBIENCE_REGISTRY: Record<Ambience, AmbienceDefinition> = {
+  nature: {
+    description: 'wind, birds, forests and open country',
+    gradient: 'from-emerald-950 via-green-900 to-lime-800',
+    layers: [
+      { kind: 'noise', color: 'pink', gain: 0.5, filter: { type: 'bandpass', frequency: 400, q: 0.5 }, lfo: { rate: 0.1, depth: 200 } },
+      { kind: 'noise', color: 'brown', gain: 0.2, filter: { type: 'lowpass', frequency: 200 } },
+      { kind: 'events', sound: 'bird', rate: 0.3, gain: 0.15 },
+    ],
+    music: { root: 55, mode: 'ionian', bpm: 72, progression: [0, 3, 4, 0], motif: 0.35 },
+  },
+  mechanical: {
+    description: 'machines, factories, ships and neon tech',
+    gradient: 'from-slate-950 via-cyan-950 to-fuchsia-900',
+    layers: [
+      { kind: 'drone', wave: 'sawtooth', frequencies: [50], gain: 0.5, filter: { type: 'lowpass', frequency: 200 }, lfo: { rate: 0.5, depth: 500 } },
+      { kind: 'noise', color: 'white', gain: 0.04, filter: { type: 'bandpass', frequency: 1200, q: 2 } },
+      { kind: 'events', sound: 'clank', rate: 0.2, gain: 0.2 },
+    ],
+    music: { root: 45, mode: 'dorian', bpm: 96, progression: [0, 0, 6, 3], motif: 0.5 },
+  },
+  eerie: {
+    description: 'haunted, dark, uncanny places',
+    gradient: 'from-black via-indigo-950 to-violet-900',
+    layers: [
+      { kind: 'drone', wave: 'sine', frequencies: [150, 154], gain: 0.15 }, // Slight detune causes beating
+      { kind: 'noise', color: 'brown', gain: 0.3, filter: { type: 'lowpass', frequency: 150 } },
+      { kind: 'events', sound: 'drip', rate: 0.25, gain: 0.2 },
+    ],
+    music: { root: 50, mode: 'phrygian', bpm: 56, progression: [0, 1, 0, 5], motif: 0.15 },
+  },
+  calm: {
+    description: 'quiet, safe, peaceful moments',
+    gradient: 'from-blue-950 via-sky-900 to-amber-700',
+    layers: [
+      { kind: 'noise', color: 'brown', gain: 0.6, filter: { type: 'lowpass', frequency: 300 } },
+      { kind: 'events', sound: 'chime', rate: 0.1, gain: 0.08 },
+    ],
+    music: { root: 53, mode: 'lydian', bpm: 60, progression: [0, 4, 3, 0], motif: 0.2 },
+  },
+  chaos: {
+    description: 'alarms, battles, collapse and panic',
+    gradient: 'from-black via-red-950 to-orange-800',
+    layers: [
+      { kind: 'noise', color: 'white', gain: 0.4, filter: { type: 'highpass', frequency: 1000 } },
+      { kind: 'drone', wave: 'sawtooth', frequencies: [55, 58.3], gain: 0.2, filter: { type: 'lowpass', frequency: 400 } },
+      { kind: 'events', sound: 'spark', rate: 1.2, gain: 0.12 },
+    ],
+    music: { root: 52, mode: 'phrygian', bpm: 132, progression: [0, 1, 0, 6], motif: 0.7 },
+  },
+  underwater: {
+    description: 'under the sea, flooded rooms, deep water',
+    gradient: 'from-slate-950 via-blue-950 to-teal-700',
+    layers: [
+      { kind: 'noise', color: 'brown', gain: 0.6, filter: { type: 'lowpass', frequency: 250 }, lfo: { rate: 0.08, depth: 120 } },
+      { kind: 'drone', wave: 'sine', frequencies: [60, 90], gain: 0.08 },
+      { kind: 'events', sound: 'bubble', rate: 0.8, gain: 0.12 },
+    ],
+    music: { root: 51, mode: 'dorian', bpm: 54, progression: [0, 3, 0, 4], motif: 0.15 },
+  },
+  city: {
+    description: 'streets, crowds and traffic',
+    gradient: 'from-zinc-950 via-slate-800 to-amber-800',
+    layers: [
+      { kind: 'noise', color: 'pink', gain: 0.4, filter: { type: 'bandpass', frequency: 600, q: 0.7 } },
+      { kind: 'noise', color: 'brown', gain: 0.4, filter: { type: 'lowpass', frequency: 120 } },
+      { kind: 'events', sound: 'horn', rate: 0.08, gain: 0.06 },
+    ],
+    music: { root: 48, mode: 'mixolydian', bpm: 88, progression: [0, 6, 3, 0], motif: 0.4 },
+  },
+  storm: {
+    description: 'rain, wind and thunder',
+    gradient: 'from-black via-slate-900 to-indigo-800',
+    layers: [
+      { kind: 'noise', color: 'white', gain: 0.35, filter: { type: 'lowpass', frequency: 2500 }, lfo: { rate: 0.15, depth: 1200 } },
+      { kind: 'noise', color: 'brown', gain: 0.5, filter: { type: 'lowpass', frequency: 100 } },
+      { kind: 'events', sound: 'thunder', rate: 0.06, gain: 0.5 },
+    ],
+    music: { root: 47, mode: 'aeolian', bpm: 104, progression: [0, 5, 6, 0], motif: 0.5 },
+  },
+  cave: {
+    description: 'caves, tunnels and underground halls',
+    gradient: 'from-black via-stone-900 to-amber-950',
+    layers: [
+      { kind: 'drone', wave: 'sine', frequencies: [55], gain: 0.1 },
+      { kind: 'noise', color: 'brown', gain: 0.3, filter: { type: 'lowpass', frequency: 180 } },
+      { kind: 'events', sound: 'drip', rate: 0.5, gain: 0.25 },
+    ],
+    music: { root: 45, mode: 'aeolian', bpm: 50, progression: [0, 5, 3, 4], motif: 0.1 },
+  },
+  space: {
+    description: 'outer space, starships drifting, the void',
+    gradient: 'from-black via-indigo-950 to-purple-900',
+    layers: [
+      { kind: 'drone', wave: 'sine', frequencies: [110, 165, 220.5], gain: 0.06, filter: { type: 'lowpass', frequency: 800 }, lfo: { rate: 0.05, depth: 300 } },
+      { kind: 'events', sound: 'blip', rate: 0.05, gain: 0.05 },
+    ],
+    music: { root: 52, mode: 'lydian', bpm: 48, progression: [0, 1, 0, 4], motif: 0.1 },
+  },
+  fire: {
+    description: 'flames, lava, burning buildings',
+    gradient: 'from-black via-orange-950 to-red-700',
+    layers: [
+      { kind: 'noise', color: 'brown', gain: 0.5, filter: { type: 'lowpass', frequency: 400 }, lfo: { rate: 0.3, depth: 150 } },
+      { kind: 'events', sound: 'crackle', rate: 3, gain: 0.1 },
+    ],
+    music: { root: 50, mode: 'phrygian', bpm: 112, progression: [0, 1, 6, 0], motif: 0.55 },
+  },
+};
+
+export const AMBIENCES = Object.keys(AMBIENCE_REGISTRY) as Ambience[];
+
+export const isAmbience = (value: unknown): value is Ambience =>
+  typeof value === 'string' && Object.hasOwn(AMBIENCE_REGISTRY, value);
+
+// Shared by the world editor and the HTML export
+export const AMBIENCE_LABELS: Record<Ambience, MessageKey> = {
+  nature: 'ambience.nature',
+  mechanical: 'ambience.mechanical',
+  eerie: 'ambience.eerie',
+  calm: 'ambience.calm',
+  chaos: 'ambience.chaos',
+  underwater: 'ambience.underwater',
+  city: 'ambience.city',
+  storm: 'ambience.storm',
+  cave: 'ambience.cave',
+  space: 'ambience.space',
+  fire: 'ambience.fire',
+};
@@ -0,0 +1,261 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AudioManager, DEFAULT_MIX } from './audio';
+
+// A minimal realtime AudioContext that only tracks the graph: which nodes exist,
+// what they are connected to, and the context's suspend/resume state.
+
+class FakeParam {
+  value = 1;
+  setValueAtTime(value: number) {
+    this.value = value;
+  }
+  setTargetAtTime(value: number) {
+    this.value = value;
+  }
+  linearRampToValueAtTime(value: number) {
+    this.value = value;
+  }
+  exponentialRampToValueAtTime(value: number) {
+    this.value = value;
+  }
+}
+
+class FakeNode {
+  outputs = new Set<FakeNode>();
+  connect(node: FakeNode) {
+    this.outputs.add(node);
+    return node;
+  }
+  disconnect() {
+    this.outputs.clear();
+  }
+}
+
+class FakeGain extends FakeNode {
+  gain = new FakeParam();
+}
+
+class FakeFilter extends FakeNode {
+  type = 'lowpass';
+  frequency = new FakeParam();
+}
+
+class FakeSource extends FakeNode {
+  type = 'sine';
+  buffer: unknown = null;
+  frequency = new FakeParam();
+  onended: (() => void) | null = null;
+  started = false;
+  stopAt: number | null = null;
+  start() {
+    this.started = true;
+  }
+  stop(when = 0) {
+    this.stopAt = when;
+  }
+  // What the browser does once the scheduled stop time has passed; a finished source
+  // can never play again, so it no longer holds on to its outputs
+  end() {
+    this.disconnect();
+    this.onended?.();
+  }
+}
+
+class FakeAudioContext {
+  currentTime = 0;
+  sampleRate = 8000;
+  state: AudioContextState = 'running';
+  destination = new FakeNode();
+  nodes: FakeNode[] = [];
+  suspend = vi.fn(async () => {
+    this.state = 'suspended';
+  });
+  resume = vi.fn(async () => {
+    this.state = 'running';
+  });
+
+  private track<T extends FakeNode>(node: T) {
+    this.nodes.push(node);
+    return node;
+  }
+  createGain() {
+    return this.track(new FakeGain());
+  }
+  createBiquadFilter() {
+    return this.track(new FakeFilter());
+  }
+  createOscillator() {
+    return this.track(new FakeSource());
+  }
+  createBufferSource() {
+    return this.track(new FakeSource());
+  }
+  createBuffer(_channels: number, length: number) {
+    const data = new Float32Array(length);
+    return { getChannelData: () => data };
+  }
+
+  // Nodes still wired into the graph
+  get connected() {
+    return this.nodes.filter(node => node.outputs.size > 0).length;
+  }
+  get sources() {
+    return this.nodes.filter((node): node is FakeSource => node instanceof FakeSource);
+  }
+}
+
+const createManager = () => {
+  const ctx = new FakeAudioContext();
+  const manager = new AudioManager(() => ctx as unknown as AudioContext);
+  return { ctx, manager };
+};
+
+const gainOf = (node: GainNode | null) => (node as unknown as FakeGain).gain.value;
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('AudioManager graph', () => {
+  it('builds the bus graph once', () => {
+    const { ctx, manager } = createManager();
+    manager.init();
+    const built = ctx.nodes.length;
+    manager.init();
+
+    expect(built).toBe(5);
+    expect(ctx.nodes).toHaveLength(built);
+    const node = (gain: GainNode | null) => gain as unknown as FakeNode;
+    expect(node(manager.masterGain).outputs.has(ctx.destination)).toBe(true);
+    expect(node(manager.duckGain).outputs.has(node(manager.masterGain))).toBe(true);
+    expect(node(manager.ambienceGain).outputs.has(node(manager.duckGain))).toBe(true);
+    expect(node(manager.musicGain).outputs.has(node(manager.duckGain))).toBe(true);
+    expect(node(manager.sfxGain).outputs.has(node(manager.masterGain))).toBe(true);
+  });
+
+  it('applies a mix set before the graph exists', () => {
+    const { manager } = createManager();
+    manager.setMix({ ...DEFAULT_MIX, ambience: 0.8, music: 0.1, muted: true });
+    manager.init();
+
+    expect(gainOf(manager.masterGain)).toBe(0);
+    expect(gainOf(manager.ambienceGain)).toBe(0.8);
+    expect(gainOf(manager.musicGain)).toBe(0.1);
+
+    manager.setMix({ ...DEFAULT_MIX, master: 0.7 });
+    expect(gainOf(manager.masterGain)).toBe(0.7);
+  });
+
+  it('ducks and restores the ambience and music bus', () => {
+    const { manager } = createManager();
+    manager.init();
+    manager.duck(true);
+    expect(gainOf(manager.duckGain)).toBe(0.25);
+    manager.duck(false);
+    expect(gainOf(manager.duckGain)).toBe(1);
+  });
+
+  it('ignores ducking before init', () => {
+    const { ctx, manager } = createManager();
+    manager.duck(true);
+    expect(manager.ctx).toBeNull();
+    expect(ctx.nodes).toHaveLength(0);
+  });
+});
+
+describe('AudioManager sound effects', () => {
+  it('disconnects a click once it has played', () => {
+    const { ctx, manager } = createManager();
+    manager.init();
+    const baseline = ctx.connected;
+
+    manager.playClick();
+    const [click] = ctx.sources;
+    expect(click.started).toBe(true);
+    expect(click.stopAt).toBeCloseTo(0.1);
+    expect(ctx.connected).toBe(baseline + 2);
+
+    click.end();
+    expect(ctx.connected).toBe(baseline);
+  });
+
+  it('disconnects the whole transition chain once it has played', () => {
+    const { ctx, manager } = createManager();
+    manager.init();
+    const baseline = ctx.connected;
+
+    manager.playTransition();
+    const [swoosh] = ctx.sources;
+    expect(swoosh.buffer).not.toBeNull();
+    expect(ctx.connected).toBe(baseline + 3);
+
+    swoosh.end();
+    expect(ctx.connected).toBe(baseline);
+  });
+
+  it('builds the graph on the first sound effect', () => {
+    const { ctx, manager } = createManager();
+    manager.playClick();
+    expect(manager.sfxGain).not.toBeNull();
+    expect(ctx.sources).toHaveLength(1);
+  });
+});
+
+describe('AudioManager lifecycle', () => {
+  it('resumes a context the browser started suspended', () => {
+    const { ctx, manager } = createManager();
+    ctx.state = 'suspended';
+    manager.init();
+    expect(ctx.resume).toHaveBeenCalledTimes(1);
+  });
+
+  it('fades out and then suspends the context on stop', () => {
+    vi.useFakeTimers();
+    const { ctx, manager } = createManager();
+    manager.init();
+
+    manager.stop();
+    expect(gainOf(manager.masterGain)).toBe(0);
+    expect(ctx.suspend).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(200);
+    expect(ctx.suspend).toHaveBeenCalledTimes(1);
+    expect(ctx.state).toBe('suspended');
+  });
+
+  it('cancels a pending suspend when resumed during the fade', () => {
+    vi.useFakeTimers();
+    const { ctx, manager } = createManager();
+    manager.init();
+
+    manager.stop();
+    vi.advanceTimersByTime(100);
+    manager.resume();
+    vi.advanceTimersByTime(500);
+
+    expect(ctx.suspend).not.toHaveBeenCalled();
+    expect(gainOf(manager.masterGain)).toBe(DEFAULT_MIX.master);
+  });
+
+  it('does not suspend a closed context', () => {
+    vi.useFakeTimers();
+    const { ctx, manager } = createManager();
+    manager.init();
+    manager.stop();
+    ctx.state = 'closed';
+    vi.advanceTimersByTime(200);
+    expect(ctx.suspend).not.toHaveBeenCalled();
+  });
+
+  it('wakes a suspended context on resume', () => {
+    vi.useFakeTimers();
+    const { ctx, manager } = createManager();
+    manager.init();
+    manager.stop();
+    vi.advanceTimersByTime(200);
+
+    manager.resume();
+    expect(ctx.resume).toHaveBeenCalledTimes(1);
+    expect(ctx.state).toBe('running');
+  });
+});
@@ -1,94 +1,154 @@
 // Procedural Audio Generator using Web Audio API
 // No external assets required.
 
-class AudioManager {
-  ctx: AudioContext | null = null;
+import { Ambience, SoundscapeParams } from '../types';
+import { AMBIENCE_REGISTRY } from './ambience';
+import { Soundscape, getNoiseBuffer } from './soundscape';
+import { MusicEngine, resolveMood } from './music';
+
+type ContextFactory = () => BaseAudioContext;
+
+const createLiveContext: ContextFactory = () => new (window.AudioContext || (window as any).webkitAudioContext)();
+
+// Bus levels, 0-1; the settings panel adjusts them
+export interface AudioMix {
+  master: number;
+  ambience: number;
+  music: number;
+  sfx: number;
+  muted: boolean;
+}
+
+export const DEFAULT_MIX: AudioMix = { master: 0.5, ambience: 0.3, music: 0.25, sfx: 1, muted: false };
+export const CROSSFADE_SECONDS = 2;
+
+export class AudioManager {
+  ctx: BaseAudioContext | null = null;
   masterGain: GainNode | null = null;
-  ambienceNode: AudioBufferSourceNode | OscillatorNode | null = null;
   ambienceGain: GainNode | null = null;
-  lfo: OscillatorNode | null = null; // Low Frequency Oscillator for movement
-  currentAmbienceType: string | null = null;
+  duckGain: GainNode | null = null; // Lowers the ambience while narration speaks
+  soundscape: Soundscape | null = null; // The ambience currently fading in or playing
+  currentAmbienceType: Ambience | null = null;
+  musicGain: GainNode | null = null;
+  music: MusicEngine | null = null;
+  sfxGain: GainNode | null = null; // Clicks and transitions
+  mix: AudioMix = DEFAULT_MIX;
+  private stopTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Tests pass an OfflineAudioContext factory; the app uses the realtime context
+  constructor(private createContext: ContextFactory = createLiveContext) {}
+
+  // Offline contexts render on demand and cannot be suspended or resumed
+  private get live(): AudioContext | null {
+    return this.ctx && !('startRendering' in this.ctx) ? (this.ctx as AudioContext) : null;
+  }
+
+  private get masterLevel() {
+    return this.mix.muted ? 0 : this.mix.master;
+  }
 
   init() {
     if (!this.ctx) {
-      this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      this.ctx = this.createContext();
       this.masterGain = this.ctx.createGain();
-      this.masterGain.gain.value = 0.5; // Master volume
+      this.masterGain.gain.value = this.masterLevel;
       this.masterGain.connect(this.ctx.destination);
 
+      this.duckGain = this.ctx.createGain();
+      this.duckGain.connect(this.masterGain);
+
       this.ambienceGain = this.ctx.createGain();
-      this.ambienceGain.connect(this.masterGain);
+      this.ambienceGain.gain.value = this.mix.ambience;
+      this.ambienceGain.connect(this.duckGain);
+
+      this.musicGain = this.ctx.createGain();
+      this.musicGain.gain.value = this.mix.music;
+      this.musicGain.connect(this.duckGain);
+
+      this.sfxGain = this.ctx.createGain();
+      this.sfxGain.gain.value = this.mix.sfx;
+      this.sfxGain.connect(this.masterGain);
     }
-    if (this.ctx.state === 'suspended') {
-      this.ctx.resume();
+    if (this.live?.state === 'suspended') {
+      this.live.resume();
     }
   }
 
   stop() {
-    if (this.ctx) {
-      // Ramp down to avoid popping
-      this.masterGain?.gain.setTargetAtTime(0, this.ctx.currentTime, 0.1);
-      
-      setTimeout(() => {
-        this.stopAmbience();
-        if (this.ctx?.state !== 'closed') {
-            this.ctx?.suspend();
-        }
-        this.currentAmbienceType = null;
-      }, 200);
-    }
+    if (!this.ctx || !this.masterGain) return;
+    // Ramp down to avoid popping
+    this.masterGain.gain.setTargetAtTime(0, this.ctx.currentTime, 0.1);
+    this.stopAmbience(0.2);
+    this.stopMusic(0.2);
+
+    if (this.stopTimer) clearTimeout(this.stopTimer);
+    this.stopTimer = setTimeout(() => {
+      this.stopTimer = null;
+      if (this.live && this.live.state !== 'closed') {
+        this.live.suspend();
+      }
+    }, 200);
   }
 
   resume() {
-      if (this.ctx && this.ctx.state === 'suspended') {
-          this.ctx.resume();
-          this.masterGain?.gain.setTargetAtTime(0.5, this.ctx.currentTime, 0.1);
-      }
+    if (!this.ctx || !this.masterGain) return;
+    if (this.stopTimer) {
+      clearTimeout(this.stopTimer);
+      this.stopTimer = null;
+    }
+    if (this.live?.state === 'suspended') {
+      this.live.resume();
+    }
+    this.masterGain.gain.setTargetAtTime(this.masterLevel, this.ctx.currentTime, 0.1);
   }
 
-  // Create a noise buffer (white noise)
-  createNoiseBuffer() {
-    if (!this.ctx) return null;
-    const bufferSize = 2 * this.ctx.sampleRate; // 2 seconds
-    const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
-    const data = buffer.getChannelData(0);
-    for (let i = 0; i < bufferSize; i++) {
-      data[i] = Math.random() * 2 - 1;
-    }
-    return buffer;
+  // Safe to call before init; the levels are applied when the graph is built
+  setMix(mix: AudioMix) {
+    this.mix = mix;
+    if (!this.ctx || !this.masterGain || !this.ambienceGain || !this.musicGain || !this.sfxGain) return;
+    const now = this.ctx.currentTime;
+    // Let a stop in progress finish fading out; resume() picks up the new level
+    if (this.stopTimer === null) this.masterGain.gain.setTargetAtTime(this.masterLevel, now, 0.05);
+    this.ambienceGain.gain.setTargetAtTime(mix.ambience, now, 0.05);
+    this.musicGain.gain.setTargetAtTime(mix.music, now, 0.05);
+    this.sfxGain.gain.setTargetAtTime(mix.sfx, now, 0.05);
+  }
+
+  // Pull the ambience down under a speaking voice, and bring it back afterwards
+  duck(active: boolean) {
+    if (!this.ctx || !this.duckGain) return;
+    this.duckGain.gain.setTargetAtTime(active ? 0.25 : 1, this.ctx.currentTime, 0.3);
   }
 
   playClick() {
     this.init();
-    if (!this.ctx || !this.masterGain) return;
-    
+    if (!this.ctx || !this.sfxGain) return;
+
     const osc = this.ctx.createOscillator();
     const gain = this.ctx.createGain();
-    
+
     osc.type = 'sine';
     osc.frequency.setValueAtTime(800, this.ctx.currentTime);
     osc.frequency.exponentialRampToValueAtTime(300, this.ctx.currentTime + 0.1);
-    
+
     gain.gain.setValueAtTime(0.1, this.ctx.currentTime);
     gain.gain.exponentialRampToValueAtTime(0.01, this.ctx.currentTime + 0.1);
-    
+
     osc.connect(gain);
-    gain.connect(this.masterGain);
-    
+    gain.connect(this.sfxGain);
+    osc.onended = () => gain.disconnect();
+
     osc.start();
     osc.stop(this.ctx.currentTime + 0.1);
   }
 
   playTransition() {
     this.init();
-    if (!this.ctx || !this.masterGain) return;
+    if (!this.ctx || !this.sfxGain) return;
 
     // Sci-fi Swoosh
-    const buffer = this.createNoiseBuffer();
-    if (!buffer) return;
-
     const source = this.ctx.createBufferSource();
-    source.buffer = buffer;
+    source.buffer = getNoiseBuffer(this.ctx, 'white');
 
     const filter = this.ctx.createBiquadFilter();
     filter.type = 'lowpass';
@@ -102,134 +162,60 @@ class AudioManager {
 
     source.connect(filter);
     filter.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(this.sfxGain);
+    source.onended = () => {
+      filter.disconnect();
+      gain.disconnect();
+    };
 
     source.start();
+    source.stop(this.ctx.currentTime + 2.0);
   }
 
-  stopAmbience() {
-      if (this.ambienceNode) {
-          try { this.ambienceNode.stop(); } catch(e) {}
-          this.ambienceNode = null;
-      }
-      if (this.lfo) {
-          try { this.lfo.stop(); } catch(e) {}
-          this.lfo = null;
-      }
+  // Fade the current soundscape out; it tears its own graph down once silent
+  stopAmbience(fade = CROSSFADE_SECONDS) {
+    this.soundscape?.fadeOut(fade);
+    this.soundscape = null;
+    this.currentAmbienceType = null;
   }
 
-  setAmbience(type: 'nature' | 'mechanical' | 'eerie' | 'calm' | 'chaos') {
+  // Same ambience: glide to the new parameters. New ambience: crossfade to it.
+  setAmbience(type: Ambience, params?: SoundscapeParams) {
     this.init();
     this.resume();
 
     if (!this.ctx || !this.ambienceGain) return;
-    if (this.currentAmbienceType === type) return;
+    if (this.currentAmbienceType === type) {
+      if (params) this.soundscape?.setParams(params);
+      return;
+    }
 
-    this.currentAmbienceType = type;
+    // Crossfade: the old soundscape fades out while the new one fades in
     this.stopAmbience();
+    this.currentAmbienceType = type;
+    const { layers } = AMBIENCE_REGISTRY[type] ?? AMBIENCE_REGISTRY.calm;
+    this.soundscape = new Soundscape(this.ctx, this.ambienceGain, layers, { params });
+    this.soundscape.fadeIn(CROSSFADE_SECONDS);
+  }
+
+  stopMusic(fade = CROSSFADE_SECONDS) {
+    this.music?.fadeOut(fade);
+    this.music = null;
+  }
+
+  // Music keeps playing across scenes and changes mood at the next bar line
+  setMusic(type: Ambience, tension?: number) {
+    this.init();
+    if (!this.ctx || !this.musicGain) return;
 
-    // Reset gain for new sound
-    this.ambienceGain.gain.cancelScheduledValues(this.ctx.currentTime);
-    this.ambienceGain.gain.setValueAtTime(0, this.ctx.currentTime);
-    this.ambienceGain.gain.linearRampToValueAtTime(0.3, this.ctx.currentTime + 2); // Fade in
-
-    if (type === 'mechanical') {
-        // Drone sound
-        const osc = this.ctx.createOscillator();
-        osc.type = 'sawtooth';
-        osc.frequency.value = 50; 
-
-        // LFO for throbbing effect
-        const lfo = this.ctx.createOscillator();
-        lfo.frequency.value = 0.5; // 0.5 Hz pulse
-        const lfoGain = this.ctx.createGain();
-        lfoGain.gain.value = 500; // Filter modulation depth
-
-        const filter = this.ctx.createBiquadFilter();
-        filter.type = 'lowpass';
-        filter.frequency.value = 200;
-
-        lfo.connect(lfoGain);
-        lfoGain.connect(filter.frequency);
-        osc.connect(filter);
-        filter.connect(this.ambienceGain);
-
-        osc.start();
-        lfo.start();
-        this.ambienceNode = osc;
-        this.lfo = lfo;
-        
-    } else if (type === 'eerie') {
-        // Dissonant Sine Waves
-        const osc1 = this.ctx.createOscillator();
-        osc1.type = 'sine';
-        osc1.frequency.value = 150;
-
-        const osc2 = this.ctx.createOscillator();
-        osc2.type = 'sine';
-        osc2.frequency.value = 154; // Slight detune causes beating
-
-        const gain = this.ctx.createGain();
-        gain.gain.value = 0.1;
-
-        osc1.connect(gain);
-        osc2.connect(gain);
-        gain.connect(this.ambienceGain);
-
-        osc1.start();
-        osc2.start();
-        // We just track one as the main node to stop, or we need a group. 
-        // For simplicity, we just use the first one as reference to stop, 
-        // but real implementation needs array. 
-        // Re-using stopAmbience to just disconnect the gain is easier.
-        this.ambienceNode = osc1; 
-        // Note: This simple implementation leaks osc2 if we don't track it, 
-        // but `stopAmbience` isn't fully robust for multi-osc. 
-        // For this demo, let's use a single noise source for eerie instead to be safe.
-        osc2.stop(this.ctx.currentTime + 600); // Failsafe
-    } else {
-        // Noise based (Nature, Chaos, Calm)
-        const buffer = this.createNoiseBuffer();
-        if (!buffer) return;
-
-        const source = this.ctx.createBufferSource();
-        source.buffer = buffer;
-        source.loop = true;
-
-        const filter = this.ctx.createBiquadFilter();
-
-        switch (type) {
-            case 'nature': // Wind
-                filter.type = 'bandpass';
-                filter.frequency.value = 400;
-                filter.Q.value = 0.5;
-                // Add LFO for wind sweeping
-                const lfo = this.ctx.createOscillator();
-                lfo.frequency.value = 0.1;
-                const lfoGain = this.ctx.createGain();
-                lfoGain.gain.value = 200;
-                lfo.connect(lfoGain);
-                lfoGain.connect(filter.frequency);
-                lfo.start();
-                this.lfo = lfo;
-                break;
-            case 'chaos': // Static/Harsh
-                filter.type = 'highpass';
-                filter.frequency.value = 1000;
-                break;
-            default: // Calm
-            case 'calm': // Brownish noise
-                filter.type = 'lowpass';
-                filter.frequency.value = 300;
-                break;
-        }
-
-        source.connect(filter);
-        filter.connect(this.ambienceGain);
-        source.start();
-        this.ambienceNode = source;
+    const mood = resolveMood((AMBIENCE_REGISTRY[type] ?? AMBIENCE_REGISTRY.calm).music, tension);
+    if (this.music) {
+      this.music.setMood(mood);
+      return;
     }
+    this.music = new MusicEngine(this.ctx, this.musicGain, mood);
+    this.music.fadeIn(CROSSFADE_SECONDS);
   }
 }
 
-export const audio = new AudioManager();
\ No newline at end of file
+export const audio = new AudioManager();
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { SceneData } from '../types';
+import { buildAdventureHtml } from './exportHtml';
+
+const scene = (id: string, parentId: string | null, options: string[], chosen?: string): SceneData => ({
+  id,
+  parentId,
+  narrative: `${id} narrative`,
+  visualPrompt: `${id} picture`,
+  ambience: 'storm',
+  options: options.map(label => ({ label, actionPrompt: label })),
+  ...(chosen ? { chosenOption: { label: chosen, actionPrompt: chosen } } : {}),
+});
+
+const HISTORY = [
+  scene('a', null, ['North', 'South']),
+  scene('b', 'a', [], 'North'),
+];
+
+const adventureData = (html: string) =>
+  JSON.parse(html.match(/<script id="adventure-data" type="application\/json">(.*?)<\/script>/s)![1]);
+
+describe('buildAdventureHtml', () => {
+  it('writes the player text in the adventure language', () => {
+    const html = buildAdventureHtml('Lighthouse', HISTORY, 'b', 'fr');
+    const data = adventureData(html);
+
+    expect(html).toContain('<html lang="fr" dir="ltr">');
+    expect(data.replayLabel).toBe("Fin de l'enregistrement · Rejouer");
+    expect(data.scenes.a.ambience).toBe('Tempête');
+    expect(data.scenes.a.options.map((option: { tag: string }) => option.tag)).toEqual([
+      'Option 01 · Chemin choisi',
+      'Option 02 · Impasse',
+    ]);
+  });
+
+  it('lays out right-to-left languages without hard-coded English or left alignment', () => {
+    const html = buildAdventureHtml('Lighthouse', HISTORY, 'b', 'ar');
+
+    expect(html).toContain('<html lang="ar" dir="rtl">');
+    expect(adventureData(html).scenes.a.options[1].tag).toBe('الخيار 02 · طريق مسدود');
+    expect(html).not.toMatch(/text-align: left|Chosen path|Dead end|End of recording/);
+  });
+});
@@ -0,0 +1,195 @@
+import { SceneData, Language } from '../types';
+import { getScenePath, getBranchOptions } from './storyTree';
+import { LANGUAGES, getTranslator, Translate } from './i18n';
+import { AMBIENCE_LABELS } from './ambience';
+
+// Standalone HTML export.
+// Produces a single self-contained file that replays an adventure offline: every scene,
+// image and option is embedded as JSON and a small inline player recreates the
+// cross-fade and typewriter presentation of GameCanvas. Player text is translated at
+// export time, in the adventure's language.
+
+interface ExportedScene {
+  id: string;
+  narrative: string;
+  imageUrl?: string;
+  altText?: string;
+  ambience: string; // Translated label
+  options: { label: string; tag: string; targetId: string | null; chosen: boolean }[];
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// JSON inside a <script> tag must not be able to close the tag early
+const toScriptJson = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+const buildScenes = (history: SceneData[], currentSceneId: string, t: Translate): { rootId: string; scenes: Record<string, ExportedScene> } => {
+  const path = getScenePath(history, currentSceneId);
+  const onPath = new Set(path.map(s => s.id));
+  const scenes: Record<string, ExportedScene> = {};
+
+  for (const scene of history) {
+    const children = history.filter(s => s.parentId === scene.id);
+    scenes[scene.id] = {
+      id: scene.id,
+      narrative: scene.narrative,
+      imageUrl: scene.imageUrl,
+      altText: scene.altText,
+      ambience: t(AMBIENCE_LABELS[scene.ambience]),
+      options: getBranchOptions(history, scene).map((option, idx) => {
+        const child = children.find(c =>
+          c.chosenOption?.label === option.label && c.chosenOption?.actionPrompt === option.actionPrompt
+        );
+        const chosen = !!child && onPath.has(child.id);
+        const kind = option.custom ? t('canvas.yourAction') : t('canvas.option', { number: idx + 1 });
+        const path = chosen ? t('export.chosen') : child ? t('export.alternate') : t('export.deadEnd');
+        return {
+          label: option.label,
+          tag: `${kind} · ${path}`,
+          targetId: child ? child.id : null, // null = never explored, a dead end in the replay
+          chosen,
+        };
+      }),
+    };
+  }
+
+  return { rootId: path[0].id, scenes };
+};
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  html, body { margin: 0; height: 100%; background: #050505; color: #e0e0e0; font-family: 'Rajdhani', 'Segoe UI', sans-serif; overflow: hidden; }
+  #stage { position: fixed; inset: 0; }
+  .layer { position: absolute; inset: 0; background: #000; }
+  .layer img { width: 100%; height: 100%; object-fit: cover; animation: pan-image 20s ease-in-out infinite alternate; }
+  .layer::after { content: ''; position: absolute; inset: 0; background: linear-gradient(to top, #000, transparent 60%); opacity: 0.8; }
+  .enter { animation: crossfade-in 2s cubic-bezier(0.2, 0.8, 0.2, 1) forwards; }
+  @keyframes crossfade-in { 0% { opacity: 0; filter: blur(8px); transform: scale(1.1); } 100% { opacity: 1; filter: blur(0); transform: scale(1); } }
+  @keyframes pan-image { 0% { transform: scale(1) translate(0, 0); } 100% { transform: scale(1.15) translate(-3%, -3%); } }
+  header { position: fixed; top: 0; left: 0; right: 0; z-index: 20; display: flex; justify-content: space-between; align-items: center; padding: 16px 24px; background: rgba(0,0,0,0.5); }
+  header h1 { margin: 0; font-size: 18px; letter-spacing: 0.2em; background: linear-gradient(to right, #22d3ee, #9333ea); -webkit-background-clip: text; background-clip: text; color: transparent; }
+  header span { font-family: monospace; font-size: 11px; letter-spacing: 0.2em; text-transform: uppercase; color: #67e8f9; }
+  button { font: inherit; }
+  .ui { position: absolute; bottom: 0; left: 0; right: 0; z-index: 10; padding: 24px; transition: opacity 1s, transform 1s; }
+  .ui.hidden { opacity: 0; transform: translateY(32px); }
+  .panel { max-width: 56rem; margin: 0 auto; }
+  .story { position: relative; padding: 24px; background: rgba(0,0,0,0.6); border: 1px solid rgba(255,255,255,0.1); border-bottom: 0; border-radius: 8px 8px 0 0; backdrop-filter: blur(16px); font-size: clamp(18px, 2.5vw, 28px); font-weight: 500; min-height: 4rem; }
+  .story::before { content: ''; position: absolute; inset-inline-start: 0; top: 0; bottom: 0; width: 4px; background: #06b6d4; box-shadow: 0 0 15px rgba(6,182,212,0.5); }
+  .options { display: grid; grid-template-columns: repeat(auto-fit, minmax(240px, 1fr)); gap: 12px; padding: 16px; background: rgba(0,0,0,0.8); border: 1px solid rgba(255,255,255,0.1); border-radius: 0 0 8px 8px; transition: opacity 0.5s; }
+  .options.hidden { opacity: 0; pointer-events: none; }
+  .option { text-align: start; padding: 14px 20px; border: 1px solid rgba(255,255,255,0.1); background: rgba(255,255,255,0.05); color: #f3f4f6; border-radius: 4px; cursor: pointer; transition: all 0.3s; }
+  .option:hover:not(:disabled) { border-color: rgba(34,211,238,0.6); background: rgba(22,78,99,0.3); }
+  .option small { display: block; font-size: 11px; letter-spacing: 0.1em; text-transform: uppercase; color: #22d3ee; opacity: 0.8; margin-bottom: 4px; }
+  .option strong { font-size: 18px; }
+  .option.chosen { border-color: #22d3ee; box-shadow: 0 0 20px rgba(6,182,212,0.35); }
+  .option.dead { opacity: 0.35; cursor: not-allowed; text-decoration: line-through; }
+  .option.dead small { color: #f87171; }
+  .end { grid-column: 1 / -1; text-align: center; font-family: monospace; letter-spacing: 0.3em; text-transform: uppercase; color: #67e8f9; }
+`;
+
+const PLAYER_SCRIPT = `
+(function () {
+  var data = JSON.parse(document.getElementById('adventure-data').textContent);
+  var stage = document.getElementById('stage');
+  var ui = document.getElementById('ui');
+  var story = document.getElementById('story');
+  var options = document.getElementById('options');
+  var ambienceLabel = document.getElementById('ambience');
+  var timers = [];
+
+  function clearTimers() { timers.forEach(function (t) { clearTimeout(t); clearInterval(t); }); timers = []; }
+
+  function typewrite(text, done) {
+    var i = 0;
+    story.textContent = '';
+    var id = setInterval(function () {
+      if (i < text.length) { story.textContent = text.slice(0, ++i); }
+      else { clearInterval(id); done(); }
+    }, 30);
+    timers.push(id);
+  }
+
+  function renderOptions(scene) {
+    options.innerHTML = '';
+    scene.options.forEach(function (option) {
+      var btn = document.createElement('button');
+      btn.className = 'option' + (option.chosen ? ' chosen' : '') + (option.targetId ? '' : ' dead');
+      var tag = document.createElement('small');
+      tag.textContent = option.tag;
+      var label = document.createElement('strong');
+      label.textContent = option.label;
+      btn.appendChild(tag);
+      btn.appendChild(label);
+      if (option.targetId) { btn.onclick = function () { show(option.targetId); }; } else { btn.disabled = true; }
+      options.appendChild(btn);
+    });
+    if (!scene.options.some(function (o) { return o.targetId; })) {
+      var end = document.createElement('button');
+      end.className = 'option end';
+      end.textContent = data.replayLabel;
+      end.onclick = function () { show(data.rootId); };
+      options.appendChild(end);
+    }
+  }
+
+  function show(id) {
+    var scene = data.scenes[id];
+    clearTimers();
+    ambienceLabel.textContent = scene.ambience;
+
+    var layer = document.createElement('div');
+    layer.className = 'layer enter';
+    if (scene.imageUrl) {
+      var img = document.createElement('img');
+      img.src = scene.imageUrl;
+      img.alt = scene.altText || '';
+      layer.appendChild(img);
+    }
+    stage.appendChild(layer);
+    // Drop older layers once the cross-fade has finished
+    timers.push(setTimeout(function () {
+      while (stage.children.length > 1) stage.removeChild(stage.firstChild);
+    }, 2500));
+
+    ui.classList.add('hidden');
+    options.classList.add('hidden');
+    story.textContent = '';
+    timers.push(setTimeout(function () {
+      ui.classList.remove('hidden');
+      renderOptions(scene);
+      typewrite(scene.narrative, function () { options.classList.remove('hidden'); });
+    }, 2000));
+  }
+
+  show(data.rootId);
+})();
+`;
+
+export const buildAdventureHtml = (title: string, history: SceneData[], currentSceneId: string, language: Language = 'en'): string => {
+  const t = getTranslator(language);
+  const data = { ...buildScenes(history, currentSceneId, t), replayLabel: t('export.replay') };
+
+  return `<!DOCTYPE html>
+<html lang="${language}" dir="${LANGUAGES[language].dir}">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHtml(title)} · DreamStream</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header><h1>DREAMSTREAM</h1><span>${escapeHtml(title)} · <span id="ambience"></span></span></header>
+<div id="stage"></div>
+<div id="ui" class="ui hidden">
+  <div class="panel">
+    <div id="story" class="story"></div>
+    <div id="options" class="options hidden"></div>
+  </div>
+</div>
+<script id="adventure-data" type="application/json">${toScriptJson(data)}</script>
+<script>${PLAYER_SCRIPT}</script>
+</body>
+</html>
+`;
+};
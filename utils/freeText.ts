@@ -0,0 +1,25 @@
+import { ActionOption } from '../types';
+
+// Typed player actions. The text is the player's own, so it is cleaned up and
+// wrapped in an in-world framing before it reaches the story model.
+
+export const MAX_FREE_TEXT_LENGTH = 120;
+
+const cleanFreeText = (text: string) =>
+  text
+    .replace(/[\u0000-\u001f\u007f]/g, ' ') // Control characters, including newlines
+    .replace(/[{}<>`]/g, '') // Markup and template syntax has no place in an action
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_FREE_TEXT_LENGTH);
+
+export const createCustomAction = (text: string): ActionOption | null => {
+  const action = cleanFreeText(text);
+  if (!action) return null;
+  return {
+    label: action,
+    actionPrompt: `The player attempts, in their own words: "${action.replace(/"/g, "'")}". `
+      + 'Resolve this as an action inside the story world.',
+    custom: true,
+  };
+};
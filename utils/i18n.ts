@@ -0,0 +1,1542 @@
+import { Language } from '../types';
+
+// UI strings and language metadata.
+// English is the reference catalog; every other language must translate every key,
+// which the Messages type enforces. Parameters are written as {name}.
+
+export interface LanguageInfo {
+  name: string; // Native name, shown in the picker
+  english: string; // Name given to the story model
+  dir: 'ltr' | 'rtl';
+}
+
+export const LANGUAGES: Record<Language, LanguageInfo> = {
+  en: { name: 'English', english: 'English', dir: 'ltr' },
+  es: { name: 'Español', english: 'Spanish', dir: 'ltr' },
+  fr: { name: 'Français', english: 'French', dir: 'ltr' },
+  de: { name: 'Deutsch', english: 'German', dir: 'ltr' },
+  ja: { name: '日本語', english: 'Japanese', dir: 'ltr' },
+  ar: { name: 'العربية', english: 'Arabic', dir: 'rtl' },
+};
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && Object.hasOwn(LANGUAGES, value);
+
+// Best match for the browser's preferred languages, English otherwise
+export const detectLanguage = (): Language => {
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  for (const tag of preferred) {
+    const base = tag?.split('-')[0].toLowerCase();
+    if (isLanguage(base)) return base;
+  }
+  return 'en';
+};
+
+const en = {
+  'app.settings': 'Settings',
+  'app.abort': 'Abort Sim',
+  'app.tagline': 'Visual Narrative Engine v2.5',
+  'app.offlineMode': 'Offline Mode · Procedural Dreams',
+  'app.intro': 'Input a starting scenario. The AI will generate a visual world, ambient audio, and twist-filled storyline.',
+  'app.placeholder': 'Ex: Waking up in a falling airplane...',
+  'app.start': 'Initialize Simulation',
+  'app.import': 'Import Twine / Ink Story',
+  'app.worlds': 'Edit Worlds',
+  'app.importFailed': 'Could not import {file}:\n{details}',
+  'app.importUnreadable': 'The file could not be read.',
+  'app.resumeFailed': 'Could not restore that adventure. The save may be damaged.',
+  'app.replayCassette': 'Replay Cassette',
+  'app.saveCassette': 'Save Cassette',
+  'app.replayNext': 'Next Choice {step}/{total}',
+  'app.cassetteFailed': 'Could not load cassette {file}:\n{details}',
+  'quick.detective': 'Cyberpunk Detective',
+  'quick.forest': 'Lost in a Magic Forest',
+  'quick.zombie': 'Zombie Apocalypse Mall',
+  'quick.mars': 'Mars Colony Escape',
+  'world.noir.hook': 'Midnight in my neon-lit office: a stranger with a chrome arm slides me a photo of a man who died yesterday.',
+  'world.forest.hook': 'The path behind me vanishes, and a fox in a tiny waistcoat asks if I am the one the trees have been waiting for.',
+  'world.zombie.hook': 'The mall lights flicker back on after closing time, and something is scratching at the shutter of the shop where I hide.',
+  'world.mars.hook': 'Alarms wake me in the Mars colony: the dome is leaking air and the last shuttle leaves in ten minutes.',
+  'worlds.title': 'Worlds',
+  'worlds.new': 'New World',
+  'worlds.copy': 'Copy built-in…',
+  'worlds.copyLabel': 'Copy a built-in world',
+  'worlds.copyName': '{name} (copy)',
+  'worlds.import': 'Import JSON',
+  'worlds.export': 'Export JSON',
+  'worlds.empty': 'No worlds of your own yet. Start a new one, copy a built-in world, or import a file someone shared.',
+  'worlds.untitled': 'Untitled World',
+  'worlds.remove': 'Remove {name}',
+  'worlds.name': 'Name',
+  'worlds.genre': 'Genre',
+  'worlds.genrePlaceholder': 'A sunken city of clockwork mermaids and smugglers',
+  'worlds.ambience': 'Ambience',
+  'worlds.hook': 'Opening Hook',
+  'worlds.hookPlaceholder': 'Leave empty to write the opening on the start screen',
+  'worlds.englishHint': 'Genre and art style are read by the models; write them in English for the best results.',
+  'worlds.error.json': 'The file is not valid JSON.',
+  'worlds.error.version': 'Unsupported worlds file version {version}.',
+  'worlds.error.empty': 'The file has no worlds in it.',
+  'worlds.error.notObject': 'World {number} is not an object.',
+  'worlds.error.tone': 'World {number} has an unknown tone "{tone}".',
+  'worlds.error.ambience': 'World {number} has an unknown ambience "{ambience}".',
+  'ambience.nature': 'Nature',
+  'ambience.mechanical': 'Mechanical',
+  'ambience.eerie': 'Eerie',
+  'ambience.calm': 'Calm',
+  'ambience.chaos': 'Chaos',
+  'ambience.underwater': 'Underwater',
+  'ambience.city': 'City',
+  'ambience.storm': 'Storm',
+  'ambience.cave': 'Cave',
+  'ambience.space': 'Space',
+  'ambience.fire': 'Fire',
+  'loading.init': 'Initializing Neural Dream Engine...',
+  'loading.narrative': 'Weaving the Narrative...',
+  'loading.choosing': 'Choosing path: {label}...',
+  'loading.logic': 'Unfolding Destiny...',
+  'loading.image': 'Rendering Reality...',
+  'export.button': 'Export',
+  'export.html': 'Playable HTML',
+  'export.chosen': 'Chosen path',
+  'export.alternate': 'Alternate path',
+  'export.deadEnd': 'Dead end',
+  'export.replay': 'End of recording · Replay',
+  'saved.heading': 'Continue',
+  'saved.resume': 'Continue {title}',
+  'saved.scene': '{count} scene',
+  'saved.scenes': '{count} scenes',
+  'saved.rename': 'Rename',
+  'saved.copy': 'Copy',
+  'saved.delete': 'Delete',
+  'saved.confirmDelete': 'Delete "{title}"?',
+  'saved.failed': 'Could not update your saved adventures. Browser storage may be full or blocked.',
+  'canvas.awaiting': 'Awaiting Visual Input...',
+  'canvas.rendering': 'Rendering visual...',
+  'canvas.retryImage': '{reason} · Retry',
+  'canvas.rewind': 'Rewind',
+  'canvas.bible': 'Bible',
+  'canvas.memory': 'Memory',
+  'canvas.inspector': 'Inspector',
+  'canvas.option': 'Option 0{number}',
+  'canvas.yourAction': 'Your action',
+  'canvas.explored': 'Explored',
+  'canvas.requires': 'Requires {item}',
+  'canvas.options': 'Choose what to do. Press a number key to pick an option.',
+  'canvas.freeText': 'Do something else...',
+  'canvas.freeTextLabel': 'Type your own action',
+  'canvas.act': 'Act',
+  'image.failed': 'Visual failed',
+  'image.quota': 'Rate limited',
+  'image.safety': 'Visual blocked',
+  'image.no-image': 'No visual returned',
+  'image.network': 'Connection lost',
+  'image.timeout': 'Visual timed out',
+  'hud.vitality': 'Vitality',
+  'hud.health': 'Health',
+  'hud.inventory': 'Inventory',
+  'ending.victory': 'VICTORY',
+  'ending.lost': 'SIGNAL LOST',
+  'ending.victorySubtitle': 'The dream resolves',
+  'ending.lostSubtitle': 'You did not survive the dream',
+  'ending.scenes': 'Scenes',
+  'ending.items': 'Items',
+  'ending.carried': 'Carried: {items}',
+  'ending.newAdventure': 'New Adventure',
+  'error.retry': 'Retry Same Action',
+  'error.dismiss': 'Reboot System',
+  'error.quota.title': 'RATE LIMITED',
+  'error.quota.hint': 'The model quota is exhausted for now. Wait a minute before retrying, or switch to Offline mode in Settings.',
+  'error.safety.title': 'SCENE BLOCKED',
+  'error.safety.hint': 'The safety filters rejected this turn. Retrying may produce a different scene, or pick another path.',
+  'error.malformed.title': 'CORRUPTED SIGNAL',
+  'error.malformed.hint': 'The model answered with something that is not a valid scene. Retrying usually fixes this.',
+  'error.no-image.title': 'NO IMAGE',
+  'error.no-image.hint': 'The image model replied without a picture. Retry to render the scene again.',
+  'error.network.title': 'CONNECTION LOST',
+  'error.network.hint': 'The dream stream could not be reached. Check your connection, then retry.',
+  'error.timeout.title': 'TIMED OUT',
+  'error.timeout.hint': 'The model took too long to answer. Retry, or raise the timeout in Settings.',
+  'error.aborted.title': 'CANCELLED',
+  'error.aborted.hint': 'The request was cancelled before it finished.',
+  'error.unknown.title': 'CRITICAL ERROR',
+  'error.unknown.hint': '',
+  'panel.close': 'Close',
+  'panel.turn': 'Turn {number}',
+  'settings.engine': 'Story Engine',
+  'settings.provider.auto': 'Auto',
+  'settings.provider.autoHint': 'Gemini when an API key is set, offline otherwise.',
+  'settings.provider.gemini': 'Gemini',
+  'settings.provider.geminiHint': 'Live story and image generation. Requires an API key.',
+  'settings.provider.offline': 'Offline',
+  'settings.provider.offlineHint': 'Deterministic procedural scenes and placeholder art. No network.',
+  'settings.active': 'Active:',
+  'settings.envProvider': '(set by DREAMSTREAM_PROVIDER)',
+  'settings.noApiKey': '(no API key, using offline)',
+  'settings.style': 'Story Style',
+  'settings.language': 'Language',
+  'settings.readingLevel': 'Reading level',
+  'settings.reading.simple': 'Simple (young readers)',
+  'settings.reading.standard': 'Standard',
+  'settings.reading.advanced': 'Literary',
+  'settings.length': 'Scene length',
+  'settings.length.short': 'Short',
+  'settings.length.medium': 'Medium',
+  'settings.length.long': 'Long',
+  'settings.tone': 'Tone',
+  'tone.balanced': 'Mysterious',
+  'tone.lighthearted': 'Lighthearted',
+  'tone.dark': 'Dark',
+  'tone.humorous': 'Funny',
+  'settings.styleHint': 'Applies to new Gemini scenes; language also sets the interface. Adventures stay in the language they were started in. Offline and imported stories keep their own text.',
+  'settings.content': 'Content',
+  'settings.rating.kids': 'Kids',
+  'settings.rating.kidsHint': 'Mild peril only. No death, blood, weapons or crude language.',
+  'settings.rating.teen': 'Teen',
+  'settings.rating.teenHint': 'Action and danger, no gore, torture or sexual content.',
+  'settings.rating.mature': 'Mature',
+  'settings.rating.matureHint': 'Darker themes and violence, never gratuitous.',
+  'settings.blocklist': 'Extra blocked words',
+  'settings.blocklistPlaceholder': 'Comma or newline separated. End a word with * to block every ending.',
+  'settings.blocklistHint': 'Scenes using a blocked word are regenerated once, then the turn is blocked. Imported story passages are blocked right away. The built-in lists are English.',
+  'settings.removeLock': 'Remove parental lock',
+  'settings.pin': 'PIN',
+  'settings.newPin': 'New PIN ({count}+ characters)',
+  'settings.pinLabel': 'Parental PIN',
+  'settings.newPinLabel': 'New parental PIN',
+  'settings.unlock': 'Unlock',
+  'settings.lock': 'Lock',
+  'settings.locked': 'Locked: enter the PIN to change content and gameplay settings.',
+  'settings.lockHint': 'A parental lock guards the rating, blocked words and typed actions.',
+  'settings.wrongPin': 'Wrong PIN.',
+  'settings.pinUnavailable': 'The parental lock needs a secure (HTTPS) connection and cannot be used here.',
+  'settings.freeText': 'Let players type their own actions',
+  'settings.freeTextHint': 'Turn off for guided or kids play: only the offered options can be picked. Imported stories never accept typed actions.',
+  'settings.audio': 'Audio',
+  'settings.mute': 'Mute all sound',
+  'settings.volume.master': 'Master',
+  'settings.volume.ambience': 'Ambience',
+  'settings.volume.music': 'Music',
+  'settings.volume.sfx': 'Effects',
+  'settings.motion': 'Text & Motion',
+  'settings.instantText': 'Show text instantly',
+  'settings.reducedMotion': 'Reduce motion',
+  'settings.textSpeed': 'Text speed · {ms} ms/letter',
+  'settings.transition': 'Transition · {seconds}s',
+  'settings.motionHint': 'Reduced motion stops the slow pan over scene images and the floating particles on the title screen. It is always on when your system asks for reduced motion.',
+  'settings.narration': 'Narration',
+  'settings.narrate': 'Read each scene aloud',
+  'settings.voice': 'Voice',
+  'settings.defaultVoice': 'Browser default',
+  'settings.narrationRate': 'Speed · {rate}x',
+  'settings.preview': 'Preview',
+  'settings.previewLine': 'The dream stream is listening.',
+  'settings.narrationHint': 'Words are highlighted as they are spoken and the ambience quiets down under the voice.',
+  'settings.noSpeech': 'This browser has no speech synthesis.',
+  'settings.prefetching': 'Prefetching',
+  'settings.prefetch': 'Generate upcoming scenes in the background',
+  'settings.concurrency': 'Parallel requests',
+  'settings.costCap': 'Max per adventure',
+  'settings.prefetchHint': 'Each prefetched scene costs a full story and image generation, even if that option is never picked.',
+  'settings.network': 'Network',
+  'settings.retries': 'Retries',
+  'settings.timeout': 'Timeout (seconds)',
+  'settings.networkHint': 'Rate limits, timeouts and dropped connections are retried with increasing delays before giving up.',
+  'settings.developer': 'Developer',
+  'settings.record': 'Record sessions to cassettes',
+  'settings.recordHint': 'New adventures record every model request and response with your choices. Save the cassette from the header while playing, and replay one from the start screen without network.',
+  'settings.drift': 'Model Drift',
+  'settings.noDrift': 'No model scenes checked yet.',
+  'settings.driftSummary': '{drifted} of {total} scenes broke the scene rules ({repaired} repaired, {reprompted} re-prompted, {failed} failed).',
+  'settings.reset': 'Reset',
+  'tree.title': 'Story Paths',
+  'bible.title': 'Visual Bible',
+  'bible.artStyle': 'Art Style',
+  'bible.reference': "Use the previous scene's image as a reference",
+  'bible.character': 'Character',
+  'bible.location': 'Location',
+  'bible.name': 'Name',
+  'bible.remove': 'Remove {name}',
+  'bible.entry': 'entry',
+  'bible.appearance': 'Appearance: colors, clothing, shapes...',
+  'bible.locked': 'Locked',
+  'bible.add': 'Add Entry',
+  'memory.title': 'Memory Sent Per Turn',
+  'memory.typed': 'typed:',
+  'memory.tokens': '~{count} tokens',
+  'memory.notRecorded': '(not recorded for this scene)',
+  'inspector.title': 'Model Calls',
+  'inspector.export': 'Export JSON',
+  'inspector.clear': 'Clear',
+  'inspector.session': 'Session',
+  'inspector.summary': '{calls} calls · {prompt} in / {response} out tokens · {latency} · {retries} retries',
+  'inspector.failed': '{count} failed',
+  'inspector.attempts': '{count} attempts',
+  'inspector.tokens': '{count} tokens',
+  'inspector.system': 'System instruction',
+  'inspector.prompt': 'Prompt',
+  'inspector.response': 'Response',
+  'inspector.noResponse': '(no response)',
+  'inspector.noCalls': '(no model calls recorded)',
+  'inspector.unplayed': 'Unplayed prefetches and failed turns',
+};
+
+export type MessageKey = keyof typeof en;
+type Messages = Record<MessageKey, string>;
+
+const es: Messages = {
+  'app.settings': 'Ajustes',
+  'app.abort': 'Abortar',
+  'app.tagline': 'Motor de narrativa visual v2.5',
+  'app.offlineMode': 'Modo sin conexión · Sueños procedurales',
+  'app.intro': 'Escribe un escenario inicial. La IA creará un mundo visual, sonido ambiente y una historia llena de giros.',
+  'app.placeholder': 'Ej.: Despertar en un avión que cae...',
+  'app.start': 'Iniciar simulación',
+  'app.import': 'Importar historia de Twine / Ink',
+  'app.worlds': 'Editar mundos',
+  'app.importFailed': 'No se pudo importar {file}:\n{details}',
+  'app.importUnreadable': 'No se pudo leer el archivo.',
+  'app.resumeFailed': 'No se pudo restaurar esa aventura. Puede que la partida esté dañada.',
+  'app.replayCassette': 'Reproducir casete',
+  'app.saveCassette': 'Guardar casete',
+  'app.replayNext': 'Siguiente elección {step}/{total}',
+  'app.cassetteFailed': 'No se pudo cargar el casete {file}:\n{details}',
+  'quick.detective': 'Detective cyberpunk',
+  'quick.forest': 'Perdido en un bosque mágico',
+  'quick.zombie': 'Centro comercial zombi',
+  'quick.mars': 'Huida de la colonia de Marte',
+  'world.noir.hook': 'Medianoche en mi oficina de neón: una desconocida con un brazo cromado me desliza la foto de un hombre que murió ayer.',
+  'world.forest.hook': 'El camino desaparece a mi espalda y un zorro con un chaleco diminuto me pregunta si soy a quien esperaban los árboles.',
+  'world.zombie.hook': 'Las luces del centro comercial vuelven a encenderse tras el cierre y algo araña la persiana de la tienda donde me escondo.',
+  'world.mars.hook': 'Las alarmas me despiertan en la colonia de Marte: la cúpula pierde aire y la última lanzadera sale en diez minutos.',
+  'worlds.title': 'Mundos',
+  'worlds.new': 'Nuevo mundo',
+  'worlds.copy': 'Copiar uno integrado…',
+  'worlds.copyLabel': 'Copiar un mundo integrado',
+  'worlds.copyName': '{name} (copia)',
+  'worlds.import': 'Importar JSON',
+  'worlds.export': 'Exportar JSON',
+  'worlds.empty': 'Aún no tienes mundos propios. Crea uno nuevo, copia un mundo integrado o importa un archivo que alguien haya compartido.',
+  'worlds.untitled': 'Mundo sin título',
+  'worlds.remove': 'Eliminar {name}',
+  'worlds.name': 'Nombre',
+  'worlds.genre': 'Género',
+  'worlds.genrePlaceholder': 'Una ciudad hundida de sirenas de relojería y contrabandistas',
+  'worlds.ambience': 'Ambiente',
+  'worlds.hook': 'Gancho inicial',
+  'worlds.hookPlaceholder': 'Déjalo vacío para escribir el inicio en la pantalla de inicio',
+  'worlds.englishHint': 'Los modelos leen el género y el estilo artístico; escríbelos en inglés para obtener mejores resultados.',
+  'worlds.error.json': 'El archivo no es un JSON válido.',
+  'worlds.error.version': 'Versión de archivo de mundos no compatible: {version}.',
+  'worlds.error.empty': 'El archivo no contiene ningún mundo.',
+  'worlds.error.notObject': 'El mundo {number} no es un objeto.',
+  'worlds.error.tone': 'El mundo {number} tiene un tono desconocido "{tone}".',
+  'worlds.error.ambience': 'El mundo {number} tiene un ambiente desconocido "{ambience}".',
+  'ambience.nature': 'Naturaleza',
+  'ambience.mechanical': 'Mecánico',
+  'ambience.eerie': 'Inquietante',
+  'ambience.calm': 'Tranquilo',
+  'ambience.chaos': 'Caos',
+  'ambience.underwater': 'Submarino',
+  'ambience.city': 'Ciudad',
+  'ambience.storm': 'Tormenta',
+  'ambience.cave': 'Cueva',
+  'ambience.space': 'Espacio',
+  'ambience.fire': 'Fuego',
+  'loading.init': 'Iniciando el motor de sueños...',
+  'loading.narrative': 'Tejiendo la historia...',
+  'loading.choosing': 'Eligiendo camino: {label}...',
+  'loading.logic': 'Desplegando el destino...',
+  'loading.image': 'Renderizando la realidad...',
+  'export.button': 'Exportar',
+  'export.html': 'HTML jugable',
+  'export.chosen': 'Camino elegido',
+  'export.alternate': 'Camino alternativo',
+  'export.deadEnd': 'Callejón sin salida',
+  'export.replay': 'Fin de la grabación · Repetir',
+  'saved.heading': 'Continuar',
+  'saved.resume': 'Continuar {title}',
+  'saved.scene': '{count} escena',
+  'saved.scenes': '{count} escenas',
+  'saved.rename': 'Renombrar',
+  'saved.copy': 'Copiar',
+  'saved.delete': 'Borrar',
+  'saved.confirmDelete': '¿Borrar "{title}"?',
+  'saved.failed': 'No se pudieron actualizar tus aventuras guardadas. Puede que el almacenamiento del navegador esté lleno o bloqueado.',
+  'canvas.awaiting': 'Esperando la imagen...',
+  'canvas.rendering': 'Generando imagen...',
+  'canvas.retryImage': '{reason} · Reintentar',
+  'canvas.rewind': 'Rebobinar',
+  'canvas.bible': 'Biblia',
+  'canvas.memory': 'Memoria',
+  'canvas.inspector': 'Inspector',
+  'canvas.option': 'Opción 0{number}',
+  'canvas.yourAction': 'Tu acción',
+  'canvas.explored': 'Explorada',
+  'canvas.requires': 'Requiere {item}',
+  'canvas.options': 'Elige qué hacer. Pulsa una tecla numérica para elegir una opción.',
+  'canvas.freeText': 'Hacer otra cosa...',
+  'canvas.freeTextLabel': 'Escribe tu propia acción',
+  'canvas.act': 'Actuar',
+  'image.failed': 'La imagen falló',
+  'image.quota': 'Límite alcanzado',
+  'image.safety': 'Imagen bloqueada',
+  'image.no-image': 'Sin imagen',
+  'image.network': 'Conexión perdida',
+  'image.timeout': 'Tiempo agotado',
+  'hud.vitality': 'Vitalidad',
+  'hud.health': 'Salud',
+  'hud.inventory': 'Inventario',
+  'ending.victory': 'VICTORIA',
+  'ending.lost': 'SEÑAL PERDIDA',
+  'ending.victorySubtitle': 'El sueño se resuelve',
+  'ending.lostSubtitle': 'No sobreviviste al sueño',
+  'ending.scenes': 'Escenas',
+  'ending.items': 'Objetos',
+  'ending.carried': 'Llevabas: {items}',
+  'ending.newAdventure': 'Nueva aventura',
+  'error.retry': 'Reintentar la misma acción',
+  'error.dismiss': 'Reiniciar sistema',
+  'error.quota.title': 'LÍMITE ALCANZADO',
+  'error.quota.hint': 'La cuota del modelo se ha agotado por ahora. Espera un minuto antes de reintentar o cambia al modo sin conexión en Ajustes.',
+  'error.safety.title': 'ESCENA BLOQUEADA',
+  'error.safety.hint': 'Los filtros de seguridad rechazaron este turno. Reintentar puede dar otra escena, o elige otro camino.',
+  'error.malformed.title': 'SEÑAL CORRUPTA',
+  'error.malformed.hint': 'El modelo respondió algo que no es una escena válida. Reintentar suele solucionarlo.',
+  'error.no-image.title': 'SIN IMAGEN',
+  'error.no-image.hint': 'El modelo de imagen respondió sin una imagen. Reintenta para generar la escena de nuevo.',
+  'error.network.title': 'CONEXIÓN PERDIDA',
+  'error.network.hint': 'No se pudo conectar. Revisa tu conexión y vuelve a intentarlo.',
+  'error.timeout.title': 'TIEMPO AGOTADO',
+  'error.timeout.hint': 'El modelo tardó demasiado en responder. Reintenta o aumenta el tiempo de espera en Ajustes.',
+  'error.aborted.title': 'CANCELADO',
+  'error.aborted.hint': 'La solicitud se canceló antes de terminar.',
+  'error.unknown.title': 'ERROR CRÍTICO',
+  'error.unknown.hint': '',
+  'panel.close': 'Cerrar',
+  'panel.turn': 'Turno {number}',
+  'settings.engine': 'Motor de historia',
+  'settings.provider.auto': 'Automático',
+  'settings.provider.autoHint': 'Gemini si hay una clave de API, sin conexión si no.',
+  'settings.provider.gemini': 'Gemini',
+  'settings.provider.geminiHint': 'Historia e imágenes generadas en vivo. Requiere una clave de API.',
+  'settings.provider.offline': 'Sin conexión',
+  'settings.provider.offlineHint': 'Escenas procedurales deterministas e ilustraciones provisionales. Sin red.',
+  'settings.active': 'Activo:',
+  'settings.envProvider': '(fijado por DREAMSTREAM_PROVIDER)',
+  'settings.noApiKey': '(sin clave de API, usando el modo sin conexión)',
+  'settings.style': 'Estilo de la historia',
+  'settings.language': 'Idioma',
+  'settings.readingLevel': 'Nivel de lectura',
+  'settings.reading.simple': 'Sencillo (lectores jóvenes)',
+  'settings.reading.standard': 'Estándar',
+  'settings.reading.advanced': 'Literario',
+  'settings.length': 'Longitud de escena',
+  'settings.length.short': 'Corta',
+  'settings.length.medium': 'Media',
+  'settings.length.long': 'Larga',
+  'settings.tone': 'Tono',
+  'tone.balanced': 'Misterioso',
+  'tone.lighthearted': 'Desenfadado',
+  'tone.dark': 'Oscuro',
+  'tone.humorous': 'Divertido',
+  'settings.styleHint': 'Se aplica a las nuevas escenas de Gemini; el idioma también cambia la interfaz. Las aventuras siguen en el idioma en que empezaron. Las historias sin conexión e importadas conservan su propio texto.',
+  'settings.content': 'Contenido',
+  'settings.rating.kids': 'Infantil',
+  'settings.rating.kidsHint': 'Solo peligros leves. Sin muerte, sangre, armas ni lenguaje soez.',
+  'settings.rating.teen': 'Adolescente',
+  'settings.rating.teenHint': 'Acción y peligro, sin vísceras, tortura ni contenido sexual.',
+  'settings.rating.mature': 'Adulto',
+  'settings.rating.matureHint': 'Temas más oscuros y violencia, nunca gratuita.',
+  'settings.blocklist': 'Palabras bloqueadas adicionales',
+  'settings.blocklistPlaceholder': 'Separadas por comas o saltos de línea. Termina una palabra con * para bloquear todas sus terminaciones.',
+  'settings.blocklistHint': 'Las escenas con una palabra bloqueada se regeneran una vez y después el turno se bloquea. Los pasajes de historias importadas se bloquean directamente. Las listas integradas están en inglés.',
+  'settings.removeLock': 'Quitar el control parental',
+  'settings.pin': 'PIN',
+  'settings.newPin': 'PIN nuevo ({count}+ caracteres)',
+  'settings.pinLabel': 'PIN parental',
+  'settings.newPinLabel': 'PIN parental nuevo',
+  'settings.unlock': 'Desbloquear',
+  'settings.lock': 'Bloquear',
+  'settings.locked': 'Bloqueado: introduce el PIN para cambiar el contenido y la jugabilidad.',
+  'settings.lockHint': 'El control parental protege la clasificación, las palabras bloqueadas y las acciones escritas.',
+  'settings.wrongPin': 'PIN incorrecto.',
+  'settings.pinUnavailable': 'El control parental necesita una conexión segura (HTTPS) y no se puede usar aquí.',
+  'settings.freeText': 'Permitir que los jugadores escriban sus propias acciones',
+  'settings.freeTextHint': 'Desactívalo para partidas guiadas o infantiles: solo se pueden elegir las opciones ofrecidas. Las historias importadas nunca aceptan acciones escritas.',
+  'settings.audio': 'Audio',
+  'settings.mute': 'Silenciar todo',
+  'settings.volume.master': 'General',
+  'settings.volume.ambience': 'Ambiente',
+  'settings.volume.music': 'Música',
+  'settings.volume.sfx': 'Efectos',
+  'settings.motion': 'Texto y movimiento',
+  'settings.instantText': 'Mostrar el texto al instante',
+  'settings.reducedMotion': 'Reducir el movimiento',
+  'settings.textSpeed': 'Velocidad del texto · {ms} ms/letra',
+  'settings.transition': 'Transición · {seconds} s',
+  'settings.motionHint': 'Reducir el movimiento detiene el desplazamiento lento de las imágenes y las partículas flotantes de la pantalla de inicio. Siempre está activo si tu sistema pide menos movimiento.',
+  'settings.narration': 'Narración',
+  'settings.narrate': 'Leer cada escena en voz alta',
+  'settings.voice': 'Voz',
+  'settings.defaultVoice': 'Predeterminada del navegador',
+  'settings.narrationRate': 'Velocidad · {rate}x',
+  'settings.preview': 'Probar',
+  'settings.previewLine': 'La corriente de sueños te escucha.',
+  'settings.narrationHint': 'Las palabras se resaltan a medida que se pronuncian y el ambiente baja bajo la voz.',
+  'settings.noSpeech': 'Este navegador no tiene síntesis de voz.',
+  'settings.prefetching': 'Precarga',
+  'settings.prefetch': 'Generar las próximas escenas en segundo plano',
+  'settings.concurrency': 'Solicitudes en paralelo',
+  'settings.costCap': 'Máximo por aventura',
+  'settings.prefetchHint': 'Cada escena precargada cuesta una generación completa de historia e imagen, aunque esa opción nunca se elija.',
+  'settings.network': 'Red',
+  'settings.retries': 'Reintentos',
+  'settings.timeout': 'Tiempo de espera (segundos)',
+  'settings.networkHint': 'Los límites de uso, los tiempos de espera y las conexiones caídas se reintentan con esperas crecientes antes de rendirse.',
+  'settings.developer': 'Desarrollador',
+  'settings.record': 'Grabar sesiones en casetes',
+  'settings.recordHint': 'Las nuevas aventuras graban cada solicitud y respuesta del modelo junto con tus elecciones. Guarda el casete desde la cabecera mientras juegas y reprodúcelo desde la pantalla de inicio sin red.',
+  'settings.drift': 'Desviación del modelo',
+  'settings.noDrift': 'Todavía no se ha comprobado ninguna escena del modelo.',
+  'settings.driftSummary': '{drifted} de {total} escenas incumplieron las reglas ({repaired} reparadas, {reprompted} repetidas, {failed} fallidas).',
+  'settings.reset': 'Restablecer',
+  'tree.title': 'Caminos de la historia',
+  'bible.title': 'Biblia visual',
+  'bible.artStyle': 'Estilo artístico',
+  'bible.reference': 'Usar la imagen de la escena anterior como referencia',
+  'bible.character': 'Personaje',
+  'bible.location': 'Lugar',
+  'bible.name': 'Nombre',
+  'bible.remove': 'Eliminar {name}',
+  'bible.entry': 'entrada',
+  'bible.appearance': 'Apariencia: colores, ropa, formas...',
+  'bible.locked': 'Fijado',
+  'bible.add': 'Añadir entrada',
+  'memory.title': 'Memoria enviada en cada turno',
+  'memory.typed': 'escrito:',
+  'memory.tokens': '~{count} tokens',
+  'memory.notRecorded': '(no registrado para esta escena)',
+  'inspector.title': 'Llamadas al modelo',
+  'inspector.export': 'Exportar JSON',
+  'inspector.clear': 'Borrar',
+  'inspector.session': 'Sesión',
+  'inspector.summary': '{calls} llamadas · {prompt} tokens de entrada / {response} de salida · {latency} · {retries} reintentos',
+  'inspector.failed': '{count} fallidas',
+  'inspector.attempts': '{count} intentos',
+  'inspector.tokens': '{count} tokens',
+  'inspector.system': 'Instrucción del sistema',
+  'inspector.prompt': 'Prompt',
+  'inspector.response': 'Respuesta',
+  'inspector.noResponse': '(sin respuesta)',
+  'inspector.noCalls': '(no hay llamadas registradas)',
+  'inspector.unplayed': 'Precargas no jugadas y turnos fallidos',
+};
+
+const fr: Messages = {
+  'app.settings': 'Réglages',
+  'app.abort': 'Abandonner',
+  'app.tagline': 'Moteur de récit visuel v2.5',
+  'app.offlineMode': 'Mode hors ligne · Rêves procéduraux',
+  'app.intro': "Saisissez un scénario de départ. L'IA créera un monde visuel, une ambiance sonore et une histoire pleine de rebondissements.",
+  'app.placeholder': 'Ex. : Se réveiller dans un avion qui tombe...',
+  'app.start': 'Lancer la simulation',
+  'app.import': 'Importer une histoire Twine / Ink',
+  'app.worlds': 'Modifier les mondes',
+  'app.importFailed': "Impossible d'importer {file} :\n{details}",
+  'app.importUnreadable': 'Le fichier est illisible.',
+  'app.resumeFailed': "Impossible de restaurer cette aventure. La sauvegarde est peut-être endommagée.",
+  'app.replayCassette': 'Rejouer une cassette',
+  'app.saveCassette': 'Enregistrer la cassette',
+  'app.replayNext': 'Choix suivant {step}/{total}',
+  'app.cassetteFailed': 'Impossible de charger la cassette {file} :\n{details}',
+  'quick.detective': 'Détective cyberpunk',
+  'quick.forest': 'Perdu dans une forêt magique',
+  'quick.zombie': 'Centre commercial zombie',
+  'quick.mars': 'Évasion de la colonie martienne',
+  'world.noir.hook': "Minuit dans mon bureau éclairé au néon : une inconnue au bras chromé me tend la photo d'un homme mort hier.",
+  'world.forest.hook': 'Le chemin disparaît derrière moi et un renard en petit gilet me demande si je suis celui que les arbres attendaient.',
+  'world.zombie.hook': 'Les lumières du centre commercial se rallument après la fermeture et quelque chose gratte le rideau de la boutique où je me cache.',
+  'world.mars.hook': 'Les alarmes me réveillent dans la colonie martienne : le dôme fuit et la dernière navette part dans dix minutes.',
+  'worlds.title': 'Mondes',
+  'worlds.new': 'Nouveau monde',
+  'worlds.copy': 'Copier un monde intégré…',
+  'worlds.copyLabel': 'Copier un monde intégré',
+  'worlds.copyName': '{name} (copie)',
+  'worlds.import': 'Importer un JSON',
+  'worlds.export': 'Exporter en JSON',
+  'worlds.empty': "Vous n'avez pas encore de monde à vous. Créez-en un, copiez un monde intégré ou importez un fichier partagé.",
+  'worlds.untitled': 'Monde sans titre',
+  'worlds.remove': 'Supprimer {name}',
+  'worlds.name': 'Nom',
+  'worlds.genre': 'Genre',
+  'worlds.genrePlaceholder': 'Une cité engloutie de sirènes mécaniques et de contrebandiers',
+  'worlds.ambience': 'Ambiance',
+  'worlds.hook': "Accroche d'ouverture",
+  'worlds.hookPlaceholder': "Laissez vide pour écrire le début sur l'écran d'accueil",
+  'worlds.englishHint': 'Les modèles lisent le genre et le style artistique ; écrivez-les en anglais pour de meilleurs résultats.',
+  'worlds.error.json': "Le fichier n'est pas un JSON valide.",
+  'worlds.error.version': 'Version de fichier de mondes non prise en charge : {version}.',
+  'worlds.error.empty': 'Le fichier ne contient aucun monde.',
+  'worlds.error.notObject': "Le monde {number} n'est pas un objet.",
+  'worlds.error.tone': 'Le monde {number} a un ton inconnu « {tone} ».',
+  'worlds.error.ambience': 'Le monde {number} a une ambiance inconnue « {ambience} ».',
+  'ambience.nature': 'Nature',
+  'ambience.mechanical': 'Mécanique',
+  'ambience.eerie': 'Inquiétante',
+  'ambience.calm': 'Calme',
+  'ambience.chaos': 'Chaos',
+  'ambience.underwater': 'Sous-marine',
+  'ambience.city': 'Ville',
+  'ambience.storm': 'Tempête',
+  'ambience.cave': 'Grotte',
+  'ambience.space': 'Espace',
+  'ambience.fire': 'Feu',
+  'loading.init': 'Démarrage du moteur de rêves...',
+  'loading.narrative': "Tissage de l'histoire...",
+  'loading.choosing': 'Chemin choisi : {label}...',
+  'loading.logic': 'Le destin se déploie...',
+  'loading.image': 'Rendu de la réalité...',
+  'export.button': 'Exporter',
+  'export.html': 'HTML jouable',
+  'export.chosen': 'Chemin choisi',
+  'export.alternate': 'Autre chemin',
+  'export.deadEnd': 'Impasse',
+  'export.replay': "Fin de l'enregistrement · Rejouer",
+  'saved.heading': 'Continuer',
+  'saved.resume': 'Continuer {title}',
+  'saved.scene': '{count} scène',
+  'saved.scenes': '{count} scènes',
+  'saved.rename': 'Renommer',
+  'saved.copy': 'Copier',
+  'saved.delete': 'Supprimer',
+  'saved.confirmDelete': 'Supprimer « {title} » ?',
+  'saved.failed': 'Impossible de mettre à jour vos aventures sauvegardées. Le stockage du navigateur est peut-être plein ou bloqué.',
+  'canvas.awaiting': "En attente de l'image...",
+  'canvas.rendering': "Création de l'image...",
+  'canvas.retryImage': '{reason} · Réessayer',
+  'canvas.rewind': 'Revenir',
+  'canvas.bible': 'Bible',
+  'canvas.memory': 'Mémoire',
+  'canvas.inspector': 'Inspecteur',
+  'canvas.option': 'Option 0{number}',
+  'canvas.yourAction': 'Votre action',
+  'canvas.explored': 'Explorée',
+  'canvas.requires': 'Nécessite {item}',
+  'canvas.options': 'Choisissez quoi faire. Appuyez sur une touche numérique pour choisir une option.',
+  'canvas.freeText': 'Faire autre chose...',
+  'canvas.freeTextLabel': 'Écrivez votre propre action',
+  'canvas.act': 'Agir',
+  'image.failed': "L'image a échoué",
+  'image.quota': 'Limite atteinte',
+  'image.safety': 'Image bloquée',
+  'image.no-image': "Pas d'image",
+  'image.network': 'Connexion perdue',
+  'image.timeout': 'Délai dépassé',
+  'hud.vitality': 'Vitalité',
+  'hud.health': 'Santé',
+  'hud.inventory': 'Inventaire',
+  'ending.victory': 'VICTOIRE',
+  'ending.lost': 'SIGNAL PERDU',
+  'ending.victorySubtitle': 'Le rêve se dénoue',
+  'ending.lostSubtitle': "Vous n'avez pas survécu au rêve",
+  'ending.scenes': 'Scènes',
+  'ending.items': 'Objets',
+  'ending.carried': 'Sur vous : {items}',
+  'ending.newAdventure': 'Nouvelle aventure',
+  'error.retry': 'Réessayer la même action',
+  'error.dismiss': 'Redémarrer le système',
+  'error.quota.title': 'LIMITE ATTEINTE',
+  'error.quota.hint': 'Le quota du modèle est épuisé pour le moment. Attendez une minute avant de réessayer, ou passez en mode hors ligne dans les Réglages.',
+  'error.safety.title': 'SCÈNE BLOQUÉE',
+  'error.safety.hint': 'Les filtres de sécurité ont rejeté ce tour. Réessayer peut donner une autre scène, ou choisissez un autre chemin.',
+  'error.malformed.title': 'SIGNAL CORROMPU',
+  'error.malformed.hint': "Le modèle a répondu quelque chose qui n'est pas une scène valide. Réessayer règle généralement le problème.",
+  'error.no-image.title': "PAS D'IMAGE",
+  'error.no-image.hint': "Le modèle d'image a répondu sans image. Réessayez pour générer la scène à nouveau.",
+  'error.network.title': 'CONNEXION PERDUE',
+  'error.network.hint': 'Le flux de rêve est injoignable. Vérifiez votre connexion, puis réessayez.',
+  'error.timeout.title': 'DÉLAI DÉPASSÉ',
+  'error.timeout.hint': "Le modèle a mis trop de temps à répondre. Réessayez, ou augmentez le délai dans les Réglages.",
+  'error.aborted.title': 'ANNULÉ',
+  'error.aborted.hint': 'La requête a été annulée avant la fin.',
+  'error.unknown.title': 'ERREUR CRITIQUE',
+  'error.unknown.hint': '',
+  'panel.close': 'Fermer',
+  'panel.turn': 'Tour {number}',
+  'settings.engine': "Moteur d'histoire",
+  'settings.provider.auto': 'Automatique',
+  'settings.provider.autoHint': "Gemini si une clé d'API est définie, hors ligne sinon.",
+  'settings.provider.gemini': 'Gemini',
+  'settings.provider.geminiHint': "Histoire et images générées en direct. Nécessite une clé d'API.",
+  'settings.provider.offline': 'Hors ligne',
+  'settings.provider.offlineHint': 'Scènes procédurales déterministes et illustrations provisoires. Aucun réseau.',
+  'settings.active': 'Actif :',
+  'settings.envProvider': '(défini par DREAMSTREAM_PROVIDER)',
+  'settings.noApiKey': "(pas de clé d'API, mode hors ligne)",
+  'settings.style': "Style de l'histoire",
+  'settings.language': 'Langue',
+  'settings.readingLevel': 'Niveau de lecture',
+  'settings.reading.simple': 'Simple (jeunes lecteurs)',
+  'settings.reading.standard': 'Standard',
+  'settings.reading.advanced': 'Littéraire',
+  'settings.length': 'Longueur des scènes',
+  'settings.length.short': 'Courte',
+  'settings.length.medium': 'Moyenne',
+  'settings.length.long': 'Longue',
+  'settings.tone': 'Ton',
+  'tone.balanced': 'Mystérieux',
+  'tone.lighthearted': 'Léger',
+  'tone.dark': 'Sombre',
+  'tone.humorous': 'Drôle',
+  'settings.styleHint': "S'applique aux nouvelles scènes Gemini ; la langue change aussi l'interface. Une aventure reste dans la langue où elle a commencé. Les histoires hors ligne et importées gardent leur propre texte.",
+  'settings.content': 'Contenu',
+  'settings.rating.kids': 'Enfants',
+  'settings.rating.kidsHint': 'Dangers légers uniquement. Ni mort, ni sang, ni armes, ni grossièretés.',
+  'settings.rating.teen': 'Adolescents',
+  'settings.rating.teenHint': 'Action et danger, sans gore, torture ni contenu sexuel.',
+  'settings.rating.mature': 'Adultes',
+  'settings.rating.matureHint': 'Thèmes plus sombres et violence, jamais gratuite.',
+  'settings.blocklist': 'Mots bloqués supplémentaires',
+  'settings.blocklistPlaceholder': 'Séparés par des virgules ou des retours à la ligne. Terminez un mot par * pour bloquer toutes ses terminaisons.',
+  'settings.blocklistHint': 'Une scène contenant un mot bloqué est régénérée une fois, puis le tour est bloqué. Les passages des histoires importées sont bloqués aussitôt. Les listes intégrées sont en anglais.',
+  'settings.removeLock': 'Retirer le contrôle parental',
+  'settings.pin': 'PIN',
+  'settings.newPin': 'Nouveau PIN ({count} caractères ou plus)',
+  'settings.pinLabel': 'PIN parental',
+  'settings.newPinLabel': 'Nouveau PIN parental',
+  'settings.unlock': 'Déverrouiller',
+  'settings.lock': 'Verrouiller',
+  'settings.locked': 'Verrouillé : saisissez le PIN pour modifier le contenu et le jeu.',
+  'settings.lockHint': 'Le contrôle parental protège la classification, les mots bloqués et les actions saisies.',
+  'settings.wrongPin': 'PIN incorrect.',
+  'settings.pinUnavailable': "Le contrôle parental nécessite une connexion sécurisée (HTTPS) et n'est pas disponible ici.",
+  'settings.freeText': 'Laisser les joueurs saisir leurs propres actions',
+  'settings.freeTextHint': "À désactiver pour les parties guidées ou pour enfants : seules les options proposées peuvent être choisies. Les histoires importées n'acceptent jamais d'actions saisies.",
+  'settings.audio': 'Audio',
+  'settings.mute': 'Couper tout le son',
+  'settings.volume.master': 'Général',
+  'settings.volume.ambience': 'Ambiance',
+  'settings.volume.music': 'Musique',
+  'settings.volume.sfx': 'Effets',
+  'settings.motion': 'Texte et mouvement',
+  'settings.instantText': 'Afficher le texte immédiatement',
+  'settings.reducedMotion': 'Réduire les animations',
+  'settings.textSpeed': 'Vitesse du texte · {ms} ms/lettre',
+  'settings.transition': 'Transition · {seconds} s',
+  'settings.motionHint': "Réduire les animations arrête le lent panoramique sur les images et les particules flottantes de l'écran titre. C'est toujours actif quand votre système demande moins d'animations.",
+  'settings.narration': 'Narration',
+  'settings.narrate': 'Lire chaque scène à voix haute',
+  'settings.voice': 'Voix',
+  'settings.defaultVoice': 'Voix par défaut du navigateur',
+  'settings.narrationRate': 'Vitesse · {rate}x',
+  'settings.preview': 'Écouter',
+  'settings.previewLine': 'Le flux des rêves vous écoute.',
+  'settings.narrationHint': "Les mots sont surlignés à mesure qu'ils sont prononcés et l'ambiance baisse sous la voix.",
+  'settings.noSpeech': "Ce navigateur n'a pas de synthèse vocale.",
+  'settings.prefetching': 'Préchargement',
+  'settings.prefetch': 'Générer les scènes suivantes en arrière-plan',
+  'settings.concurrency': 'Requêtes en parallèle',
+  'settings.costCap': 'Maximum par aventure',
+  'settings.prefetchHint': "Chaque scène préchargée coûte une génération complète d'histoire et d'image, même si cette option n'est jamais choisie.",
+  'settings.network': 'Réseau',
+  'settings.retries': 'Nouvelles tentatives',
+  'settings.timeout': "Délai d'attente (secondes)",
+  'settings.networkHint': "Les limites de débit, les délais dépassés et les connexions perdues sont retentés avec des attentes croissantes avant d'abandonner.",
+  'settings.developer': 'Développeur',
+  'settings.record': 'Enregistrer les sessions sur cassette',
+  'settings.recordHint': "Les nouvelles aventures enregistrent chaque requête et réponse du modèle avec vos choix. Sauvegardez la cassette depuis l'en-tête pendant la partie, et rejouez-la depuis l'écran d'accueil sans réseau.",
+  'settings.drift': 'Dérive du modèle',
+  'settings.noDrift': "Aucune scène du modèle vérifiée pour l'instant.",
+  'settings.driftSummary': '{drifted} scènes sur {total} ont enfreint les règles ({repaired} réparées, {reprompted} redemandées, {failed} en échec).',
+  'settings.reset': 'Réinitialiser',
+  'tree.title': "Chemins de l'histoire",
+  'bible.title': 'Bible visuelle',
+  'bible.artStyle': 'Style artistique',
+  'bible.reference': "Utiliser l'image de la scène précédente comme référence",
+  'bible.character': 'Personnage',
+  'bible.location': 'Lieu',
+  'bible.name': 'Nom',
+  'bible.remove': 'Supprimer {name}',
+  'bible.entry': 'entrée',
+  'bible.appearance': 'Apparence : couleurs, vêtements, formes...',
+  'bible.locked': 'Verrouillé',
+  'bible.add': 'Ajouter une entrée',
+  'memory.title': 'Mémoire envoyée à chaque tour',
+  'memory.typed': 'saisi :',
+  'memory.tokens': '~{count} jetons',
+  'memory.notRecorded': '(non enregistrée pour cette scène)',
+  'inspector.title': 'Appels au modèle',
+  'inspector.export': 'Exporter en JSON',
+  'inspector.clear': 'Effacer',
+  'inspector.session': 'Session',
+  'inspector.summary': '{calls} appels · {prompt} jetons en entrée / {response} en sortie · {latency} · {retries} nouvelles tentatives',
+  'inspector.failed': '{count} en échec',
+  'inspector.attempts': '{count} tentatives',
+  'inspector.tokens': '{count} jetons',
+  'inspector.system': 'Instruction système',
+  'inspector.prompt': 'Prompt',
+  'inspector.response': 'Réponse',
+  'inspector.noResponse': '(aucune réponse)',
+  'inspector.noCalls': '(aucun appel enregistré)',
+  'inspector.unplayed': 'Préchargements non joués et tours échoués',
+};
+
+const de: Messages = {
+  'app.settings': 'Einstellungen',
+  'app.abort': 'Abbrechen',
+  'app.tagline': 'Visuelle Erzählmaschine v2.5',
+  'app.offlineMode': 'Offline-Modus · Prozedurale Träume',
+  'app.intro': 'Gib ein Startszenario ein. Die KI erschafft eine visuelle Welt, Umgebungsklänge und eine Geschichte voller Wendungen.',
+  'app.placeholder': 'Z. B.: Aufwachen in einem abstürzenden Flugzeug...',
+  'app.start': 'Simulation starten',
+  'app.import': 'Twine- / Ink-Geschichte importieren',
+  'app.worlds': 'Welten bearbeiten',
+  'app.importFailed': '{file} konnte nicht importiert werden:\n{details}',
+  'app.importUnreadable': 'Die Datei konnte nicht gelesen werden.',
+  'app.resumeFailed': 'Dieses Abenteuer konnte nicht wiederhergestellt werden. Der Spielstand ist möglicherweise beschädigt.',
+  'app.replayCassette': 'Kassette abspielen',
+  'app.saveCassette': 'Kassette speichern',
+  'app.replayNext': 'Nächste Wahl {step}/{total}',
+  'app.cassetteFailed': 'Kassette {file} konnte nicht geladen werden:\n{details}',
+  'quick.detective': 'Cyberpunk-Detektiv',
+  'quick.forest': 'Verirrt im Zauberwald',
+  'quick.zombie': 'Zombie-Einkaufszentrum',
+  'quick.mars': 'Flucht aus der Marskolonie',
+  'world.noir.hook': 'Mitternacht in meinem neonbeleuchteten Büro: Eine Fremde mit einem Chromarm schiebt mir das Foto eines Mannes zu, der gestern starb.',
+  'world.forest.hook': 'Der Weg hinter mir verschwindet, und ein Fuchs in einer winzigen Weste fragt, ob ich die Person bin, auf die die Bäume gewartet haben.',
+  'world.zombie.hook': 'Nach Ladenschluss flackern die Lichter im Einkaufszentrum wieder auf, und etwas kratzt am Rollgitter des Ladens, in dem ich mich verstecke.',
+  'world.mars.hook': 'Alarme wecken mich in der Marskolonie: Die Kuppel verliert Luft, und das letzte Shuttle startet in zehn Minuten.',
+  'worlds.title': 'Welten',
+  'worlds.new': 'Neue Welt',
+  'worlds.copy': 'Eingebaute kopieren…',
+  'worlds.copyLabel': 'Eine eingebaute Welt kopieren',
+  'worlds.copyName': '{name} (Kopie)',
+  'worlds.import': 'JSON importieren',
+  'worlds.export': 'Als JSON exportieren',
+  'worlds.empty': 'Noch keine eigenen Welten. Leg eine neue an, kopiere eine eingebaute Welt oder importiere eine geteilte Datei.',
+  'worlds.untitled': 'Unbenannte Welt',
+  'worlds.remove': '{name} entfernen',
+  'worlds.name': 'Name',
+  'worlds.genre': 'Genre',
+  'worlds.genrePlaceholder': 'Eine versunkene Stadt voller Uhrwerk-Meerjungfrauen und Schmuggler',
+  'worlds.ambience': 'Atmosphäre',
+  'worlds.hook': 'Einstiegssatz',
+  'worlds.hookPlaceholder': 'Leer lassen, um den Anfang auf dem Startbildschirm zu schreiben',
+  'worlds.englishHint': 'Genre und Kunststil lesen die Modelle; schreib sie am besten auf Englisch.',
+  'worlds.error.json': 'Die Datei ist kein gültiges JSON.',
+  'worlds.error.version': 'Nicht unterstützte Version der Weltendatei: {version}.',
+  'worlds.error.empty': 'Die Datei enthält keine Welten.',
+  'worlds.error.notObject': 'Welt {number} ist kein Objekt.',
+  'worlds.error.tone': 'Welt {number} hat einen unbekannten Ton „{tone}“.',
+  'worlds.error.ambience': 'Welt {number} hat eine unbekannte Atmosphäre „{ambience}“.',
+  'ambience.nature': 'Natur',
+  'ambience.mechanical': 'Maschinen',
+  'ambience.eerie': 'Unheimlich',
+  'ambience.calm': 'Ruhig',
+  'ambience.chaos': 'Chaos',
+  'ambience.underwater': 'Unter Wasser',
+  'ambience.city': 'Stadt',
+  'ambience.storm': 'Sturm',
+  'ambience.cave': 'Höhle',
+  'ambience.space': 'Weltraum',
+  'ambience.fire': 'Feuer',
+  'loading.init': 'Traummaschine wird gestartet...',
+  'loading.narrative': 'Die Geschichte wird gewoben...',
+  'loading.choosing': 'Gewählter Weg: {label}...',
+  'loading.logic': 'Das Schicksal entfaltet sich...',
+  'loading.image': 'Die Wirklichkeit wird gerendert...',
+  'export.button': 'Exportieren',
+  'export.html': 'Spielbares HTML',
+  'export.chosen': 'Gewählter Weg',
+  'export.alternate': 'Anderer Weg',
+  'export.deadEnd': 'Sackgasse',
+  'export.replay': 'Ende der Aufnahme · Noch einmal',
+  'saved.heading': 'Weiterspielen',
+  'saved.resume': '{title} fortsetzen',
+  'saved.scene': '{count} Szene',
+  'saved.scenes': '{count} Szenen',
+  'saved.rename': 'Umbenennen',
+  'saved.copy': 'Kopieren',
+  'saved.delete': 'Löschen',
+  'saved.confirmDelete': '„{title}“ löschen?',
+  'saved.failed': 'Deine gespeicherten Abenteuer konnten nicht aktualisiert werden. Der Browserspeicher ist vielleicht voll oder gesperrt.',
+  'canvas.awaiting': 'Warte auf das Bild...',
+  'canvas.rendering': 'Bild wird erzeugt...',
+  'canvas.retryImage': '{reason} · Erneut versuchen',
+  'canvas.rewind': 'Zurückspulen',
+  'canvas.bible': 'Bibel',
+  'canvas.memory': 'Gedächtnis',
+  'canvas.inspector': 'Inspektor',
+  'canvas.option': 'Option 0{number}',
+  'canvas.yourAction': 'Deine Aktion',
+  'canvas.explored': 'Erkundet',
+  'canvas.requires': 'Benötigt {item}',
+  'canvas.options': 'Wähle, was du tust. Drücke eine Zahlentaste, um eine Option zu wählen.',
+  'canvas.freeText': 'Etwas anderes tun...',
+  'canvas.freeTextLabel': 'Eigene Aktion eingeben',
+  'canvas.act': 'Handeln',
+  'image.failed': 'Bild fehlgeschlagen',
+  'image.quota': 'Limit erreicht',
+  'image.safety': 'Bild blockiert',
+  'image.no-image': 'Kein Bild erhalten',
+  'image.network': 'Verbindung verloren',
+  'image.timeout': 'Zeit überschritten',
+  'hud.vitality': 'Vitalität',
+  'hud.health': 'Gesundheit',
+  'hud.inventory': 'Inventar',
+  'ending.victory': 'SIEG',
+  'ending.lost': 'SIGNAL VERLOREN',
+  'ending.victorySubtitle': 'Der Traum löst sich auf',
+  'ending.lostSubtitle': 'Du hast den Traum nicht überlebt',
+  'ending.scenes': 'Szenen',
+  'ending.items': 'Gegenstände',
+  'ending.carried': 'Dabei: {items}',
+  'ending.newAdventure': 'Neues Abenteuer',
+  'error.retry': 'Gleiche Aktion wiederholen',
+  'error.dismiss': 'System neu starten',
+  'error.quota.title': 'LIMIT ERREICHT',
+  'error.quota.hint': 'Das Kontingent des Modells ist vorerst aufgebraucht. Warte eine Minute oder wechsle in den Einstellungen in den Offline-Modus.',
+  'error.safety.title': 'SZENE BLOCKIERT',
+  'error.safety.hint': 'Die Sicherheitsfilter haben diesen Zug abgelehnt. Ein neuer Versuch kann eine andere Szene ergeben, oder wähle einen anderen Weg.',
+  'error.malformed.title': 'GESTÖRTES SIGNAL',
+  'error.malformed.hint': 'Das Modell hat keine gültige Szene geliefert. Ein neuer Versuch behebt das meistens.',
+  'error.no-image.title': 'KEIN BILD',
+  'error.no-image.hint': 'Das Bildmodell hat ohne Bild geantwortet. Versuche es erneut, um die Szene neu zu erzeugen.',
+  'error.network.title': 'VERBINDUNG VERLOREN',
+  'error.network.hint': 'Der Traumstrom ist nicht erreichbar. Prüfe deine Verbindung und versuche es erneut.',
+  'error.timeout.title': 'ZEIT ÜBERSCHRITTEN',
+  'error.timeout.hint': 'Das Modell hat zu lange gebraucht. Versuche es erneut oder erhöhe das Zeitlimit in den Einstellungen.',
+  'error.aborted.title': 'ABGEBROCHEN',
+  'error.aborted.hint': 'Die Anfrage wurde vor dem Ende abgebrochen.',
+  'error.unknown.title': 'KRITISCHER FEHLER',
+  'error.unknown.hint': '',
+  'panel.close': 'Schließen',
+  'panel.turn': 'Zug {number}',
+  'settings.engine': 'Story-Engine',
+  'settings.provider.auto': 'Automatisch',
+  'settings.provider.autoHint': 'Gemini, wenn ein API-Schlüssel gesetzt ist, sonst offline.',
+  'settings.provider.gemini': 'Gemini',
+  'settings.provider.geminiHint': 'Geschichte und Bilder werden live erzeugt. Benötigt einen API-Schlüssel.',
+  'settings.provider.offline': 'Offline',
+  'settings.provider.offlineHint': 'Deterministische prozedurale Szenen und Platzhalterbilder. Kein Netzwerk.',
+  'settings.active': 'Aktiv:',
+  'settings.envProvider': '(festgelegt durch DREAMSTREAM_PROVIDER)',
+  'settings.noApiKey': '(kein API-Schlüssel, offline)',
+  'settings.style': 'Erzählstil',
+  'settings.language': 'Sprache',
+  'settings.readingLevel': 'Lesestufe',
+  'settings.reading.simple': 'Einfach (junge Leser)',
+  'settings.reading.standard': 'Standard',
+  'settings.reading.advanced': 'Literarisch',
+  'settings.length': 'Szenenlänge',
+  'settings.length.short': 'Kurz',
+  'settings.length.medium': 'Mittel',
+  'settings.length.long': 'Lang',
+  'settings.tone': 'Ton',
+  'tone.balanced': 'Geheimnisvoll',
+  'tone.lighthearted': 'Unbeschwert',
+  'tone.dark': 'Düster',
+  'tone.humorous': 'Lustig',
+  'settings.styleHint': 'Gilt für neue Gemini-Szenen; die Sprache stellt auch die Oberfläche um. Abenteuer bleiben in der Sprache, in der sie begonnen wurden. Offline- und importierte Geschichten behalten ihren eigenen Text.',
+  'settings.content': 'Inhalt',
+  'settings.rating.kids': 'Kinder',
+  'settings.rating.kidsHint': 'Nur leichte Gefahr. Kein Tod, kein Blut, keine Waffen, keine derbe Sprache.',
+  'settings.rating.teen': 'Jugendliche',
+  'settings.rating.teenHint': 'Action und Gefahr, ohne Gore, Folter oder sexuelle Inhalte.',
+  'settings.rating.mature': 'Erwachsene',
+  'settings.rating.matureHint': 'Düsterere Themen und Gewalt, nie grundlos.',
+  'settings.blocklist': 'Zusätzliche gesperrte Wörter',
+  'settings.blocklistPlaceholder': 'Durch Kommas oder Zeilenumbrüche getrennt. Ein * am Wortende sperrt jede Endung.',
+  'settings.blocklistHint': 'Szenen mit einem gesperrten Wort werden einmal neu erzeugt, danach wird der Zug blockiert. Passagen importierter Geschichten werden sofort blockiert. Die eingebauten Listen sind englisch.',
+  'settings.removeLock': 'Jugendschutz entfernen',
+  'settings.pin': 'PIN',
+  'settings.newPin': 'Neue PIN ({count}+ Zeichen)',
+  'settings.pinLabel': 'Jugendschutz-PIN',
+  'settings.newPinLabel': 'Neue Jugendschutz-PIN',
+  'settings.unlock': 'Entsperren',
+  'settings.lock': 'Sperren',
+  'settings.locked': 'Gesperrt: Gib die PIN ein, um Inhalts- und Spieleinstellungen zu ändern.',
+  'settings.lockHint': 'Der Jugendschutz sichert die Altersstufe, die gesperrten Wörter und eigene Aktionen.',
+  'settings.wrongPin': 'Falsche PIN.',
+  'settings.pinUnavailable': 'Der Jugendschutz braucht eine sichere Verbindung (HTTPS) und ist hier nicht verfügbar.',
+  'settings.freeText': 'Spieler eigene Aktionen eingeben lassen',
+  'settings.freeTextHint': 'Für geführtes Spielen oder Kinder ausschalten: Dann sind nur die angebotenen Optionen wählbar. Importierte Geschichten nehmen nie eigene Aktionen an.',
+  'settings.audio': 'Audio',
+  'settings.mute': 'Alle Töne stummschalten',
+  'settings.volume.master': 'Gesamt',
+  'settings.volume.ambience': 'Atmosphäre',
+  'settings.volume.music': 'Musik',
+  'settings.volume.sfx': 'Effekte',
+  'settings.motion': 'Text & Bewegung',
+  'settings.instantText': 'Text sofort anzeigen',
+  'settings.reducedMotion': 'Bewegung reduzieren',
+  'settings.textSpeed': 'Textgeschwindigkeit · {ms} ms/Buchstabe',
+  'settings.transition': 'Übergang · {seconds} s',
+  'settings.motionHint': 'Reduzierte Bewegung stoppt das langsame Schwenken über Szenenbilder und die schwebenden Partikel auf dem Startbildschirm. Sie ist immer an, wenn dein System reduzierte Bewegung verlangt.',
+  'settings.narration': 'Erzählstimme',
+  'settings.narrate': 'Jede Szene vorlesen',
+  'settings.voice': 'Stimme',
+  'settings.defaultVoice': 'Browser-Standard',
+  'settings.narrationRate': 'Tempo · {rate}x',
+  'settings.preview': 'Anhören',
+  'settings.previewLine': 'Der Traumstrom hört zu.',
+  'settings.narrationHint': 'Wörter werden beim Sprechen hervorgehoben, und die Atmosphäre wird unter der Stimme leiser.',
+  'settings.noSpeech': 'Dieser Browser hat keine Sprachausgabe.',
+  'settings.prefetching': 'Vorausladen',
+  'settings.prefetch': 'Kommende Szenen im Hintergrund erzeugen',
+  'settings.concurrency': 'Parallele Anfragen',
+  'settings.costCap': 'Höchstens pro Abenteuer',
+  'settings.prefetchHint': 'Jede vorausgeladene Szene kostet eine vollständige Text- und Bilderzeugung, auch wenn die Option nie gewählt wird.',
+  'settings.network': 'Netzwerk',
+  'settings.retries': 'Wiederholungen',
+  'settings.timeout': 'Zeitlimit (Sekunden)',
+  'settings.networkHint': 'Ratenlimits, Zeitüberschreitungen und abgebrochene Verbindungen werden mit wachsenden Pausen wiederholt, bevor aufgegeben wird.',
+  'settings.developer': 'Entwickler',
+  'settings.record': 'Sitzungen auf Kassetten aufnehmen',
+  'settings.recordHint': 'Neue Abenteuer zeichnen jede Modellanfrage und -antwort samt deinen Entscheidungen auf. Speichere die Kassette beim Spielen über die Kopfleiste und spiele sie ohne Netzwerk vom Startbildschirm ab.',
+  'settings.drift': 'Modellabweichung',
+  'settings.noDrift': 'Noch keine Modellszenen geprüft.',
+  'settings.driftSummary': '{drifted} von {total} Szenen haben die Szenenregeln verletzt ({repaired} repariert, {reprompted} neu angefragt, {failed} fehlgeschlagen).',
+  'settings.reset': 'Zurücksetzen',
+  'tree.title': 'Story-Pfade',
+  'bible.title': 'Visuelle Bibel',
+  'bible.artStyle': 'Kunststil',
+  'bible.reference': 'Das Bild der vorherigen Szene als Referenz verwenden',
+  'bible.character': 'Figur',
+  'bible.location': 'Ort',
+  'bible.name': 'Name',
+  'bible.remove': '{name} entfernen',
+  'bible.entry': 'Eintrag',
+  'bible.appearance': 'Aussehen: Farben, Kleidung, Formen...',
+  'bible.locked': 'Fixiert',
+  'bible.add': 'Eintrag hinzufügen',
+  'memory.title': 'Gesendetes Gedächtnis pro Zug',
+  'memory.typed': 'eingegeben:',
+  'memory.tokens': '~{count} Tokens',
+  'memory.notRecorded': '(für diese Szene nicht aufgezeichnet)',
+  'inspector.title': 'Modellaufrufe',
+  'inspector.export': 'Als JSON exportieren',
+  'inspector.clear': 'Leeren',
+  'inspector.session': 'Sitzung',
+  'inspector.summary': '{calls} Aufrufe · {prompt} Tokens rein / {response} raus · {latency} · {retries} Wiederholungen',
+  'inspector.failed': '{count} fehlgeschlagen',
+  'inspector.attempts': '{count} Versuche',
+  'inspector.tokens': '{count} Tokens',
+  'inspector.system': 'Systemanweisung',
+  'inspector.prompt': 'Prompt',
+  'inspector.response': 'Antwort',
+  'inspector.noResponse': '(keine Antwort)',
+  'inspector.noCalls': '(keine Modellaufrufe aufgezeichnet)',
+  'inspector.unplayed': 'Nicht gespielte Vorausladungen und fehlgeschlagene Züge',
+};
+
+const ja: Messages = {
+  'app.settings': '設定',
+  'app.abort': '中断',
+  'app.tagline': 'ビジュアル物語エンジン v2.5',
+  'app.offlineMode': 'オフラインモード · 手続き生成の夢',
+  'app.intro': '始まりの場面を入力してください。AI がビジュアルの世界、環境音、そしてどんでん返しに満ちた物語を生み出します。',
+  'app.placeholder': '例：墜落する飛行機の中で目を覚ます...',
+  'app.start': 'シミュレーション開始',
+  'app.import': 'Twine / Ink の物語を読み込む',
+  'app.worlds': '世界を編集',
+  'app.importFailed': '{file} を読み込めませんでした：\n{details}',
+  'app.importUnreadable': 'ファイルを読み取れませんでした。',
+  'app.resumeFailed': 'この冒険を復元できませんでした。セーブデータが壊れている可能性があります。',
+  'app.replayCassette': 'カセットを再生',
+  'app.saveCassette': 'カセットを保存',
+  'app.replayNext': '次の選択 {step}/{total}',
+  'app.cassetteFailed': 'カセット {file} を読み込めませんでした：\n{details}',
+  'quick.detective': 'サイバーパンク探偵',
+  'quick.forest': '魔法の森で迷子',
+  'quick.zombie': 'ゾンビだらけのショッピングモール',
+  'quick.mars': '火星コロニーからの脱出',
+  'world.noir.hook': '真夜中、ネオンに照らされた事務所。クロームの義手の見知らぬ女が、昨日死んだ男の写真を差し出す。',
+  'world.forest.hook': '背後の道が消え、小さなベストを着たキツネが「木々が待っていたのはあなた？」と尋ねてくる。',
+  'world.zombie.hook': '閉店後のショッピングモールで照明が再び点滅し、私が隠れている店のシャッターを何かが引っかいている。',
+  'world.mars.hook': '火星コロニーで警報に起こされる。ドームから空気が漏れ、最後のシャトルは十分後に出発する。',
+  'worlds.title': 'ワールド',
+  'worlds.new': '新しいワールド',
+  'worlds.copy': '組み込みをコピー…',
+  'worlds.copyLabel': '組み込みのワールドをコピー',
+  'worlds.copyName': '{name}(コピー)',
+  'worlds.import': 'JSONをインポート',
+  'worlds.export': 'JSONでエクスポート',
+  'worlds.empty': '自分のワールドはまだありません。新しく作るか、組み込みのワールドをコピーするか、共有されたファイルをインポートしてください。',
+  'worlds.untitled': '無題のワールド',
+  'worlds.remove': '{name}を削除',
+  'worlds.name': '名前',
+  'worlds.genre': 'ジャンル',
+  'worlds.genrePlaceholder': 'ぜんまい仕掛けの人魚と密輸人が住む沈んだ都市',
+  'worlds.ambience': '環境音',
+  'worlds.hook': '書き出し',
+  'worlds.hookPlaceholder': '空欄にするとスタート画面で書き出しを入力します',
+  'worlds.englishHint': 'ジャンルと画風はモデルが読みます。英語で書くと最もよい結果になります。',
+  'worlds.error.json': 'このファイルは有効なJSONではありません。',
+  'worlds.error.version': '対応していないワールドファイルのバージョンです:{version}。',
+  'worlds.error.empty': 'このファイルにはワールドがありません。',
+  'worlds.error.notObject': 'ワールド {number} はオブジェクトではありません。',
+  'worlds.error.tone': 'ワールド {number} のトーン「{tone}」は不明です。',
+  'worlds.error.ambience': 'ワールド {number} の環境音「{ambience}」は不明です。',
+  'ambience.nature': '自然',
+  'ambience.mechanical': '機械',
+  'ambience.eerie': '不気味',
+  'ambience.calm': '穏やか',
+  'ambience.chaos': '混沌',
+  'ambience.underwater': '水中',
+  'ambience.city': '都市',
+  'ambience.storm': '',
+  'ambience.cave': '洞窟',
+  'ambience.space': '宇宙',
+  'ambience.fire': '炎',
+  'loading.init': '夢のエンジンを起動中...',
+  'loading.narrative': '物語を紡いでいます...',
+  'loading.choosing': '選んだ道：{label}...',
+  'loading.logic': '運命が動き出す...',
+  'loading.image': '現実を描画中...',
+  'export.button': '書き出し',
+  'export.html': 'プレイできる HTML',
+  'export.chosen': '選んだ道',
+  'export.alternate': '別の道',
+  'export.deadEnd': '行き止まり',
+  'export.replay': '記録の終わり · もう一度',
+  'saved.heading': '続きから',
+  'saved.resume': '{title} を続ける',
+  'saved.scene': '{count} シーン',
+  'saved.scenes': '{count} シーン',
+  'saved.rename': '名前を変更',
+  'saved.copy': '複製',
+  'saved.delete': '削除',
+  'saved.confirmDelete': '「{title}」を削除しますか？',
+  'saved.failed': '保存した冒険を更新できませんでした。ブラウザのストレージがいっぱいか、ブロックされている可能性があります。',
+  'canvas.awaiting': '映像を待っています...',
+  'canvas.rendering': '映像を生成中...',
+  'canvas.retryImage': '{reason} · 再試行',
+  'canvas.rewind': '巻き戻す',
+  'canvas.bible': '設定資料',
+  'canvas.memory': '記憶',
+  'canvas.inspector': 'インスペクター',
+  'canvas.option': '選択肢 0{number}',
+  'canvas.yourAction': 'あなたの行動',
+  'canvas.explored': '探索済み',
+  'canvas.requires': '{item} が必要',
+  'canvas.options': '行動を選んでください。数字キーで選択肢を選べます。',
+  'canvas.freeText': '別のことをする...',
+  'canvas.freeTextLabel': '自分の行動を入力',
+  'canvas.act': '実行',
+  'image.failed': '映像の生成に失敗',
+  'image.quota': '上限に達しました',
+  'image.safety': '映像がブロックされました',
+  'image.no-image': '映像が返されませんでした',
+  'image.network': '接続が切れました',
+  'image.timeout': '時間切れ',
+  'hud.vitality': '体力',
+  'hud.health': '体力',
+  'hud.inventory': '持ち物',
+  'ending.victory': '勝利',
+  'ending.lost': '信号途絶',
+  'ending.victorySubtitle': '夢は静かに終わる',
+  'ending.lostSubtitle': 'あなたは夢の中で力尽きた',
+  'ending.scenes': 'シーン',
+  'ending.items': 'アイテム',
+  'ending.carried': '持ち物：{items}',
+  'ending.newAdventure': '新しい冒険',
+  'error.retry': '同じ行動を再試行',
+  'error.dismiss': 'システム再起動',
+  'error.quota.title': '上限に達しました',
+  'error.quota.hint': 'モデルの利用上限に達しました。1 分ほど待ってから再試行するか、設定でオフラインモードに切り替えてください。',
+  'error.safety.title': 'シーンがブロックされました',
+  'error.safety.hint': '安全フィルターがこのターンを拒否しました。再試行すると別のシーンになるかもしれません。別の道を選ぶこともできます。',
+  'error.malformed.title': '信号が乱れています',
+  'error.malformed.hint': 'モデルの応答が正しいシーンではありませんでした。たいていは再試行で直ります。',
+  'error.no-image.title': '映像なし',
+  'error.no-image.hint': '画像モデルが画像なしで応答しました。再試行してシーンを描き直してください。',
+  'error.network.title': '接続が切れました',
+  'error.network.hint': '夢の回線につながりません。接続を確認してから再試行してください。',
+  'error.timeout.title': '時間切れ',
+  'error.timeout.hint': 'モデルの応答に時間がかかりすぎました。再試行するか、設定でタイムアウトを長くしてください。',
+  'error.aborted.title': 'キャンセルされました',
+  'error.aborted.hint': 'リクエストは完了前にキャンセルされました。',
+  'error.unknown.title': '重大なエラー',
+  'error.unknown.hint': '',
+  'panel.close': '閉じる',
+  'panel.turn': 'ターン {number}',
+  'settings.engine': 'ストーリーエンジン',
+  'settings.provider.auto': '自動',
+  'settings.provider.autoHint': 'APIキーがあればGemini、なければオフライン。',
+  'settings.provider.gemini': 'Gemini',
+  'settings.provider.geminiHint': '物語と画像をリアルタイムで生成します。APIキーが必要です。',
+  'settings.provider.offline': 'オフライン',
+  'settings.provider.offlineHint': '決定的な手続き型シーンと仮のイラスト。ネットワーク不要。',
+  'settings.active': '使用中:',
+  'settings.envProvider': '(DREAMSTREAM_PROVIDERで指定)',
+  'settings.noApiKey': '(APIキーがないためオフライン)',
+  'settings.style': '物語のスタイル',
+  'settings.language': '言語',
+  'settings.readingLevel': '読みやすさ',
+  'settings.reading.simple': 'やさしい(低年齢向け)',
+  'settings.reading.standard': '標準',
+  'settings.reading.advanced': '文学的',
+  'settings.length': 'シーンの長さ',
+  'settings.length.short': '短い',
+  'settings.length.medium': '普通',
+  'settings.length.long': '長い',
+  'settings.tone': 'トーン',
+  'tone.balanced': 'ミステリアス',
+  'tone.lighthearted': '明るい',
+  'tone.dark': 'ダーク',
+  'tone.humorous': 'コミカル',
+  'settings.styleHint': '新しいGeminiのシーンに適用されます。言語はインターフェースにも反映されます。冒険は始めたときの言語のまま続きます。オフラインとインポートした物語は元の文章のままです。',
+  'settings.content': 'コンテンツ',
+  'settings.rating.kids': 'キッズ',
+  'settings.rating.kidsHint': '軽い危険のみ。死、血、武器、乱暴な言葉はありません。',
+  'settings.rating.teen': 'ティーン',
+  'settings.rating.teenHint': 'アクションと危険あり。残虐描写、拷問、性的な内容はありません。',
+  'settings.rating.mature': '成人',
+  'settings.rating.matureHint': 'より暗いテーマと暴力。ただし過剰にはしません。',
+  'settings.blocklist': '追加のブロックワード',
+  'settings.blocklistPlaceholder': 'カンマか改行で区切ります。語尾に * を付けると、すべての活用形をブロックします。',
+  'settings.blocklistHint': 'ブロックワードを含むシーンは一度だけ生成し直し、それでもだめならそのターンをブロックします。インポートした物語のパッセージはすぐにブロックされます。組み込みのリストは英語です。',
+  'settings.removeLock': 'ペアレンタルロックを解除',
+  'settings.pin': 'PIN',
+  'settings.newPin': '新しいPIN({count}文字以上)',
+  'settings.pinLabel': 'ペアレンタルPIN',
+  'settings.newPinLabel': '新しいペアレンタルPIN',
+  'settings.unlock': 'ロック解除',
+  'settings.lock': 'ロック',
+  'settings.locked': 'ロック中:コンテンツとゲームプレイの設定を変えるにはPINを入力してください。',
+  'settings.lockHint': 'ペアレンタルロックはレーティング、ブロックワード、入力アクションを保護します。',
+  'settings.wrongPin': 'PINが違います。',
+  'settings.pinUnavailable': 'ペアレンタルロックには安全な接続(HTTPS)が必要なため、ここでは使えません。',
+  'settings.freeText': 'プレイヤーが自由にアクションを入力できるようにする',
+  'settings.freeTextHint': 'ガイド付きや子ども向けのプレイではオフにしてください。表示された選択肢だけを選べます。インポートした物語では入力アクションは使えません。',
+  'settings.audio': 'オーディオ',
+  'settings.mute': 'すべての音をミュート',
+  'settings.volume.master': 'マスター',
+  'settings.volume.ambience': '環境音',
+  'settings.volume.music': '音楽',
+  'settings.volume.sfx': '効果音',
+  'settings.motion': 'テキストと動き',
+  'settings.instantText': 'テキストをすぐに表示',
+  'settings.reducedMotion': '動きを減らす',
+  'settings.textSpeed': '文字の速さ · {ms} ミリ秒/文字',
+  'settings.transition': '切り替え · {seconds}秒',
+  'settings.motionHint': '動きを減らすと、シーン画像のゆっくりしたパンとタイトル画面の浮遊する粒子が止まります。システムが動きの軽減を求めている場合は常にオンです。',
+  'settings.narration': '読み上げ',
+  'settings.narrate': '各シーンを読み上げる',
+  'settings.voice': '音声',
+  'settings.defaultVoice': 'ブラウザの既定',
+  'settings.narrationRate': '速さ · {rate}倍',
+  'settings.preview': '試聴',
+  'settings.previewLine': '夢の流れが耳を澄ましています。',
+  'settings.narrationHint': '読み上げ中の単語が強調され、声の間は環境音が小さくなります。',
+  'settings.noSpeech': 'このブラウザは音声合成に対応していません。',
+  'settings.prefetching': '先読み',
+  'settings.prefetch': '次のシーンをバックグラウンドで生成する',
+  'settings.concurrency': '同時リクエスト数',
+  'settings.costCap': '冒険ごとの上限',
+  'settings.prefetchHint': '先読みしたシーンは、その選択肢が選ばれなくても物語と画像の生成1回分のコストがかかります。',
+  'settings.network': 'ネットワーク',
+  'settings.retries': '再試行回数',
+  'settings.timeout': 'タイムアウト(秒)',
+  'settings.networkHint': 'レート制限、タイムアウト、接続の切断は、間隔を広げながら再試行してから諦めます。',
+  'settings.developer': '開発者',
+  'settings.record': 'セッションをカセットに記録する',
+  'settings.recordHint': '新しい冒険では、モデルへのリクエストと応答をあなたの選択とともにすべて記録します。プレイ中にヘッダーからカセットを保存し、スタート画面からネットワークなしで再生できます。',
+  'settings.drift': 'モデルのずれ',
+  'settings.noDrift': 'まだモデルのシーンは確認されていません。',
+  'settings.driftSummary': '{total}件中{drifted}件のシーンがルールに違反しました(修復 {repaired}、再指示 {reprompted}、失敗 {failed})。',
+  'settings.reset': 'リセット',
+  'tree.title': '物語の分岐',
+  'bible.title': 'ビジュアルバイブル',
+  'bible.artStyle': '画風',
+  'bible.reference': '前のシーンの画像を参照として使う',
+  'bible.character': 'キャラクター',
+  'bible.location': '場所',
+  'bible.name': '名前',
+  'bible.remove': '{name}を削除',
+  'bible.entry': '項目',
+  'bible.appearance': '外見:色、服装、形など...',
+  'bible.locked': '固定',
+  'bible.add': '項目を追加',
+  'memory.title': 'ターンごとに送信した記憶',
+  'memory.typed': '入力:',
+  'memory.tokens': '約{count}トークン',
+  'memory.notRecorded': '(このシーンでは記録されていません)',
+  'inspector.title': 'モデル呼び出し',
+  'inspector.export': 'JSONでエクスポート',
+  'inspector.clear': '消去',
+  'inspector.session': 'セッション',
+  'inspector.summary': '{calls}回の呼び出し · 入力 {prompt} / 出力 {response} トークン · {latency} · 再試行 {retries}回',
+  'inspector.failed': '失敗 {count}件',
+  'inspector.attempts': '{count}回試行',
+  'inspector.tokens': '{count}トークン',
+  'inspector.system': 'システム指示',
+  'inspector.prompt': 'プロンプト',
+  'inspector.response': '応答',
+  'inspector.noResponse': '(応答なし)',
+  'inspector.noCalls': '(モデル呼び出しの記録なし)',
+  'inspector.unplayed': 'プレイされなかった先読みと失敗したターン',
+};
+
+const ar: Messages = {
+  'app.settings': 'الإعدادات',
+  'app.abort': 'إنهاء المحاكاة',
+  'app.tagline': 'محرك السرد المرئي v2.5',
+  'app.offlineMode': 'وضع عدم الاتصال · أحلام إجرائية',
+  'app.intro': 'اكتب مشهدًا للبداية. سيصنع الذكاء الاصطناعي عالمًا مرئيًا وأصواتًا محيطة وقصة مليئة بالمفاجآت.',
+  'app.placeholder': 'مثال: الاستيقاظ في طائرة تسقط...',
+  'app.start': 'ابدأ المحاكاة',
+  'app.import': 'استيراد قصة Twine / Ink',
+  'app.worlds': 'تحرير العوالم',
+  'app.importFailed': 'تعذر استيراد {file}:\n{details}',
+  'app.importUnreadable': 'تعذرت قراءة الملف.',
+  'app.resumeFailed': 'تعذرت استعادة هذه المغامرة. قد يكون الحفظ تالفًا.',
+  'app.replayCassette': 'تشغيل شريط مسجل',
+  'app.saveCassette': 'حفظ الشريط',
+  'app.replayNext': 'الاختيار التالي {step}/{total}',
+  'app.cassetteFailed': 'تعذر تحميل الشريط {file}:\n{details}',
+  'quick.detective': 'محقق سايبربانك',
+  'quick.forest': 'تائه في غابة سحرية',
+  'quick.zombie': 'مركز تسوق في نهاية العالم مع الزومبي',
+  'quick.mars': 'الهروب من مستعمرة المريخ',
+  'world.noir.hook': 'منتصف الليل في مكتبي المضاء بالنيون: غريبة بذراع معدنية لامعة تدفع إليّ صورة رجل مات بالأمس.',
+  'world.forest.hook': 'يختفي الطريق خلفي، ويسألني ثعلب يرتدي صدرية صغيرة إن كنت من تنتظره الأشجار.',
+  'world.zombie.hook': 'تعود أضواء المركز التجاري للوميض بعد الإغلاق، وشيء ما يخدش باب المتجر الذي أختبئ فيه.',
+  'world.mars.hook': 'توقظني الإنذارات في مستعمرة المريخ: القبة تسرّب الهواء، وآخر مكوك يغادر بعد عشر دقائق.',
+  'worlds.title': 'العوالم',
+  'worlds.new': 'عالم جديد',
+  'worlds.copy': 'نسخ عالم مدمج…',
+  'worlds.copyLabel': 'نسخ عالم مدمج',
+  'worlds.copyName': '{name} (نسخة)',
+  'worlds.import': 'استيراد JSON',
+  'worlds.export': 'تصدير JSON',
+  'worlds.empty': 'لا توجد عوالم خاصة بك بعد. أنشئ عالمًا جديدًا، أو انسخ عالمًا مدمجًا، أو استورد ملفًا شاركه أحدهم.',
+  'worlds.untitled': 'عالم بلا عنوان',
+  'worlds.remove': 'إزالة {name}',
+  'worlds.name': 'الاسم',
+  'worlds.genre': 'النوع',
+  'worlds.genrePlaceholder': 'مدينة غارقة من حوريات آلية ومهربين',
+  'worlds.ambience': 'الأجواء',
+  'worlds.hook': 'الافتتاحية',
+  'worlds.hookPlaceholder': 'اتركها فارغة لكتابة البداية في شاشة البداية',
+  'worlds.englishHint': 'تقرأ النماذج النوع والأسلوب الفني؛ اكتبهما بالإنجليزية للحصول على أفضل النتائج.',
+  'worlds.error.json': 'الملف ليس JSON صالحًا.',
+  'worlds.error.version': 'إصدار ملف العوالم غير مدعوم: {version}.',
+  'worlds.error.empty': 'لا يحتوي الملف على أي عالم.',
+  'worlds.error.notObject': 'العالم {number} ليس كائنًا.',
+  'worlds.error.tone': 'للعالم {number} نبرة غير معروفة "{tone}".',
+  'worlds.error.ambience': 'للعالم {number} أجواء غير معروفة "{ambience}".',
+  'ambience.nature': 'الطبيعة',
+  'ambience.mechanical': 'آلات',
+  'ambience.eerie': 'مخيفة',
+  'ambience.calm': 'هادئة',
+  'ambience.chaos': 'فوضى',
+  'ambience.underwater': 'تحت الماء',
+  'ambience.city': 'المدينة',
+  'ambience.storm': 'عاصفة',
+  'ambience.cave': 'كهف',
+  'ambience.space': 'الفضاء',
+  'ambience.fire': 'نار',
+  'loading.init': 'جارٍ تشغيل محرك الأحلام...',
+  'loading.narrative': 'جارٍ نسج القصة...',
+  'loading.choosing': 'المسار المختار: {label}...',
+  'loading.logic': 'القدر يتكشف...',
+  'loading.image': 'جارٍ رسم الواقع...',
+  'export.button': 'تصدير',
+  'export.html': 'HTML قابل للعب',
+  'export.chosen': 'المسار المختار',
+  'export.alternate': 'مسار بديل',
+  'export.deadEnd': 'طريق مسدود',
+  'export.replay': 'نهاية التسجيل · إعادة',
+  'saved.heading': 'متابعة',
+  'saved.resume': 'متابعة {title}',
+  'saved.scene': 'مشهد واحد',
+  'saved.scenes': '{count} مشاهد',
+  'saved.rename': 'إعادة تسمية',
+  'saved.copy': 'نسخ',
+  'saved.delete': 'حذف',
+  'saved.confirmDelete': 'حذف "{title}"؟',
+  'saved.failed': 'تعذر تحديث مغامراتك المحفوظة. قد تكون مساحة تخزين المتصفح ممتلئة أو محظورة.',
+  'canvas.awaiting': 'في انتظار الصورة...',
+  'canvas.rendering': 'جارٍ إنشاء الصورة...',
+  'canvas.retryImage': '{reason} · إعادة المحاولة',
+  'canvas.rewind': 'ترجيع',
+  'canvas.bible': 'المرجع',
+  'canvas.memory': 'الذاكرة',
+  'canvas.inspector': 'المراقب',
+  'canvas.option': 'الخيار 0{number}',
+  'canvas.yourAction': 'فعلك',
+  'canvas.explored': 'تم استكشافه',
+  'canvas.requires': 'يتطلب {item}',
+  'canvas.options': 'اختر ما تفعله. اضغط مفتاح رقم لاختيار خيار.',
+  'canvas.freeText': 'افعل شيئًا آخر...',
+  'canvas.freeTextLabel': 'اكتب فعلك الخاص',
+  'canvas.act': 'نفّذ',
+  'image.failed': 'فشلت الصورة',
+  'image.quota': 'تم بلوغ الحد',
+  'image.safety': 'الصورة محظورة',
+  'image.no-image': 'لم تصل أي صورة',
+  'image.network': 'انقطع الاتصال',
+  'image.timeout': 'انتهت المهلة',
+  'hud.vitality': 'الحيوية',
+  'hud.health': 'الصحة',
+  'hud.inventory': 'الحقيبة',
+  'ending.victory': 'النصر',
+  'ending.lost': 'فُقدت الإشارة',
+  'ending.victorySubtitle': 'الحلم يكتمل',
+  'ending.lostSubtitle': 'لم تنجُ من الحلم',
+  'ending.scenes': 'المشاهد',
+  'ending.items': 'الأغراض',
+  'ending.carried': 'كنت تحمل: {items}',
+  'ending.newAdventure': 'مغامرة جديدة',
+  'error.retry': 'أعد المحاولة بالفعل نفسه',
+  'error.dismiss': 'إعادة تشغيل النظام',
+  'error.quota.title': 'تم بلوغ الحد',
+  'error.quota.hint': 'استُنفدت حصة النموذج حاليًا. انتظر دقيقة قبل إعادة المحاولة، أو انتقل إلى وضع عدم الاتصال من الإعدادات.',
+  'error.safety.title': 'المشهد محظور',
+  'error.safety.hint': 'رفضت مرشحات الأمان هذا الدور. قد تعطي إعادة المحاولة مشهدًا مختلفًا، أو اختر طريقًا آخر.',
+  'error.malformed.title': 'إشارة تالفة',
+  'error.malformed.hint': 'أجاب النموذج بشيء ليس مشهدًا صالحًا. غالبًا ما تحل إعادة المحاولة المشكلة.',
+  'error.no-image.title': 'لا توجد صورة',
+  'error.no-image.hint': 'ردّ نموذج الصور دون صورة. أعد المحاولة لرسم المشهد من جديد.',
+  'error.network.title': 'انقطع الاتصال',
+  'error.network.hint': 'تعذر الوصول إلى تيار الأحلام. تحقق من اتصالك ثم أعد المحاولة.',
+  'error.timeout.title': 'انتهت المهلة',
+  'error.timeout.hint': 'استغرق النموذج وقتًا طويلًا في الرد. أعد المحاولة أو زد المهلة من الإعدادات.',
+  'error.aborted.title': 'أُلغي',
+  'error.aborted.hint': 'أُلغي الطلب قبل أن يكتمل.',
+  'error.unknown.title': 'خطأ فادح',
+  'error.unknown.hint': '',
+  'panel.close': 'إغلاق',
+  'panel.turn': 'الدور {number}',
+  'settings.engine': 'محرك القصة',
+  'settings.provider.auto': 'تلقائي',
+  'settings.provider.autoHint': 'Gemini عند وجود مفتاح API، وإلا فوضع عدم الاتصال.',
+  'settings.provider.gemini': 'Gemini',
+  'settings.provider.geminiHint': 'توليد مباشر للقصة والصور. يتطلب مفتاح API.',
+  'settings.provider.offline': 'دون اتصال',
+  'settings.provider.offlineHint': 'مشاهد إجرائية ثابتة ورسوم مؤقتة. دون شبكة.',
+  'settings.active': 'النشط:',
+  'settings.envProvider': '(محدد عبر DREAMSTREAM_PROVIDER)',
+  'settings.noApiKey': '(لا يوجد مفتاح API، يُستخدم وضع عدم الاتصال)',
+  'settings.style': 'أسلوب القصة',
+  'settings.language': 'اللغة',
+  'settings.readingLevel': 'مستوى القراءة',
+  'settings.reading.simple': 'بسيط (للقراء الصغار)',
+  'settings.reading.standard': 'عادي',
+  'settings.reading.advanced': 'أدبي',
+  'settings.length': 'طول المشهد',
+  'settings.length.short': 'قصير',
+  'settings.length.medium': 'متوسط',
+  'settings.length.long': 'طويل',
+  'settings.tone': 'النبرة',
+  'tone.balanced': 'غامضة',
+  'tone.lighthearted': 'مرحة',
+  'tone.dark': 'قاتمة',
+  'tone.humorous': 'مضحكة',
+  'settings.styleHint': 'ينطبق على مشاهد Gemini الجديدة؛ واللغة تغيّر الواجهة أيضًا. تبقى المغامرة باللغة التي بدأت بها. القصص دون اتصال والمستوردة تحتفظ بنصها الأصلي.',
+  'settings.content': 'المحتوى',
+  'settings.rating.kids': 'أطفال',
+  'settings.rating.kidsHint': 'مخاطر خفيفة فقط. لا موت ولا دماء ولا أسلحة ولا ألفاظ بذيئة.',
+  'settings.rating.teen': 'مراهقون',
+  'settings.rating.teenHint': 'حركة وخطر، دون مشاهد دموية أو تعذيب أو محتوى جنسي.',
+  'settings.rating.mature': 'بالغون',
+  'settings.rating.matureHint': 'مواضيع أكثر قتامة وعنف، دون مبالغة.',
+  'settings.blocklist': 'كلمات محظورة إضافية',
+  'settings.blocklistPlaceholder': 'افصل بينها بفواصل أو أسطر جديدة. أنهِ الكلمة بـ * لحظر كل نهاياتها.',
+  'settings.blocklistHint': 'يُعاد توليد المشهد الذي يحتوي كلمة محظورة مرة واحدة، ثم يُحظر الدور. مقاطع القصص المستوردة تُحظر مباشرة. القوائم المدمجة باللغة الإنجليزية.',
+  'settings.removeLock': 'إزالة الرقابة الأبوية',
+  'settings.pin': 'الرمز',
+  'settings.newPin': 'رمز جديد ({count} أحرف على الأقل)',
+  'settings.pinLabel': 'رمز الرقابة الأبوية',
+  'settings.newPinLabel': 'رمز جديد للرقابة الأبوية',
+  'settings.unlock': 'فتح القفل',
+  'settings.lock': 'قفل',
+  'settings.locked': 'مقفل: أدخل الرمز لتغيير إعدادات المحتوى واللعب.',
+  'settings.lockHint': 'تحمي الرقابة الأبوية التصنيف والكلمات المحظورة والأفعال المكتوبة.',
+  'settings.wrongPin': 'رمز خاطئ.',
+  'settings.pinUnavailable': 'تتطلب الرقابة الأبوية اتصالًا آمنًا (HTTPS) ولا يمكن استخدامها هنا.',
+  'settings.freeText': 'السماح للاعبين بكتابة أفعالهم الخاصة',
+  'settings.freeTextHint': 'أوقفه للعب الموجَّه أو للأطفال: يمكن اختيار الخيارات المعروضة فقط. القصص المستوردة لا تقبل الأفعال المكتوبة أبدًا.',
+  'settings.audio': 'الصوت',
+  'settings.mute': 'كتم كل الأصوات',
+  'settings.volume.master': 'الرئيسي',
+  'settings.volume.ambience': 'الأجواء',
+  'settings.volume.music': 'الموسيقى',
+  'settings.volume.sfx': 'المؤثرات',
+  'settings.motion': 'النص والحركة',
+  'settings.instantText': 'إظهار النص فورًا',
+  'settings.reducedMotion': 'تقليل الحركة',
+  'settings.textSpeed': 'سرعة النص · {ms} ملي ثانية/حرف',
+  'settings.transition': 'الانتقال · {seconds} ث',
+  'settings.motionHint': 'يوقف تقليل الحركة التحريك البطيء فوق صور المشاهد والجزيئات العائمة في شاشة البداية. ويكون مفعّلًا دائمًا عندما يطلب نظامك تقليل الحركة.',
+  'settings.narration': 'السرد الصوتي',
+  'settings.narrate': 'قراءة كل مشهد بصوت عالٍ',
+  'settings.voice': 'الصوت',
+  'settings.defaultVoice': 'الافتراضي في المتصفح',
+  'settings.narrationRate': 'السرعة · {rate}x',
+  'settings.preview': 'معاينة',
+  'settings.previewLine': 'تيار الأحلام يصغي إليك.',
+  'settings.narrationHint': 'تُبرز الكلمات أثناء نطقها وتنخفض الأجواء تحت الصوت.',
+  'settings.noSpeech': 'لا يدعم هذا المتصفح تحويل النص إلى كلام.',
+  'settings.prefetching': 'التحميل المسبق',
+  'settings.prefetch': 'توليد المشاهد القادمة في الخلفية',
+  'settings.concurrency': 'الطلبات المتوازية',
+  'settings.costCap': 'الحد الأقصى لكل مغامرة',
+  'settings.prefetchHint': 'كل مشهد محمّل مسبقًا يكلّف توليدًا كاملًا للقصة والصورة، حتى لو لم يُختر ذلك الخيار أبدًا.',
+  'settings.network': 'الشبكة',
+  'settings.retries': 'المحاولات',
+  'settings.timeout': 'المهلة (بالثواني)',
+  'settings.networkHint': 'يُعاد إرسال الطلبات عند حدود الاستخدام وانتهاء المهلة وانقطاع الاتصال بفواصل متزايدة قبل الاستسلام.',
+  'settings.developer': 'المطوّر',
+  'settings.record': 'تسجيل الجلسات على أشرطة',
+  'settings.recordHint': 'تسجّل المغامرات الجديدة كل طلب ورد من النموذج مع اختياراتك. احفظ الشريط من الترويسة أثناء اللعب، وأعد تشغيله من شاشة البداية دون شبكة.',
+  'settings.drift': 'انحراف النموذج',
+  'settings.noDrift': 'لم يُفحص أي مشهد من النموذج بعد.',
+  'settings.driftSummary': 'خالف {drifted} من {total} مشهدًا قواعد المشهد ({repaired} أُصلحت، {reprompted} أُعيد طلبها، {failed} فشلت).',
+  'settings.reset': 'إعادة تعيين',
+  'tree.title': 'مسارات القصة',
+  'bible.title': 'الدليل البصري',
+  'bible.artStyle': 'الأسلوب الفني',
+  'bible.reference': 'استخدام صورة المشهد السابق مرجعًا',
+  'bible.character': 'شخصية',
+  'bible.location': 'مكان',
+  'bible.name': 'الاسم',
+  'bible.remove': 'إزالة {name}',
+  'bible.entry': 'عنصر',
+  'bible.appearance': 'المظهر: الألوان، الملابس، الأشكال...',
+  'bible.locked': 'مثبّت',
+  'bible.add': 'إضافة عنصر',
+  'memory.title': 'الذاكرة المرسلة في كل دور',
+  'memory.typed': 'مكتوب:',
+  'memory.tokens': '~{count} رمزًا',
+  'memory.notRecorded': '(غير مسجّلة لهذا المشهد)',
+  'inspector.title': 'استدعاءات النموذج',
+  'inspector.export': 'تصدير JSON',
+  'inspector.clear': 'مسح',
+  'inspector.session': 'الجلسة',
+  'inspector.summary': '{calls} استدعاءات · {prompt} رموز داخلة / {response} خارجة · {latency} · {retries} محاولات',
+  'inspector.failed': '{count} فشلت',
+  'inspector.attempts': '{count} محاولات',
+  'inspector.tokens': '{count} رمزًا',
+  'inspector.system': 'تعليمات النظام',
+  'inspector.prompt': 'الطلب',
+  'inspector.response': 'الرد',
+  'inspector.noResponse': '(لا يوجد رد)',
+  'inspector.noCalls': '(لا توجد استدعاءات مسجّلة)',
+  'inspector.unplayed': 'عمليات تحميل مسبق لم تُلعب وأدوار فاشلة',
+};
+
+const MESSAGES: Record<Language, Messages> = { en, es, fr, de, ja, ar };
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+export const getTranslator = (language: Language): Translate => {
+  const messages = MESSAGES[language] ?? en;
+  return (key, params) => {
+    const message = messages[key] ?? en[key];
+    return params ? message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : message;
+  };
+};
@@ -0,0 +1,30 @@
+// Image helpers for working with the base64 data URLs returned by the image model.
+
+// Downscale an image to a small JPEG so saved-adventure lists don't have to
+// load full-resolution scene images.
+export const createThumbnail = (dataUrl: string, maxWidth = 240): Promise<string> => {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, maxWidth / img.width);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        resolve(dataUrl);
+        return;
+      }
+      try {
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/jpeg', 0.7));
+      } catch {
+        // Some browsers taint the canvas when drawing SVG data URLs
+        resolve(dataUrl);
+      }
+    };
+    // Fall back to the original image rather than failing the save
+    img.onerror = () => resolve(dataUrl);
+    img.src = dataUrl;
+  });
+};
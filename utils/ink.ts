@@ -0,0 +1,206 @@
+import { AuthoredStory, AuthoredPassage, SceneData } from '../types';
+import { ImportIssue, StoryImportError, validateStory, cleanPassageText, createPassage, findPassage } from './storyImport';
+import { passageNames, UNEXPLORED_TEXT } from './storyExport';
+import { getBranchOptions } from './storyTree';
+
+// Ink import and export.
+// Only the branching subset maps onto scenes: knots, stitches, tags, choices and
+// diverts. Choices that carry their own content become anonymous passages.
+
+const START = '__start';
+const ENDINGS = new Set(['END', 'DONE']);
+
+const KNOT = /^={2,}\s*(function\s+)?([\w.]+)\s*(?:\(.*\))?\s*=*\s*$/;
+const STITCH = /^=\s*(\w+)\s*$/;
+const CHOICE = /^([*+]+)\s*(?:\([\w]+\)\s*)?(?:\{[^}]*\}\s*)*(.*)$/;
+const DIVERT = /->\s*([\w.]+)\s*$/;
+
+// Exported prose is escaped with backslashes wherever Ink would read it as markup:
+// comments, diverts, tags, logic braces, glue, and line starts that open a knot,
+// choice, gather, logic line, thread or declaration.
+const escapeInk = (text: string) =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/\/(?=[/*])/g, '/\\')
+    .replace(/->/g, '-\\>')
+    .replace(/<>/g, '<\\>')
+    .replace(/[#{}]/g, '\\$&')
+    .replace(/^(\s*)([-*+=~]|<-|(?:VAR|CONST|LIST|INCLUDE|EXTERNAL)\b)/gm, '$1\\$2');
+
+const unescapeInk = (text: string) => text.replace(/\\(.)/g, '$1');
+
+// "Before [and after]" renders as "Before" on the choice button in Ink
+const choiceLabel = (text: string) => {
+  const bracket = text.match(/^(.*?)\[(.*?)\]/);
+  return (bracket ? `${bracket[1]}${bracket[2]}` : text).trim();
+};
+
+export const parseInk = (source: string): AuthoredStory => {
+  const issues: ImportIssue[] = [];
+  const story: AuthoredStory = { title: 'Imported Story', format: 'ink', start: '', passages: Object.create(null) };
+  const lines = source
+    .replace(/\r\n?/g, '\n')
+    .replace(/\/\*[\s\S]*?\*\//g, m => m.replace(/[^\n]/g, '')) // keep line numbers stable
+    .split('\n');
+
+  let knot = '';
+  let current: AuthoredPassage = createPassage(START);
+  let choice: AuthoredPassage | null = null; // Passage collecting content under a choice
+  const body = new Map<AuthoredPassage, string[]>();
+  const addPassage = (passage: AuthoredPassage, line: number) => {
+    if (findPassage(story, passage.name)) {
+      issues.push({ passage: passage.name, line, message: 'Duplicate knot name.' });
+    }
+    story.passages[passage.name] = passage;
+    body.set(passage, []);
+  };
+  addPassage(current, 1);
+
+  const pending: { passage: AuthoredPassage; knot: string; label: string; target: string }[] = [];
+
+  lines.forEach((rawLine, i) => {
+    const lineNo = i + 1;
+    const line = rawLine.replace(/\/\/.*$/, '').trim();
+    if (!line) return;
+
+    const titleTag = line.match(/^#\s*title\s*:\s*(.+)$/i);
+    if (titleTag && current.name === START) {
+      story.title = unescapeInk(titleTag[1].trim());
+      return;
+    }
+    if (/^(VAR|CONST|LIST|INCLUDE|EXTERNAL|~)\b/.test(line) || line.startsWith('~')) return;
+
+    const knotMatch = line.match(KNOT);
+    if (knotMatch) {
+      if (knotMatch[1]) {
+        issues.push({ passage: knotMatch[2], line: lineNo, message: 'Ink functions are not supported.' });
+      }
+      knot = knotMatch[2];
+      current = createPassage(knot);
+      choice = null;
+      addPassage(current, lineNo);
+      return;
+    }
+    const stitchMatch = line.match(STITCH);
+    if (stitchMatch) {
+      if (!knot) {
+        issues.push({ passage: stitchMatch[1], line: lineNo, message: 'Stitch declared outside of a knot.' });
+        return;
+      }
+      const stitch = createPassage(`${knot}.${stitchMatch[1]}`);
+      // Falling into the first stitch is implicit in Ink
+      if (current.name === knot && current.links.length === 0 && !body.get(current)!.length) {
+        current.links.push({ label: 'Continue', target: stitch.name });
+      }
+      current = stitch;
+      choice = null;
+      addPassage(current, lineNo);
+      return;
+    }
+
+    const choiceMatch = line.match(CHOICE);
+    if (choiceMatch) {
+      if (choiceMatch[1].length > 1) {
+        issues.push({ passage: current.name, line: lineNo, message: 'Nested choices are not supported; move them into their own knot.' });
+        return;
+      }
+      const rest = choiceMatch[2];
+      const divert = rest.match(DIVERT);
+      const label = unescapeInk(choiceLabel(divert ? rest.slice(0, divert.index) : rest));
+      if (!label) {
+        issues.push({ passage: current.name, line: lineNo, message: 'Choice has no text.' });
+        return;
+      }
+      if (divert) {
+        pending.push({ passage: current, knot, label, target: divert[1] });
+        choice = null;
+      } else {
+        // Content under the choice becomes its own passage
+        const inner = createPassage(`${current.name}#${current.links.length + pending.filter(p => p.passage === current).length + 1}`);
+        addPassage(inner, lineNo);
+        pending.push({ passage: current, knot, label, target: inner.name });
+        choice = inner;
+      }
+      return;
+    }
+
+    if (/^-(?!>)/.test(line)) {
+      issues.push({ passage: current.name, line: lineNo, message: 'Gathers are not supported; divert to a knot instead.' });
+      return;
+    }
+
+    const target = choice ?? current;
+    if (line.startsWith('#')) {
+      target.tags.push(...line.split('#').map(t => t.trim()).filter(Boolean));
+      return;
+    }
+    const divert = line.match(/^->\s*([\w.]+)\s*$/);
+    if (divert) {
+      pending.push({ passage: target, knot, label: 'Continue', target: divert[1] });
+      if (choice) choice = null;
+      return;
+    }
+    if (line.includes('->')) {
+      issues.push({ passage: target.name, line: lineNo, message: `Unsupported divert "${line}".` });
+      return;
+    }
+    body.get(target)!.push(unescapeInk(line));
+  });
+
+  for (const link of pending) {
+    if (ENDINGS.has(link.target)) {
+      if (!link.passage.tags.includes('end')) link.passage.tags.push('end');
+      continue;
+    }
+    // Diverts may name a stitch relative to the knot they appear in
+    const local = `${link.knot}.${link.target}`;
+    const target = link.knot && findPassage(story, local) ? local : link.target;
+    link.passage.links.push({ label: link.label, target });
+  }
+  for (const [passage, text] of body) {
+    passage.text = cleanPassageText(text.join('\n'));
+  }
+
+  // Top-level content is the real start; a bare "-> knot" there just picks the first knot
+  const top = story.passages[START];
+  if (!top.text && top.tags.length === 0 && top.links.length <= 1) {
+    delete story.passages[START];
+    story.start = top.links[0]?.target ?? Object.keys(story.passages)[0] ?? '';
+  } else {
+    story.start = START;
+  }
+
+  validateStory(story, issues);
+  if (issues.length > 0) throw new StoryImportError(issues);
+  return story;
+};
+
+const knotName = (name: string) => name.toLowerCase().replace(/\W+/g, '_');
+
+export const exportInk = (title: string, history: SceneData[]): string => {
+  const names = passageNames(history);
+  const root = history.find(s => s.parentId === null);
+  const out: string[] = [`# title: ${escapeInk(title)}`, ''];
+  if (root) out.push(`-> ${knotName(names.get(root.id)!)}`, '');
+  const stubs: string[] = [];
+
+  for (const scene of history) {
+    const knot = knotName(names.get(scene.id)!);
+    const children = history.filter(s => s.parentId === scene.id);
+    out.push(`=== ${knot} ===`, `# ${scene.ambience}`, escapeInk(scene.narrative));
+
+    getBranchOptions(history, scene).forEach((option, idx) => {
+      const child = children.find(c =>
+        c.chosenOption?.label === option.label && c.chosenOption?.actionPrompt === option.actionPrompt
+      );
+      const target = child ? knotName(names.get(child.id)!) : `${knot}_unexplored_${idx + 1}`;
+      // Brackets keep the choice text from being printed again after it is picked
+      out.push(`* [${escapeInk(option.label.replace(/[[\]]/g, ''))}] -> ${target}`);
+      if (!child) stubs.push(`=== ${target} ===`, '# unexplored', UNEXPLORED_TEXT, '-> END', '');
+    });
+    if (scene.options.length === 0) out.push('-> END');
+    out.push('');
+  }
+
+  return [...out, ...stubs].join('\n');
+};
@@ -0,0 +1,276 @@
+// Generative music.
+// Each ambience has a style (key, mode, tempo, chord progression, how busy the melody is).
+// Tension darkens the mode and pushes the tempo; a MusicEngine plays the style as bars of
+// pads, bass and motif notes, and only switches to a new mood at the start of a bar.
+
+export type Mode = 'lydian' | 'ionian' | 'mixolydian' | 'dorian' | 'aeolian' | 'phrygian' | 'locrian';
+
+// Semitones above the tonic, ordered from brightest to darkest
+const MODES: Record<Mode, number[]> = {
+  lydian: [0, 2, 4, 6, 7, 9, 11],
+  ionian: [0, 2, 4, 5, 7, 9, 11],
+  mixolydian: [0, 2, 4, 5, 7, 9, 10],
+  dorian: [0, 2, 3, 5, 7, 9, 10],
+  aeolian: [0, 2, 3, 5, 7, 8, 10],
+  phrygian: [0, 1, 3, 5, 7, 8, 10],
+  locrian: [0, 1, 3, 5, 6, 8, 10],
+};
+const MODE_ORDER = Object.keys(MODES) as Mode[];
+
+export interface MusicStyle {
+  root: number; // MIDI note of the tonic, in the pad register
+  mode: Mode; // Mode at neutral tension
+  bpm: number;
+  progression: number[]; // Scale degree (0-based) of the chord for each bar
+  motif: number; // 0-1, chance of a melody note on each eighth
+}
+
+// A style resolved for one tension value; this is what a bar is played from
+export interface MusicMood {
+  root: number;
+  mode: Mode;
+  scale: number[];
+  bpm: number;
+  progression: number[];
+  motif: number;
+  tension: number;
+}
+
+const BEATS_PER_BAR = 4;
+const STEPS_PER_BAR = 8; // Eighth notes
+const LOOKAHEAD = 1; // Bars starting within this many seconds are scheduled
+const SCHEDULE_INTERVAL_MS = 250;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const midiToFrequency = (note: number) => 440 * 2 ** ((note - 69) / 12);
+
+export const resolveMood = (style: MusicStyle, tension = 0.5): MusicMood => {
+  tension = clamp01(tension);
+  // Up to two modes brighter when relaxed, two darker when tense
+  const shift = Math.round((tension - 0.5) * 4);
+  const index = Math.min(MODE_ORDER.length - 1, Math.max(0, MODE_ORDER.indexOf(style.mode) + shift));
+  const mode = MODE_ORDER[index];
+  return {
+    root: style.root,
+    mode,
+    scale: MODES[mode],
+    bpm: Math.round(style.bpm * (0.8 + tension * 0.4)),
+    progression: style.progression.length > 0 ? style.progression : [0],
+    motif: clamp01(style.motif * (0.5 + tension)),
+    tension,
+  };
+};
+
+export const barDuration = (mood: MusicMood) => (60 / mood.bpm) * BEATS_PER_BAR;
+
+const sameMood = (a: MusicMood, b: MusicMood) =>
+  a.root === b.root && a.mode === b.mode && a.bpm === b.bpm && a.motif === b.motif
+  && a.progression.join() === b.progression.join();
+
+export interface MusicEngineOptions {
+  random?: () => number;
+}
+
+export class MusicEngine {
+  readonly ctx: BaseAudioContext;
+  readonly output: GainNode;
+  private padFilter: BiquadFilterNode;
+  private nodes = new Set<AudioNode>();
+  private sources = new Set<AudioScheduledSourceNode>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private random: () => number;
+  private pending: MusicMood | null = null;
+  private bar = 0; // Position in the progression
+  private melodyDegree = 7; // Random walk position, one octave above the tonic
+  private stopping = false;
+  mood: MusicMood;
+  nextBarTime: number;
+  barStarts: { time: number; mood: MusicMood }[] = []; // Most recent scheduled bars, oldest first
+  disposed = false;
+
+  constructor(ctx: BaseAudioContext, destination: AudioNode, mood: MusicMood, options: MusicEngineOptions = {}) {
+    this.ctx = ctx;
+    this.random = options.random ?? Math.random;
+    this.mood = mood;
+    this.nextBarTime = ctx.currentTime + 0.05;
+
+    this.output = this.own(ctx.createGain());
+    this.output.gain.value = 0;
+    this.output.connect(destination);
+
+    this.padFilter = this.own(ctx.createBiquadFilter());
+    this.padFilter.type = 'lowpass';
+    this.padFilter.connect(this.output);
+
+    this.scheduleBars();
+    this.timer = setInterval(() => this.scheduleBars(), SCHEDULE_INTERVAL_MS);
+  }
+
+  get activeSources() {
+    return this.sources.size;
+  }
+
+  get nodeCount() {
+    return this.nodes.size;
+  }
+
+  fadeIn(duration: number, level = 1) {
+    const now = this.ctx.currentTime;
+    this.output.gain.cancelScheduledValues(now);
+    this.output.gain.setValueAtTime(this.output.gain.value, now);
+    this.output.gain.linearRampToValueAtTime(level, now + duration);
+  }
+
+  // Takes effect at the first bar that has not been scheduled yet
+  setMood(mood: MusicMood) {
+    if (this.stopping) return;
+    this.pending = sameMood(mood, this.mood) ? null : mood;
+  }
+
+  fadeOut(duration: number) {
+    if (this.stopping) return;
+    this.stopping = true;
+    this.clearTimer();
+
+    const now = this.ctx.currentTime;
+    const end = now + duration;
+    this.output.gain.cancelScheduledValues(now);
+    this.output.gain.setValueAtTime(this.output.gain.value, now);
+    this.output.gain.linearRampToValueAtTime(0, end);
+
+    if (this.sources.size === 0) {
+      this.dispose();
+      return;
+    }
+    for (const source of this.sources) {
+      try {
+        source.stop(end);
+      } catch {
+        // Already stopped
+      }
+    }
+  }
+
+  dispose() {
+    if (this.disposed) return;
+    this.disposed = true;
+    this.stopping = true;
+    this.clearTimer();
+    for (const source of this.sources) {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // Already stopped
+      }
+    }
+    this.sources.clear();
+    for (const node of this.nodes) node.disconnect();
+    this.nodes.clear();
+  }
+
+  // Schedule every bar that starts within LOOKAHEAD seconds
+  scheduleBars() {
+    if (this.stopping) return;
+    const now = this.ctx.currentTime;
+    // Fell behind (e.g. the context was suspended): start a fresh bar right away
+    if (this.nextBarTime < now) this.nextBarTime = now + 0.05;
+
+    while (this.nextBarTime < now + LOOKAHEAD) {
+      if (this.pending) {
+        this.mood = this.pending;
+        this.pending = null;
+        this.bar = 0;
+      }
+      this.playBar(this.nextBarTime);
+      this.barStarts = [...this.barStarts, { time: this.nextBarTime, mood: this.mood }].slice(-8);
+      this.nextBarTime += barDuration(this.mood);
+      this.bar += 1;
+    }
+  }
+
+  private clearTimer() {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private own<T extends AudioNode>(node: T): T {
+    this.nodes.add(node);
+    return node;
+  }
+
+  // Scale degree to MIDI note; degrees past the scale wrap into higher octaves
+  private noteFor(degree: number, octave = 0) {
+    const { scale, root } = this.mood;
+    const wrapped = ((degree % scale.length) + scale.length) % scale.length;
+    return root + scale[wrapped] + 12 * (Math.floor(degree / scale.length) + octave);
+  }
+
+  private playBar(when: number) {
+    const { progression, tension, motif } = this.mood;
+    const length = barDuration(this.mood);
+    const step = length / STEPS_PER_BAR;
+    const degree = progression[this.bar % progression.length];
+
+    // Tense music is darker and muddier
+    this.padFilter.frequency.setValueAtTime(2400 - tension * 1600, when);
+
+    // Pad: the chord swells across the bar and overlaps the next one slightly
+    for (const offset of [0, 2, 4]) {
+      this.playNote(this.noteFor(degree + offset), when, length + 0.4, {
+        wave: 'triangle', level: 0.07, attack: length * 0.3, destination: this.padFilter,
+      });
+    }
+
+    // Bass: the chord root on the first beat, and on the third once things get tense
+    const bass = this.noteFor(degree, -1);
+    this.playNote(bass, when, step * 3, { wave: 'sine', level: 0.18, attack: 0.02 });
+    if (tension > 0.6) {
+      this.playNote(bass, when + step * 4, step * 2, { wave: 'sine', level: 0.14, attack: 0.02 });
+    }
+
+    // Motif: a random walk over the scale, staying near the chord
+    for (let i = 0; i < STEPS_PER_BAR; i++) {
+      if (this.random() >= motif) continue;
+      const move = Math.floor(this.random() * 5) - 2;
+      this.melodyDegree = Math.min(14, Math.max(4, this.melodyDegree + move));
+      this.playNote(this.noteFor(this.melodyDegree), when + i * step, step * 1.5, {
+        wave: 'sine', level: 0.06, attack: 0.01,
+      });
+    }
+  }
+
+  // A single enveloped note; its nodes are released when it ends
+  private playNote(note: number, when: number, duration: number, voice: { wave: OscillatorType; level: number; attack: number; destination?: AudioNode }) {
+    const osc = this.ctx.createOscillator();
+    osc.type = voice.wave;
+    osc.frequency.value = midiToFrequency(note);
+
+    const env = this.own(this.ctx.createGain());
+    const end = when + duration;
+    const peak = when + Math.min(voice.attack, duration / 2);
+    env.gain.setValueAtTime(0, when);
+    env.gain.linearRampToValueAtTime(voice.level, peak);
+    env.gain.setValueAtTime(voice.level, Math.max(peak, end - duration * 0.3));
+    env.gain.linearRampToValueAtTime(0, end);
+
+    osc.connect(env);
+    env.connect(voice.destination ?? this.output);
+
+    this.own(osc);
+    this.sources.add(osc);
+    osc.onended = () => {
+      osc.disconnect();
+      env.disconnect();
+      this.nodes.delete(osc);
+      this.nodes.delete(env);
+      this.sources.delete(osc);
+      if (this.stopping && this.sources.size === 0) this.dispose();
+    };
+    osc.start(when);
+    osc.stop(end);
+  }
+}
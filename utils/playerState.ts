@@ -0,0 +1,78 @@
+import { PlayerState, StateDelta, SceneEnding, ActionOption } from '../types';
+
+// Player state rules. Model output is untrusted, so deltas are sanitized before
+// they are applied and the resulting state is always clamped to valid values.
+
+export const INITIAL_PLAYER_STATE: PlayerState = {
+  health: 10,
+  maxHealth: 10,
+  items: [],
+  flags: [],
+};
+
+const MAX_ENTRIES = 5; // Per list in a single delta
+const MAX_LENGTH = 40; // Characters per item or flag name
+
+const sanitizeList = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((v): v is string => typeof v === 'string')
+    .map(v => v.trim().slice(0, MAX_LENGTH))
+    .filter(Boolean)
+    .slice(0, MAX_ENTRIES);
+};
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export const sanitizeDelta = (raw: unknown, maxHealth = INITIAL_PLAYER_STATE.maxHealth): StateDelta => {
+  if (!raw || typeof raw !== 'object') return {};
+  const delta = raw as Record<string, unknown>;
+  const health = typeof delta.health === 'number' && Number.isFinite(delta.health)
+    ? Math.max(-maxHealth, Math.min(maxHealth, Math.round(delta.health)))
+    : 0;
+
+  return {
+    health,
+    itemsGained: sanitizeList(delta.itemsGained),
+    itemsLost: sanitizeList(delta.itemsLost),
+    flagsSet: sanitizeList(delta.flagsSet),
+    flagsCleared: sanitizeList(delta.flagsCleared),
+  };
+};
+
+export const applyStateDelta = (state: PlayerState, delta: StateDelta): PlayerState => {
+  const lost = delta.itemsLost ?? [];
+  const items = state.items.filter(item => !lost.some(l => sameName(l, item)));
+  for (const gained of delta.itemsGained ?? []) {
+    if (!items.some(item => sameName(item, gained))) items.push(gained);
+  }
+
+  const cleared = delta.flagsCleared ?? [];
+  const flags = state.flags.filter(flag => !cleared.some(c => sameName(c, flag)));
+  for (const flag of delta.flagsSet ?? []) {
+    if (!flags.some(f => sameName(f, flag))) flags.push(flag);
+  }
+
+  return {
+    ...state,
+    health: Math.max(0, Math.min(state.maxHealth, state.health + (delta.health ?? 0))),
+    items,
+    flags,
+  };
+};
+
+// Running out of health always ends the story, whatever the model said.
+export const resolveEnding = (ending: unknown, state: PlayerState): SceneEnding | null => {
+  if (state.health <= 0) return 'death';
+  return ending === 'death' || ending === 'victory' ? ending : null;
+};
+
+export const canChoose = (option: ActionOption, state: PlayerState): boolean =>
+  !option.requiresItem || state.items.some(item => sameName(item, option.requiresItem!));
+
+export const formatPlayerState = (state: PlayerState): string =>
+  [
+    `Player health: ${state.health}/${state.maxHealth}`,
+    `Inventory: ${state.items.length ? state.items.join(', ') : 'empty'}`,
+    `Flags: ${state.flags.length ? state.flags.join(', ') : 'none'}`,
+  ].join('\n');
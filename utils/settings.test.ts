@@ -0,0 +1,61 @@
+// @vitest-environment jsdom
+import { describe, it, expect, afterEach } from 'vitest';
+import { DEFAULT_SETTINGS, loadSettings, saveSettings } from './settings';
+
+const store = (value: unknown) => localStorage.setItem('dreamstream:settings', JSON.stringify(value));
+
+afterEach(() => {
+  localStorage.clear();
+});
+
+describe('loadSettings', () => {
+  it('returns the defaults when nothing is stored or the value is unreadable', () => {
+    expect(loadSettings()).toEqual(DEFAULT_SETTINGS);
+
+    localStorage.setItem('dreamstream:settings', '{');
+    expect(loadSettings()).toEqual(DEFAULT_SETTINGS);
+
+    store(['fr']);
+    expect(loadSettings()).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('round-trips saved settings', () => {
+    const settings = { ...DEFAULT_SETTINGS, language: 'ja' as const, tone: 'dark' as const, musicVolume: 0.8, parentalPin: 'f'.repeat(64) };
+    saveSettings(settings);
+
+    expect(loadSettings()).toEqual(settings);
+  });
+
+  it('fills fields missing from settings saved by an older version', () => {
+    store({ language: 'de', muted: true });
+
+    expect(loadSettings()).toEqual({ ...DEFAULT_SETTINGS, language: 'de', muted: true });
+  });
+
+  it('falls back to the default for each field that does not check out, keeping the rest', () => {
+    store({
+      language: 'toString',
+      contentRating: 'anything',
+      provider: 'openai',
+      tone: 'grim',
+      masterVolume: 3,
+      textSpeed: '30',
+      transitionMs: -1,
+      prefetchConcurrency: 1.5,
+      requestTimeoutSeconds: null,
+      allowFreeText: 'no',
+      parentalPin: '1234',
+      narrationVoice: 'Samantha',
+    });
+
+    expect(loadSettings()).toEqual({ ...DEFAULT_SETTINGS, narrationVoice: 'Samantha' });
+  });
+
+  it('ignores keys that are not settings', () => {
+    localStorage.setItem('dreamstream:settings', '{"language":"es","__proto__":{"developerMode":true},"extra":1}');
+
+    const settings = loadSettings();
+    expect(settings).toEqual({ ...DEFAULT_SETTINGS, language: 'es' });
+    expect('extra' in settings).toBe(false);
+  });
+});
@@ -0,0 +1,149 @@
+import { ProviderId, ReadingLevel, NarrativeLength, StoryTone, Language, ContentRating } from '../types';
+import { DEFAULT_MIX } from './audio';
+import { detectLanguage, isLanguage, MessageKey } from './i18n';
+
+// User preferences, persisted to localStorage.
+
+export interface Settings {
+  provider: ProviderId | 'auto'; // 'auto' uses Gemini when an API key is configured
+  prefetch: boolean; // Generate follow-up scenes for visible options in the background
+  prefetchConcurrency: number;
+  prefetchCostCap: number; // Max speculative scene generations per adventure
+  narration: boolean; // Read each scene aloud
+  narrationVoice: string; // Voice id, empty for the browser default
+  narrationRate: number;
+  allowFreeText: boolean; // Typed actions next to the offered options; off for guided/kids play
+  requestRetries: number; // Automatic retries for transient model errors
+  requestTimeoutSeconds: number; // Per attempt
+  masterVolume: number; // 0-1
+  ambienceVolume: number;
+  musicVolume: number;
+  sfxVolume: number;
+  muted: boolean;
+  textSpeed: number; // Milliseconds per character of the typewriter
+  instantText: boolean; // Show the whole narrative at once
+  transitionMs: number; // Scene entrance before the text and options appear
+  reducedMotion: boolean; // No image panning or floating particles
+  readingLevel: ReadingLevel;
+  narrativeLength: NarrativeLength;
+  tone: StoryTone;
+  language: Language; // Interface language and the language new stories are written in
+  contentRating: ContentRating;
+  blocklist: string; // Extra blocked words, comma or newline separated
+  parentalPin: string; // SHA-256 of the PIN guarding the content settings, empty when there is no lock
+  developerMode: boolean; // Record sessions to cassettes and replay them
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  provider: 'auto',
+  prefetch: true,
+  prefetchConcurrency: 2,
+  prefetchCostCap: 30,
+  narration: false,
+  narrationVoice: '',
+  narrationRate: 0.9,
+  allowFreeText: true,
+  requestRetries: 2,
+  requestTimeoutSeconds: 45,
+  masterVolume: DEFAULT_MIX.master,
+  ambienceVolume: DEFAULT_MIX.ambience,
+  musicVolume: DEFAULT_MIX.music,
+  sfxVolume: DEFAULT_MIX.sfx,
+  muted: false,
+  textSpeed: 30,
+  instantText: false,
+  transitionMs: 2000,
+  reducedMotion: false,
+  readingLevel: 'simple',
+  narrativeLength: 'medium',
+  tone: 'balanced',
+  language: detectLanguage(),
+  contentRating: 'kids',
+  blocklist: '',
+  parentalPin: '',
+  developerMode: false,
+};
+
+// Shared by the settings panel and the world editor
+export const TONES: { value: StoryTone; label: MessageKey }[] = [
+  { value: 'balanced', label: 'tone.balanced' },
+  { value: 'lighthearted', label: 'tone.lighthearted' },
+  { value: 'dark', label: 'tone.dark' },
+  { value: 'humorous', label: 'tone.humorous' },
+];
+
+const STORAGE_KEY = 'dreamstream:settings';
+
+// crypto.subtle only exists on secure origins (https or localhost)
+export const canHashPin = () => !!globalThis.crypto?.subtle;
+
+// Keeps the PIN itself out of localStorage
+export const hashPin = async (pin: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`dreamstream:${pin}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isBoolean = (value: unknown) => typeof value === 'boolean';
+const isString = (value: unknown) => typeof value === 'string';
+const oneOf = (...values: string[]) => (value: unknown) => values.includes(value as string);
+// Same bounds as the settings panel offers
+const inRange = (min: number, max: number) => (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+const SETTING_CHECKS: Record<keyof Settings, (value: unknown) => boolean> = {
+  provider: oneOf('auto', 'gemini', 'offline'),
+  prefetch: isBoolean,
+  prefetchConcurrency: value => Number.isInteger(value) && inRange(1, 3)(value),
+  prefetchCostCap: value => Number.isInteger(value) && inRange(0, 200)(value),
+  narration: isBoolean,
+  narrationVoice: isString,
+  narrationRate: inRange(0.5, 1.5),
+  allowFreeText: isBoolean,
+  requestRetries: value => Number.isInteger(value) && inRange(0, 5)(value),
+  requestTimeoutSeconds: inRange(5, 300),
+  masterVolume: inRange(0, 1),
+  ambienceVolume: inRange(0, 1),
+  musicVolume: inRange(0, 1),
+  sfxVolume: inRange(0, 1),
+  muted: isBoolean,
+  textSpeed: inRange(5, 80),
+  instantText: isBoolean,
+  transitionMs: inRange(0, 4000),
+  reducedMotion: isBoolean,
+  readingLevel: oneOf('simple', 'standard', 'advanced'),
+  narrativeLength: oneOf('short', 'medium', 'long'),
+  tone: value => TONES.some(tone => tone.value === value),
+  language: isLanguage,
+  contentRating: oneOf('kids', 'teen', 'mature'),
+  blocklist: isString,
+  parentalPin: value => typeof value === 'string' && /^([0-9a-f]{64})?$/.test(value),
+  developerMode: isBoolean,
+};
+
+export const loadSettings = (): Settings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored: unknown = raw ? JSON.parse(raw) : null;
+    if (!isRecord(stored)) return DEFAULT_SETTINGS;
+    // Start from the defaults so settings saved by older versions pick up new fields,
+    // and a field that is missing or out of range falls back on its own
+    const settings = { ...DEFAULT_SETTINGS };
+    for (const [key, isValid] of Object.entries(SETTING_CHECKS)) {
+      if (isValid(stored[key])) (settings as Record<string, unknown>)[key] = stored[key];
+    }
+    return settings;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: Settings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save settings", e);
+  }
+};
@@ -0,0 +1,187 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { Ambience } from '../types';
+import { AMBIENCES, AMBIENCE_REGISTRY } from './ambience';
+import { LayerSpec, Soundscape } from './soundscape';
+import { AudioManager, CROSSFADE_SECONDS, DEFAULT_MIX } from './audio';
+
+const SAMPLE_RATE = 8000;
+
+// The native renderer needs the ALSA runtime (libasound2) on Linux. Without it the rendering suites
+// are skipped locally, but fail on CI so a runner missing the library cannot pass unnoticed.
+const nativeAudio = await import('node-web-audio-api').catch(error => {
+  if (process.env.CI) throw new Error("node-web-audio-api must load on CI; install libasound2", { cause: error });
+  console.warn("node-web-audio-api is unavailable, skipping rendered audio tests", error);
+  return null;
+});
+
+const createContext = (seconds: number) => {
+  if (!nativeAudio) throw new Error("node-web-audio-api is unavailable");
+  return new nativeAudio.OfflineAudioContext(1, seconds * SAMPLE_RATE, SAMPLE_RATE) as unknown as OfflineAudioContext;
+};
+
+// Deterministic stand-in for Math.random
+const seededRandom = (seed = 1) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return (seed - 1) / 2147483646;
+};
+
+// `ended` events are dispatched after rendering finishes
+const flushEvents = () => new Promise(resolve => setTimeout(resolve, 50));
+
+// Run a callback at a point in the rendering timeline
+const at = (ctx: OfflineAudioContext, time: number, callback: () => void) =>
+  ctx.suspend(time).then(() => {
+    callback();
+    ctx.resume();
+  });
+
+const rms = (buffer: AudioBuffer, from: number, to: number) => {
+  const data = buffer.getChannelData(0).subarray(Math.floor(from * SAMPLE_RATE), Math.floor(to * SAMPLE_RATE));
+  let sum = 0;
+  for (const sample of data) sum += sample * sample;
+  return Math.sqrt(sum / Math.max(1, data.length));
+};
+
+const scapes: Soundscape[] = [];
+const track = (scape: Soundscape) => {
+  scapes.push(scape);
+  return scape;
+};
+
+afterEach(() => {
+  // Clear any event scheduling timers a failed test left running
+  scapes.splice(0).forEach(scape => scape.dispose());
+});
+
+describe.skipIf(!nativeAudio)('Soundscape', () => {
+  it.each(AMBIENCES)('%s tears down every node after fading out', async (type: Ambience) => {
+    const ctx = createContext(2);
+    const scape = track(new Soundscape(ctx, ctx.destination, AMBIENCE_REGISTRY[type].layers, { random: seededRandom() }));
+    scape.fadeIn(0.2);
+    expect(scape.activeSources).toBeGreaterThan(0);
+
+    at(ctx, 0.5, () => scape.fadeOut(0.5));
+    const rendered = await ctx.startRendering();
+    await flushEvents();
+
+    expect(rms(rendered, 0.25, 0.5)).toBeGreaterThan(0);
+    expect(rms(rendered, 1.1, 2)).toBe(0);
+    expect(scape.activeSources).toBe(0);
+    expect(scape.nodeCount).toBe(0);
+    expect(scape.disposed).toBe(true);
+  });
+
+  it('releases one-shot event nodes once each event ends', async () => {
+    const ctx = createContext(3);
+    const layers: LayerSpec[] = [{ kind: 'events', sound: 'drip', rate: 10, gain: 0.5 }];
+    const scape = track(new Soundscape(ctx, ctx.destination, layers, { random: seededRandom(7) }));
+    scape.fadeIn(0.01);
+
+    // Only the lookahead window is scheduled, so every event has ended by the end of the render
+    expect(scape.activeSources).toBeGreaterThan(5);
+    const rendered = await ctx.startRendering();
+    await flushEvents();
+
+    expect(rms(rendered, 0, 2)).toBeGreaterThan(0);
+    expect(scape.activeSources).toBe(0);
+    expect(scape.nodeCount).toBe(4); // Output, layer gain and the tension bed's gain and filter stay until the soundscape goes
+    scape.dispose();
+    expect(scape.nodeCount).toBe(0);
+  });
+
+  it('follows parameter changes without rebuilding the graph', async () => {
+    const ctx = createContext(4);
+    const layers: LayerSpec[] = [{ kind: 'noise', color: 'white', gain: 0.5, filter: { type: 'lowpass', frequency: 2000 } }];
+    const quiet = { intensity: 0, tempo: 0.5, brightness: 0.5, tension: 0 };
+    const scape = track(new Soundscape(ctx, ctx.destination, layers, { random: seededRandom(), params: quiet }));
+    scape.fadeIn(0.01);
+    const nodes = scape.nodeCount;
+    let nodesAfter = 0;
+
+    at(ctx, 1, () => {
+      scape.setParams({ ...quiet, intensity: 1, tension: 1 }, 0.3);
+      nodesAfter = scape.nodeCount;
+    });
+    const rendered = await ctx.startRendering();
+
+    expect(rms(rendered, 2, 4)).toBeGreaterThan(rms(rendered, 0.2, 1) * 2);
+    expect(nodesAfter).toBe(nodes);
+  });
+
+  it('stops scheduling events after fading out', async () => {
+    const ctx = createContext(3); // Covers the events already scheduled in the lookahead window
+    const layers: LayerSpec[] = [{ kind: 'events', sound: 'spark', rate: 20, gain: 0.5 }];
+    const scape = track(new Soundscape(ctx, ctx.destination, layers, { random: seededRandom(3) }));
+    scape.fadeOut(0);
+    const scheduled = scape.activeSources;
+    scape.scheduleEvents();
+    expect(scape.activeSources).toBe(scheduled);
+    await ctx.startRendering();
+    await flushEvents();
+    expect(scape.disposed).toBe(true);
+  });
+});
+
+describe.skipIf(!nativeAudio)('AudioManager', () => {
+  it('crossfades between ambiences without a gap', async () => {
+    const ctx = createContext(2 + CROSSFADE_SECONDS * 2);
+    const manager = new AudioManager(() => ctx);
+    manager.setAmbience('eerie');
+    const first = manager.soundscape!;
+    let second: Soundscape | null = null;
+
+    at(ctx, 2, () => {
+      manager.setAmbience('nature');
+      second = manager.soundscape;
+    });
+    const rendered = await ctx.startRendering();
+    await flushEvents();
+    scapes.push(second!);
+
+    // Both fades overlap: the mix never drops to silence
+    for (let t = 1.5; t < 2 + CROSSFADE_SECONDS; t += 0.25) {
+      expect(rms(rendered, t, t + 0.25)).toBeGreaterThan(0.001);
+    }
+    expect(first.disposed).toBe(true);
+    expect(first.activeSources).toBe(0);
+    expect(second).not.toBe(first);
+    expect(second!.disposed).toBe(false);
+    expect(manager.currentAmbienceType).toBe('nature');
+  });
+
+  it('keeps the same soundscape when the ambience does not change', () => {
+    const ctx = createContext(1);
+    const manager = new AudioManager(() => ctx);
+    manager.setAmbience('calm');
+    const scape = manager.soundscape!;
+    scapes.push(scape);
+    manager.setAmbience('calm', { intensity: 0.9, tempo: 0.5, brightness: 0.5, tension: 0.5 });
+    expect(manager.soundscape).toBe(scape);
+  });
+
+  it('applies the mix, including mute, to a graph built later', async () => {
+    const ctx = createContext(2);
+    const manager = new AudioManager(() => ctx);
+    manager.setMix({ ...DEFAULT_MIX, muted: true });
+    manager.setAmbience('storm');
+    scapes.push(manager.soundscape!);
+    at(ctx, 1, () => manager.setMix({ ...DEFAULT_MIX, ambience: 0.6 }));
+    const rendered = await ctx.startRendering();
+
+    expect(rms(rendered, 0, 1)).toBe(0);
+    expect(rms(rendered, 1.5, 2)).toBeGreaterThan(0);
+  });
+
+  it('fades the ambience out on stop', async () => {
+    const ctx = createContext(2);
+    const manager = new AudioManager(() => ctx);
+    manager.setAmbience('chaos');
+    const scape = manager.soundscape!;
+    at(ctx, 0.5, () => manager.stop());
+    await ctx.startRendering();
+    await flushEvents();
+
+    expect(manager.soundscape).toBeNull();
+    expect(scape.disposed).toBe(true);
+  });
+});
@@ -0,0 +1,400 @@
+import { SoundscapeParams } from '../types';
+
+// Layered procedural soundscapes.
+// An ambience is a recipe of layers (drones, filtered noise, random one-shot events).
+// A Soundscape builds every node of a recipe behind one output gain, keeps track of
+// all of them, and tears the whole graph down as a unit once it has faded out.
+// The recipes themselves live in the ambience registry (utils/ambience).
+
+export type NoiseColor = 'white' | 'pink' | 'brown';
+export type EventSound = 'drip' | 'bird' | 'spark' | 'clank' | 'chime' | 'bubble' | 'horn' | 'thunder' | 'blip' | 'crackle';
+
+export interface FilterSpec {
+  type: BiquadFilterType;
+  frequency: number;
+  q?: number;
+}
+
+export interface LfoSpec {
+  rate: number; // Hz
+  depth: number; // Added to the filter frequency (Hz) at the peaks
+}
+
+export type LayerSpec =
+  | { kind: 'drone'; wave: OscillatorType; frequencies: number[]; gain: number; filter?: FilterSpec; lfo?: LfoSpec }
+  | { kind: 'noise'; color: NoiseColor; gain: number; filter: FilterSpec; lfo?: LfoSpec }
+  | { kind: 'events'; sound: EventSound; rate: number; gain: number }; // rate: average events per second
+
+// --- Noise buffers, shared per context ---
+
+const noiseCache = new WeakMap<BaseAudioContext, Partial<Record<NoiseColor, AudioBuffer>>>();
+
+export const getNoiseBuffer = (ctx: BaseAudioContext, color: NoiseColor): AudioBuffer => {
+  const cache = noiseCache.get(ctx) ?? {};
+  noiseCache.set(ctx, cache);
+  if (cache[color]) return cache[color]!;
+
+  const length = 2 * ctx.sampleRate; // 2 seconds, looped
+  const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  let last = 0;
+  let b0 = 0, b1 = 0, b2 = 0;
+  for (let i = 0; i < length; i++) {
+    const white = Math.random() * 2 - 1;
+    if (color === 'brown') {
+      last = (last + 0.02 * white) / 1.02;
+      data[i] = last * 3.5;
+    } else if (color === 'pink') {
+      // Paul Kellet's economy filter
+      b0 = 0.99765 * b0 + white * 0.099046;
+      b1 = 0.963 * b1 + white * 0.2965164;
+      b2 = 0.57 * b2 + white * 1.0526913;
+      data[i] = (b0 + b1 + b2 + white * 0.1848) * 0.2;
+    } else {
+      data[i] = white;
+    }
+  }
+  cache[color] = buffer;
+  return buffer;
+};
+
+const LOOKAHEAD = 2; // Seconds of one-shot events scheduled in advance
+const SCHEDULE_INTERVAL_MS = 500;
+const CHIME_NOTES = [523.25, 587.33, 659.25, 783.99, 880]; // C major pentatonic
+const PARAM_RAMP = 1.5; // Seconds to glide to new parameters within the same ambience
+
+export const NEUTRAL_SOUNDSCAPE: SoundscapeParams = { intensity: 0.5, tempo: 0.5, brightness: 0.5, tension: 0.5 };
+
+// Multipliers derived from the parameters; all of them are 1 at the defaults
+const toFactors = ({ intensity, tempo, brightness, tension }: SoundscapeParams) => ({
+  level: 0.5 + intensity, // 0.5x - 1.5x
+  density: (0.5 + intensity) * 2 ** (2 * tempo - 1), // Events per second
+  speed: 2 ** (2 * tempo - 1), // LFO rates, 0.5x - 2x
+  cutoff: 2 ** (3 * brightness - 1.5), // Filter frequencies, ~0.35x - 2.8x
+  detune: Math.max(0, tension - 0.5) * 60, // Cents of spread between drone voices
+  rumble: Math.max(0, tension - 0.5) * 0.5, // Level of the low tension bed
+});
+
+export interface SoundscapeOptions {
+  random?: () => number;
+  params?: SoundscapeParams;
+}
+
+export class Soundscape {
+  readonly ctx: BaseAudioContext;
+  readonly output: GainNode;
+  private nodes = new Set<AudioNode>();
+  private sources = new Set<AudioScheduledSourceNode>();
+  private eventLayers: { spec: Extract<LayerSpec, { kind: 'events' }>; gain: GainNode; next: number }[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private random: () => number;
+  private factors = toFactors(NEUTRAL_SOUNDSCAPE);
+  // Nodes the parameters act on, with their designed values
+  private levels: { gain: GainNode; base: number }[] = [];
+  private filters: { filter: BiquadFilterNode; base: number }[] = [];
+  private lfos: OscillatorNode[] = [];
+  private lfoRates = new Map<OscillatorNode, number>();
+  private voices: OscillatorNode[] = [];
+  private rumble: GainNode | null = null;
+  private stopping = false;
+  disposed = false;
+
+  constructor(ctx: BaseAudioContext, destination: AudioNode, layers: LayerSpec[], options: SoundscapeOptions = {}) {
+    this.ctx = ctx;
+    this.random = options.random ?? Math.random;
+    this.factors = toFactors(options.params ?? NEUTRAL_SOUNDSCAPE);
+    this.output = this.own(ctx.createGain());
+    this.output.gain.value = 0;
+    this.output.connect(destination);
+
+    for (const spec of layers) this.addLayer(spec);
+    this.addTensionBed();
+    if (this.eventLayers.length > 0) {
+      this.scheduleEvents();
+      this.timer = setInterval(() => this.scheduleEvents(), SCHEDULE_INTERVAL_MS);
+    }
+  }
+
+  // Number of sources still playing; zero once the soundscape is torn down
+  get activeSources() {
+    return this.sources.size;
+  }
+
+  get nodeCount() {
+    return this.nodes.size;
+  }
+
+  fadeIn(duration: number, level = 1) {
+    const now = this.ctx.currentTime;
+    this.output.gain.cancelScheduledValues(now);
+    this.output.gain.setValueAtTime(this.output.gain.value, now);
+    this.output.gain.linearRampToValueAtTime(level, now + duration);
+  }
+
+  // Glide to new parameters without rebuilding the graph
+  setParams(params: SoundscapeParams, ramp = PARAM_RAMP) {
+    if (this.stopping) return;
+    this.factors = toFactors(params);
+    const { level, speed, cutoff, detune, rumble } = this.factors;
+    const now = this.ctx.currentTime;
+    const timeConstant = ramp / 3;
+
+    for (const { gain, base } of this.levels) gain.gain.setTargetAtTime(base * level, now, timeConstant);
+    for (const { filter, base } of this.filters) filter.frequency.setTargetAtTime(base * cutoff, now, timeConstant);
+    for (const lfo of this.lfos) lfo.frequency.setTargetAtTime(this.lfoRates.get(lfo)! * speed, now, timeConstant);
+    this.voices.forEach((osc, i) => osc.detune.setTargetAtTime(this.voiceDetune(i, detune), now, timeConstant));
+    this.rumble?.gain.setTargetAtTime(rumble, now, timeConstant);
+  }
+
+  // Fade to silence, then stop every source; the graph disconnects itself once they have all ended
+  fadeOut(duration: number) {
+    if (this.stopping) return;
+    this.stopping = true;
+    this.clearTimer();
+
+    const now = this.ctx.currentTime;
+    const end = now + duration;
+    this.output.gain.cancelScheduledValues(now);
+    this.output.gain.setValueAtTime(this.output.gain.value, now);
+    this.output.gain.linearRampToValueAtTime(0, end);
+
+    if (this.sources.size === 0) {
+      this.dispose();
+      return;
+    }
+    for (const source of this.sources) {
+      try {
+        source.stop(end);
+      } catch {
+        // Already stopped
+      }
+    }
+  }
+
+  // Immediate teardown, for when the context itself is going away
+  dispose() {
+    if (this.disposed) return;
+    this.disposed = true;
+    this.stopping = true;
+    this.clearTimer();
+    for (const source of this.sources) {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // Already stopped
+      }
+    }
+    this.sources.clear();
+    for (const node of this.nodes) node.disconnect();
+    this.nodes.clear();
+    this.eventLayers = [];
+  }
+
+  // Schedule one-shot events up to LOOKAHEAD seconds past the current time
+  scheduleEvents() {
+    if (this.stopping) return;
+    const horizon = this.ctx.currentTime + LOOKAHEAD;
+    for (const layer of this.eventLayers) {
+      if (layer.next < this.ctx.currentTime) layer.next = this.ctx.currentTime + this.nextGap(layer.spec.rate);
+      const rate = layer.spec.rate * this.factors.density;
+      while (layer.next < horizon) {
+        this.playEvent(layer.spec.sound, layer.gain, layer.next);
+        layer.next += this.nextGap(rate);
+      }
+    }
+  }
+
+  private clearTimer() {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Voices spread symmetrically around the pitch: 0, +d, -d, +2d...
+  private voiceDetune(index: number, detune: number) {
+    return (index % 2 === 0 ? -1 : 1) * Math.ceil(index / 2) * detune;
+  }
+
+  // Poisson process: exponential gaps between events
+  private nextGap(rate: number) {
+    return -Math.log(1 - this.random()) / rate;
+  }
+
+  private own<T extends AudioNode>(node: T): T {
+    this.nodes.add(node);
+    return node;
+  }
+
+  // Companions are nodes that only serve this source and are released with it
+  private startSource<T extends AudioScheduledSourceNode>(source: T, when = this.ctx.currentTime, stopAt?: number, companions: AudioNode[] = []): T {
+    this.own(source);
+    this.sources.add(source);
+    source.onended = () => {
+      for (const node of [source, ...companions]) {
+        node.disconnect();
+        this.nodes.delete(node);
+      }
+      this.sources.delete(source);
+      if (this.stopping && this.sources.size === 0) this.dispose();
+    };
+    source.start(when);
+    if (stopAt !== undefined) source.stop(stopAt);
+    return source;
+  }
+
+  private createFilter(spec: FilterSpec, lfo?: LfoSpec) {
+    const filter = this.own(this.ctx.createBiquadFilter());
+    filter.type = spec.type;
+    filter.frequency.value = spec.frequency * this.factors.cutoff;
+    if (spec.q !== undefined) filter.Q.value = spec.q;
+    this.filters.push({ filter, base: spec.frequency });
+
+    if (lfo) {
+      const osc = this.ctx.createOscillator();
+      osc.frequency.value = lfo.rate * this.factors.speed;
+      this.lfos.push(osc);
+      this.lfoRates.set(osc, lfo.rate);
+      const depth = this.own(this.ctx.createGain());
+      depth.gain.value = lfo.depth;
+      osc.connect(depth);
+      depth.connect(filter.frequency);
+      this.startSource(osc, undefined, undefined, [depth]);
+    }
+    return filter;
+  }
+
+  private addLayer(spec: LayerSpec) {
+    const gain = this.own(this.ctx.createGain());
+    gain.gain.value = spec.gain * this.factors.level;
+    gain.connect(this.output);
+    this.levels.push({ gain, base: spec.gain });
+
+    if (spec.kind === 'events') {
+      this.eventLayers.push({ spec, gain, next: this.ctx.currentTime + this.nextGap(spec.rate) });
+      return;
+    }
+
+    const input = spec.filter ? this.createFilter(spec.filter, spec.lfo) : gain;
+    if (input !== gain) input.connect(gain);
+
+    if (spec.kind === 'drone') {
+      spec.frequencies.forEach((frequency, i) => {
+        const osc = this.ctx.createOscillator();
+        osc.type = spec.wave;
+        osc.frequency.value = frequency;
+        osc.detune.value = this.voiceDetune(i, this.factors.detune);
+        osc.connect(input);
+        this.voices.push(osc);
+        this.startSource(osc);
+      });
+    } else {
+      const source = this.ctx.createBufferSource();
+      source.buffer = getNoiseBuffer(this.ctx, spec.color);
+      source.loop = true;
+      source.connect(input);
+      this.startSource(source);
+    }
+  }
+
+  // A low, slowly beating rumble that is silent until tension rises past neutral
+  private addTensionBed() {
+    const gain = this.own(this.ctx.createGain());
+    gain.gain.value = this.factors.rumble;
+    gain.connect(this.output);
+    this.rumble = gain;
+
+    const filter = this.own(this.ctx.createBiquadFilter());
+    filter.type = 'lowpass';
+    filter.frequency.value = 120;
+    filter.connect(gain);
+
+    for (const frequency of [41.2, 42.1]) {
+      const osc = this.ctx.createOscillator();
+      osc.type = 'sawtooth';
+      osc.frequency.value = frequency;
+      osc.connect(filter);
+      this.startSource(osc);
+    }
+  }
+
+  // A short sound with its own envelope; its nodes are released when it ends
+  private playEvent(sound: EventSound, destination: AudioNode, when: number) {
+    const ctx = this.ctx;
+    const env = this.own(ctx.createGain());
+    env.connect(destination);
+    const level = this.random() * 0.4 + 0.8; // Small variation between events
+
+    const envelope = (attack: number, decay: number) => {
+      env.gain.setValueAtTime(0.0001, when);
+      env.gain.exponentialRampToValueAtTime(level, when + attack);
+      env.gain.exponentialRampToValueAtTime(0.0001, when + attack + decay);
+      return when + attack + decay + 0.05;
+    };
+
+    const noiseBurst = (color: NoiseColor, type: BiquadFilterType, frequency: number, attack: number, decay: number) => {
+      const source = ctx.createBufferSource();
+      source.buffer = getNoiseBuffer(ctx, color);
+      source.loop = true;
+      const filter = this.own(ctx.createBiquadFilter());
+      filter.type = type;
+      filter.frequency.value = frequency;
+      source.connect(filter);
+      filter.connect(env);
+      this.startSource(source, when, envelope(attack, decay), [filter, env]);
+    };
+
+    if (sound === 'spark') return noiseBurst('white', 'highpass', 3000, 0.005, 0.06);
+    if (sound === 'crackle') return noiseBurst('white', 'bandpass', 1500 + this.random() * 2500, 0.001, 0.02);
+    if (sound === 'thunder') return noiseBurst('brown', 'lowpass', 200, 0.3, 2.5);
+
+    const osc = ctx.createOscillator();
+    osc.connect(env);
+    let end: number;
+    switch (sound) {
+      case 'drip':
+        osc.type = 'sine';
+        osc.frequency.setValueAtTime(1200, when);
+        osc.frequency.exponentialRampToValueAtTime(400, when + 0.08);
+        end = envelope(0.005, 0.12);
+        break;
+      case 'bird':
+        osc.type = 'sine';
+        osc.frequency.setValueAtTime(2000, when);
+        osc.frequency.exponentialRampToValueAtTime(3200, when + 0.07);
+        osc.frequency.exponentialRampToValueAtTime(2400, when + 0.15);
+        end = envelope(0.02, 0.15);
+        break;
+      case 'clank':
+        osc.type = 'square';
+        osc.frequency.setValueAtTime(180 + this.random() * 60, when);
+        end = envelope(0.002, 0.3);
+        break;
+      case 'bubble':
+        osc.type = 'sine';
+        osc.frequency.setValueAtTime(300 + this.random() * 200, when);
+        osc.frequency.exponentialRampToValueAtTime(900, when + 0.06);
+        end = envelope(0.005, 0.06);
+        break;
+      case 'horn':
+        osc.type = 'sawtooth';
+        osc.frequency.setValueAtTime(this.random() < 0.5 ? 330 : 392, when);
+        end = envelope(0.03, 0.4);
+        break;
+      case 'blip':
+        osc.type = 'sine';
+        osc.frequency.setValueAtTime(1500, when);
+        osc.frequency.exponentialRampToValueAtTime(1200, when + 0.1);
+        end = envelope(0.005, 0.15);
+        break;
+      case 'chime':
+      default:
+        osc.type = 'triangle';
+        osc.frequency.setValueAtTime(CHIME_NOTES[Math.floor(this.random() * CHIME_NOTES.length)], when);
+        end = envelope(0.01, 1.5);
+        break;
+    }
+    this.startSource(osc, when, end, [env]);
+  }
+}
@@ -0,0 +1,9 @@
+import { SceneData } from '../types';
+
+// Shared helpers for exporting adventures to Twine/Ink source.
+
+export const UNEXPLORED_TEXT = 'This path was never explored.';
+
+// Stable, readable passage names in the order scenes were generated.
+export const passageNames = (history: SceneData[]): Map<string, string> =>
+  new Map(history.map((scene, i) => [scene.id, `Scene ${i + 1}`]));
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { SceneData } from '../types';
+import { createAuthoredStoryProvider } from '../services/authored';
+import { StoryImportError } from './storyImport';
+import { parseTwee } from './twee';
+import { parseInk, exportInk } from './ink';
+
+// Names that exist on Object.prototype must behave like any other passage name
+const PROTOTYPE_NAMES = ['toString', 'constructor', '__proto__'];
+
+const issuesOf = (parse: () => unknown) => {
+  try {
+    parse();
+  } catch (error) {
+    if (error instanceof StoryImportError) return error.issues.map(issue => issue.message);
+    throw error;
+  }
+  return [];
+};
+
+describe('parseTwee passage names', () => {
+  it.each(PROTOTYPE_NAMES)('imports and plays a passage named %s', async (name) => {
+    const story = parseTwee(`:: Start\nA door.\n[[Open it->${name}]]\n\n:: ${name}\nA hallway.\n`);
+
+    expect(Object.keys(story.passages)).toEqual(['Start', name]);
+    const scene = await createAuthoredStoryProvider(story).generateSceneLogic(name, '');
+    expect(scene.narrative).toBe('A hallway.');
+  });
+
+  it.each(PROTOTYPE_NAMES)('reports a link to a missing passage named %s', (name) => {
+    expect(issuesOf(() => parseTwee(`:: Start\nA door.\n[[Open it->${name}]]\n`)))
+      .toEqual([`Link "Open it" points to missing passage "${name}".`]);
+  });
+
+  it.each(PROTOTYPE_NAMES)('reports a missing start passage named %s', (name) => {
+    expect(issuesOf(() => parseTwee(`:: StoryData\n{ "start": "${name}" }\n\n:: Start\nThe end.\n`)))
+      .toEqual([`Start passage "${name}" does not exist.`]);
+  });
+});
+
+describe('parseInk knot names', () => {
+  it.each(PROTOTYPE_NAMES)('imports and plays a knot named %s', async (name) => {
+    const story = parseInk(`-> start\n=== start ===\nA door.\n* [Open it] -> ${name}\n=== ${name} ===\nA hallway.\n-> END\n`);
+
+    expect(Object.keys(story.passages)).toEqual(['start', name]);
+    const scene = await createAuthoredStoryProvider(story).generateSceneLogic(name, '');
+    expect(scene.narrative).toBe('A hallway.');
+  });
+
+  it.each(PROTOTYPE_NAMES)('reports a divert to a missing knot named %s', (name) => {
+    expect(issuesOf(() => parseInk(`=== start ===\nA door.\n* [Open it] -> ${name}\n`)))
+      .toEqual([`Link "Open it" points to missing passage "${name}".`]);
+  });
+});
+
+describe('createAuthoredStoryProvider', () => {
+  it.each(PROTOTYPE_NAMES)('does not find a passage named %s that the story lacks', async (name) => {
+    const story = parseTwee(':: Start\nThe end.\n');
+
+    await expect(createAuthoredStoryProvider(story).generateSceneLogic(name, ''))
+      .rejects.toThrow(`Passage "${name}" not found`);
+  });
+});
+
+describe('exportInk', () => {
+  // Prose full of characters Ink reads as markup
+  const NARRATIVE = [
+    '- Not a gather, * not a choice, + not a sticky choice.',
+    '-> not a divert',
+    '=== not a knot ===',
+    '= not a stitch',
+    '# not a tag, and room #5 is not one either',
+    '~ not logic',
+    '<- not a thread',
+    'INCLUDE this line too',
+    'A sign reads http://example.com // and /* this */ stays.',
+    'Arrows -> inside, {braces}, <> glue and a back\\slash.',
+  ].join('\n');
+
+  const scene = (id: string, parentId: string | null, narrative: string, options: string[]): SceneData => ({
+    id,
+    parentId,
+    narrative,
+    visualPrompt: '',
+    ambience: 'calm',
+    options: options.map(label => ({ label, actionPrompt: label })),
+  });
+
+  it('escapes markup so the exported story imports with the same text', () => {
+    const root = scene('a', null, NARRATIVE, ['Go -> north // now', '# Wait']);
+    const child = { ...scene('b', 'a', '* The end.', []), chosenOption: root.options[0] };
+
+    const story = parseInk(exportInk('Signs // #1', [root, child]));
+
+    expect(story.title).toBe('Signs // #1');
+    expect(story.start).toBe('scene_1');
+    expect(story.passages.scene_1.text).toBe(NARRATIVE);
+    expect(story.passages.scene_1.links).toEqual([
+      { label: 'Go -> north // now', target: 'scene_2' },
+      { label: '# Wait', target: 'scene_1_unexplored_2' },
+    ]);
+    expect(story.passages.scene_2.text).toBe('* The end.');
+  });
+});
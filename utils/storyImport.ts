@@ -0,0 +1,70 @@
+import { AuthoredStory, AuthoredPassage } from '../types';
+import { parseTwee } from './twee';
+import { parseInk } from './ink';
+
+// Shared plumbing for importing Twine/Ink stories.
+
+export interface ImportIssue {
+  passage: string; // Passage (or knot) the problem was found in
+  line?: number; // 1-based line in the source file
+  message: string;
+}
+
+export class StoryImportError extends Error {
+  issues: ImportIssue[];
+
+  constructor(issues: ImportIssue[]) {
+    super(issues.map(formatIssue).join('\n'));
+    this.name = 'StoryImportError';
+    this.issues = issues;
+  }
+}
+
+export const formatIssue = (issue: ImportIssue) =>
+  `${issue.passage}${issue.line ? ` (line ${issue.line})` : ''}: ${issue.message}`;
+
+// Passage names come from the file, so "toString" or "__proto__" must not resolve to Object.prototype.
+export const findPassage = (story: AuthoredStory, name: string): AuthoredPassage | undefined =>
+  Object.hasOwn(story.passages, name) ? story.passages[name] : undefined;
+
+// Checks that apply to any imported story, whatever the source format.
+export const validateStory = (story: AuthoredStory, issues: ImportIssue[]) => {
+  const names = Object.keys(story.passages);
+  if (names.length === 0) {
+    issues.push({ passage: story.title, message: 'The story has no passages.' });
+    return;
+  }
+  if (!findPassage(story, story.start)) {
+    issues.push({ passage: story.title, message: `Start passage "${story.start}" does not exist.` });
+  }
+  for (const passage of Object.values(story.passages)) {
+    if (!passage.text.trim() && passage.links.length === 0) {
+      issues.push({ passage: passage.name, message: 'Passage is empty.' });
+    }
+    for (const link of passage.links) {
+      if (!findPassage(story, link.target)) {
+        issues.push({ passage: passage.name, message: `Link "${link.label}" points to missing passage "${link.target}".` });
+      }
+    }
+  }
+};
+
+// Removes story-format markup we cannot run (macros, HTML) so only prose reaches the player.
+export const cleanPassageText = (text: string) =>
+  text
+    .replace(/<<[\s\S]*?>>/g, '') // SugarCube macros
+    .replace(/\(\w[\w-]*:[^()]*\)/g, '') // Harlowe macros
+    .replace(/<\/?[a-z][^>]*>/gi, '') // HTML tags
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+export const createPassage = (name: string): AuthoredPassage => ({ name, text: '', tags: [], links: [] });
+
+// Detects the format from the file name, falling back to sniffing the contents.
+export const importStory = (fileName: string, source: string): AuthoredStory => {
+  const lower = fileName.toLowerCase();
+  const isTwee = lower.endsWith('.twee') || lower.endsWith('.tw')
+    || (!lower.endsWith('.ink') && /^::/m.test(source));
+  return isTwee ? parseTwee(source) : parseInk(source);
+};
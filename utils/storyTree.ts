@@ -0,0 +1,51 @@
+import { SceneData, ActionOption } from '../types';
+
+// Helpers for the story tree. Scenes are stored flat in `history`, and each one
+// points at the scene it branched from through `parentId`.
+
+export const getScene = (history: SceneData[], id: string | null): SceneData | undefined =>
+  id ? history.find(s => s.id === id) : undefined;
+
+// Walks from the given scene up to the root and returns the path root-first.
+export const getScenePath = (history: SceneData[], id: string): SceneData[] => {
+  const path: SceneData[] = [];
+  const seen = new Set<string>();
+  let node = getScene(history, id);
+  while (node && !seen.has(node.id)) {
+    seen.add(node.id);
+    path.unshift(node);
+    node = getScene(history, node.parentId);
+  }
+  return path;
+};
+
+export const getChildren = (history: SceneData[], id: string): SceneData[] =>
+  history.filter(s => s.parentId === id);
+
+export const getRoots = (history: SceneData[]): SceneData[] =>
+  history.filter(s => s.parentId === null);
+
+// The branch already generated for an option, if the player has taken it before.
+export const findChildForOption = (history: SceneData[], id: string, option: ActionOption): SceneData | undefined =>
+  getChildren(history, id).find(
+    child => child.chosenOption?.label === option.label && child.chosenOption?.actionPrompt === option.actionPrompt
+  );
+
+// Actions the player typed at a scene; they branch off it without being one of its options.
+export const getCustomActions = (history: SceneData[], id: string): ActionOption[] =>
+  getChildren(history, id)
+    .map(child => child.chosenOption)
+    .filter((option): option is ActionOption => !!option?.custom);
+
+// Everything that leads out of a scene: its offered options, then the player's own actions.
+export const getBranchOptions = (history: SceneData[], scene: SceneData): ActionOption[] =>
+  [...scene.options, ...getCustomActions(history, scene.id)];
+
+// Saves made before the tree existed hold a plain linear history without parent links.
+export const normalizeHistory = (history: SceneData[]): SceneData[] => {
+  if (history.every(s => s.parentId !== undefined)) return history;
+  return history.map((scene, i) => ({
+    ...scene,
+    parentId: i === 0 ? null : history[i - 1].id,
+  }));
+};
@@ -0,0 +1,143 @@
+import { AuthoredStory, AuthoredLink, SceneData } from '../types';
+import { ImportIssue, StoryImportError, validateStory, cleanPassageText, createPassage, findPassage } from './storyImport';
+import { passageNames, UNEXPLORED_TEXT } from './storyExport';
+import { getBranchOptions } from './storyTree';
+
+// Twee 3 (Twine) import and export.
+// Spec: https://github.com/iftechfoundation/twine-specs/blob/master/twee-3-specification.md
+
+const SPECIAL_PASSAGES = new Set(['StoryTitle', 'StoryData', 'StoryInit']);
+const SKIPPED_TAGS = new Set(['script', 'stylesheet', 'Twine.private']);
+
+const HEADER = /^::\s*((?:\\.|[^\\[{])*?)\s*(?:\[((?:\\.|[^\]])*)\])?\s*(\{.*\})?\s*$/;
+
+const unescapeName = (name: string) => name.replace(/\\(.)/g, '$1');
+const escapeName = (name: string) => name.replace(/([\\[\]{}])/g, '\\$1');
+
+// Supports [[text]], [[text->target]], [[target<-text]] and [[text|target]].
+const parseLink = (body: string): AuthoredLink => {
+  let match = body.match(/^(.*)->(.*)$/);
+  if (match) return { label: match[1].trim(), target: match[2].trim() };
+  match = body.match(/^(.*?)<-(.*)$/);
+  if (match) return { label: match[2].trim(), target: match[1].trim() };
+  const pipe = body.lastIndexOf('|');
+  if (pipe !== -1) return { label: body.slice(0, pipe).trim(), target: body.slice(pipe + 1).trim() };
+  return { label: body.trim(), target: body.trim() };
+};
+
+export const parseTwee = (source: string): AuthoredStory => {
+  const issues: ImportIssue[] = [];
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const story: AuthoredStory = { title: 'Imported Story', format: 'twee', start: '', passages: Object.create(null) };
+  const raw: { name: string; tags: string[]; line: number; body: string[] }[] = [];
+  let storyDataStart: string | undefined;
+
+  lines.forEach((line, i) => {
+    if (line.startsWith('::')) {
+      const header = line.match(HEADER);
+      if (!header || !header[1].trim()) {
+        issues.push({ passage: line, line: i + 1, message: 'Malformed passage header.' });
+        raw.push({ name: `(line ${i + 1})`, tags: ['Twine.private'], line: i + 1, body: [] });
+        return;
+      }
+      raw.push({
+        name: unescapeName(header[1].trim()),
+        tags: header[2] ? header[2].split(/\s+/).filter(Boolean) : [],
+        line: i + 1,
+        body: [],
+      });
+    } else if (raw.length > 0) {
+      raw[raw.length - 1].body.push(line);
+    } else if (line.trim()) {
+      issues.push({ passage: '(before first passage)', line: i + 1, message: 'Text outside of any passage.' });
+    }
+  });
+
+  for (const entry of raw) {
+    const body = entry.body.join('\n').trim();
+
+    if (entry.name === 'StoryTitle') {
+      story.title = body || story.title;
+      continue;
+    }
+    if (entry.name === 'StoryData') {
+      try {
+        storyDataStart = JSON.parse(body).start;
+      } catch {
+        issues.push({ passage: 'StoryData', line: entry.line, message: 'StoryData is not valid JSON.' });
+      }
+      continue;
+    }
+    if (SPECIAL_PASSAGES.has(entry.name) || entry.tags.some(t => SKIPPED_TAGS.has(t))) continue;
+
+    if (findPassage(story, entry.name)) {
+      issues.push({ passage: entry.name, line: entry.line, message: 'Duplicate passage name.' });
+      continue;
+    }
+
+    const passage = createPassage(entry.name);
+    passage.tags = entry.tags;
+
+    const opens = (body.match(/\[\[/g) || []).length;
+    const closes = (body.match(/\]\]/g) || []).length;
+    if (opens !== closes) {
+      issues.push({ passage: entry.name, line: entry.line, message: 'Unbalanced [[ ]] link brackets.' });
+    }
+
+    const text = body.replace(/\[\[([\s\S]*?)\]\]/g, (_, linkBody: string) => {
+      const link = parseLink(linkBody);
+      if (!link.label || !link.target) {
+        issues.push({ passage: entry.name, line: entry.line, message: `Empty link "[[${linkBody}]]".` });
+      } else {
+        passage.links.push(link);
+      }
+      return '';
+    });
+    passage.text = cleanPassageText(text);
+    story.passages[entry.name] = passage;
+  }
+
+  story.start = storyDataStart
+    ?? (findPassage(story, 'Start') ? 'Start' : Object.keys(story.passages)[0] ?? '');
+
+  validateStory(story, issues);
+  if (issues.length > 0) throw new StoryImportError(issues);
+  return story;
+};
+
+// Link text cannot contain the link delimiters
+const sanitizeLabel = (label: string) => label.replace(/\]\]|->|<-|\|/g, ' ').replace(/[[\]]/g, '').trim();
+
+export const exportTwee = (title: string, history: SceneData[]): string => {
+  const names = passageNames(history);
+  const ifid = crypto.randomUUID().toUpperCase();
+  const root = history.find(s => s.parentId === null);
+
+  const out: string[] = [
+    ':: StoryTitle',
+    title,
+    '',
+    ':: StoryData',
+    JSON.stringify({ ifid, format: 'Harlowe', 'format-version': '3.3.8', start: root ? names.get(root.id) : undefined }, null, 2),
+    '',
+  ];
+  const stubs: string[] = [];
+
+  for (const scene of history) {
+    const name = names.get(scene.id)!;
+    const children = history.filter(s => s.parentId === scene.id);
+    out.push(`:: ${escapeName(name)} [${scene.ambience}]`, scene.narrative, '');
+
+    getBranchOptions(history, scene).forEach((option, idx) => {
+      const child = children.find(c =>
+        c.chosenOption?.label === option.label && c.chosenOption?.actionPrompt === option.actionPrompt
+      );
+      const target = child ? names.get(child.id)! : `${name} - Unexplored ${idx + 1}`;
+      out.push(`[[${sanitizeLabel(option.label)}->${target}]]`);
+      if (!child) stubs.push(`:: ${escapeName(target)} [unexplored]`, UNEXPLORED_TEXT, '');
+    });
+    out.push('');
+  }
+
+  return [...out, ...stubs].join('\n');
+};
@@ -0,0 +1,46 @@
+import { VisualBible, VisualEntity, SceneLogic } from '../types';
+
+// Visual consistency across scenes. Every image prompt gets the locked art style and
+// the established look of any recurring character or location that appears in it.
+
+export const DEFAULT_ART_STYLE = 'Cinematic concept art, award winning, 8k resolution, dramatic lighting, detailed texture';
+
+const MAX_PROMPT_ENTITIES = 6;
+
+export const createBible = (artStyle = DEFAULT_ART_STYLE): VisualBible => ({
+  artStyle,
+  entities: [],
+  useReferenceImage: true,
+});
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Adds newly introduced entities. Existing entries keep their first description so the
+// model cannot drift a character's look from scene to scene.
+export const mergeEntities = (bible: VisualBible, entities: VisualEntity[] = []): VisualBible => {
+  const added = entities.filter(e =>
+    e && typeof e.name === 'string' && e.name.trim() && typeof e.appearance === 'string' && e.appearance.trim()
+    && (e.kind === 'character' || e.kind === 'location')
+    && !bible.entities.some(existing => sameName(existing.name, e.name))
+  );
+  if (added.length === 0) return bible;
+  return {
+    ...bible,
+    entities: [...bible.entities, ...added.map(e => ({ kind: e.kind, name: e.name.trim(), appearance: e.appearance.trim() }))],
+  };
+};
+
+// Entities the scene declared, plus any bible entry its text mentions by name.
+export const buildVisualPrompt = (bible: VisualBible, scene: Pick<SceneLogic, 'visualPrompt' | 'narrative' | 'entities'>): string => {
+  const text = `${scene.visualPrompt} ${scene.narrative}`.toLowerCase();
+  const relevant = bible.entities
+    .filter(e => e.name.trim() && e.appearance.trim())
+    .filter(e => scene.entities?.some(se => sameName(se.name, e.name)) || text.includes(e.name.trim().toLowerCase()))
+    .slice(0, MAX_PROMPT_ENTITIES);
+
+  const parts = [`${bible.artStyle}: ${scene.visualPrompt}`];
+  if (relevant.length > 0) {
+    parts.push(`Keep these designs consistent - ${relevant.map(e => `${e.name}: ${e.appearance}`).join('; ')}`);
+  }
+  return parts.join('. ');
+};
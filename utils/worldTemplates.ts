@@ -0,0 +1,163 @@
+import { WorldTemplate, StoryTone } from '../types';
+import { isAmbience } from './ambience';
+import { DEFAULT_ART_STYLE } from './visualBible';
+import { TONES } from './settings';
+import { MessageKey, Translate } from './i18n';
+
+// World templates for the start screen: genre presets that ship with the app, and the
+// player's own worlds, kept in localStorage and shared as JSON files.
+// Genre and art style are only read by the models, so they stay in English.
+
+export const TEMPLATES_FORMAT = 'dreamstream-worlds';
+export const TEMPLATES_VERSION = 1;
+
+const STORAGE_KEY = 'dreamstream:templates';
+
+type WorldPreset = Omit<WorldTemplate, 'name' | 'hook'> & { name: MessageKey; hook: MessageKey };
+
+const WORLD_PRESETS: WorldPreset[] = [
+  {
+    id: 'preset:noir',
+    name: 'quick.detective',
+    genre: 'a rain-soaked cyberpunk megacity of neon signs, megacorporations and street crime, told as a hard-boiled detective story',
+    artStyle: 'Neo-noir cyberpunk illustration, rain-slick streets, neon reflections, deep shadows, teal and magenta palette',
+    tone: 'dark',
+    ambience: 'city',
+    hook: 'world.noir.hook',
+  },
+  {
+    id: 'preset:forest',
+    name: 'quick.forest',
+    genre: 'a fairy-tale forest of talking animals, old magic and paths that move when nobody is looking',
+    artStyle: 'Storybook fantasy painting, soft golden light, lush watercolor greens, whimsical details',
+    tone: 'lighthearted',
+    ambience: 'nature',
+    hook: 'world.forest.hook',
+  },
+  {
+    id: 'preset:zombie',
+    name: 'quick.zombie',
+    genre: 'survival horror in a shopping mall overrun by shambling zombies, where supplies and trust are scarce',
+    artStyle: 'Gritty survival horror concept art, flickering fluorescent light, desaturated colors, heavy film grain',
+    tone: 'dark',
+    ambience: 'eerie',
+    hook: 'world.zombie.hook',
+  },
+  {
+    id: 'preset:mars',
+    name: 'quick.mars',
+    genre: 'hard science fiction on a failing Mars colony, with thin air, red dust and machines that keep everyone alive',
+    artStyle: 'Retro-futurist science fiction matte painting, rust-red dust, cold blue habitat lights, vast scale',
+    tone: 'balanced',
+    ambience: 'space',
+    hook: 'world.mars.hook',
+  },
+];
+
+export const getPresetTemplates = (t: Translate): WorldTemplate[] =>
+  WORLD_PRESETS.map(preset => ({ ...preset, name: t(preset.name), hook: t(preset.hook) }));
+
+export const isPresetTemplate = (template: WorldTemplate) => template.id.startsWith('preset:');
+
+export const createTemplate = (base: Partial<WorldTemplate> = {}): WorldTemplate => ({
+  name: '',
+  genre: '',
+  artStyle: DEFAULT_ART_STYLE,
+  tone: 'balanced',
+  ambience: 'calm',
+  hook: '',
+  ...base,
+  id: crypto.randomUUID(),
+});
+
+export class TemplateImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateImportError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// A problem found in a shared file, translated once the whole file has been read
+interface TemplateIssue {
+  key: MessageKey;
+  params: Record<string, string | number>;
+}
+
+// Problems are collected per world so a shared file can be fixed in one go
+const readTemplate = (value: unknown, number: number, issues: TemplateIssue[]): WorldTemplate | null => {
+  if (!isRecord(value)) {
+    issues.push({ key: 'worlds.error.notObject', params: { number } });
+    return null;
+  }
+  const valid = issues.length;
+  if (!TONES.some(tone => tone.value === value.tone)) issues.push({ key: 'worlds.error.tone', params: { number, tone: String(value.tone) } });
+  if (!isAmbience(value.ambience)) issues.push({ key: 'worlds.error.ambience', params: { number, ambience: String(value.ambience) } });
+  if (issues.length > valid) return null;
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : crypto.randomUUID(),
+    name: text(value.name), // Shown as "Untitled World" in the player's language
+    genre: text(value.genre),
+    artStyle: text(value.artStyle) || DEFAULT_ART_STYLE,
+    tone: value.tone as StoryTone,
+    ambience: value.ambience as WorldTemplate['ambience'],
+    hook: text(value.hook), // Without one the player writes the opening
+  };
+};
+
+export const loadTemplates = (): WorldTemplate[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(stored)) return [];
+    return stored.map((value, i) => readTemplate(value, i + 1, [])).filter((template): template is WorldTemplate => !!template);
+  } catch {
+    return [];
+  }
+};
+
+export const saveTemplates = (templates: WorldTemplate[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  } catch (e) {
+    console.error("Failed to save world templates", e);
+  }
+};
+
+// Ids stay local: every import gets fresh ones so shared worlds never overwrite each other
+export const exportTemplates = (templates: WorldTemplate[]): string => JSON.stringify({
+  format: TEMPLATES_FORMAT,
+  version: TEMPLATES_VERSION,
+  templates: templates.map(({ id, ...template }) => template),
+}, null, 2);
+
+// Accepts an exported file, a bare array of worlds or a single world.
+// Errors are reported in the player's language.
+export const parseTemplates = (json: string, t: Translate): WorldTemplate[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new TemplateImportError(t('worlds.error.json'));
+  }
+  if (isRecord(data) && data.format === TEMPLATES_FORMAT && data.version !== TEMPLATES_VERSION) {
+    throw new TemplateImportError(t('worlds.error.version', { version: String(data.version) }));
+  }
+  const list = isRecord(data) && data.format === TEMPLATES_FORMAT ? data.templates : Array.isArray(data) ? data : [data];
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new TemplateImportError(t('worlds.error.empty'));
+  }
+
+  const issues: TemplateIssue[] = [];
+  const templates = list.map((value, i) => readTemplate(value, i + 1, issues));
+  if (issues.length > 0) {
+    throw new TemplateImportError(issues.map(issue => t(issue.key, issue.params)).join('\n'));
+  }
+  return templates
+    .filter((template): template is WorldTemplate => !!template)
+    .map(template => ({ ...template, id: crypto.randomUUID() }));
+};
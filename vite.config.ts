@@ -11,6 +11,8 @@ export default defineConfig(({ mode }) => {
     define: {
       // Map the GEMINI_API_KEY from .env to process.env.API_KEY for the app to use
       'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY || env.VITE_GEMINI_API_KEY || env.API_KEY),
+      // Optional backend override ('gemini' or 'offline'), e.g. for demos without network
+      'process.env.DREAMSTREAM_PROVIDER': JSON.stringify(env.DREAMSTREAM_PROVIDER || env.VITE_DREAMSTREAM_PROVIDER),
     },
     server: {
       host: true, // Expose to all IPs